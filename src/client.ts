@@ -10,6 +10,7 @@
 
 import type {
   AliasPayload,
+  AllPagesResponse,
   Audience,
   AuditEvent,
   BatchPayload,
@@ -19,8 +20,11 @@ import type {
   DestinationFilter,
   DestinationSubscription,
   Function,
+  FunctionVersion,
   GroupPayload,
+  HashPropertyConfiguration,
   IdentifyPayload,
+  InsertFunctionInstance,
   PagePayload,
   PaginatedResponse,
   PaginationParams,
@@ -31,6 +35,7 @@ import type {
   Space,
   TrackingPlan,
   TrackingPlanRule,
+  TrackingPlanRuleInput,
   TrackingResponse,
   TrackPayload,
   Transformation,
@@ -43,9 +48,18 @@ import type { TenantCredentials } from './types/env.js';
 import {
   AuthenticationError,
   MissingCredentialsError,
+  NetworkError,
   RateLimitError,
   SegmentApiError,
 } from './utils/errors.js';
+import {
+  createRetryBudget,
+  DEFAULT_RETRY_OPTIONS,
+  parseRetryAfter,
+  type RetryBudget,
+  type RetryOptions,
+  withRetry,
+} from './utils/retry.js';
 
 // =============================================================================
 // API Base URLs
@@ -54,14 +68,58 @@ import {
 const TRACKING_API_BASE_URL = 'https://api.segment.io/v1';
 const PUBLIC_API_BASE_URL = 'https://api.segmentapis.com';
 
+/** Largest page size accepted by the Public API */
+const MAX_PAGE_SIZE = 100;
+
+/** Upper bound on pages fetched by a single listAll call */
+const MAX_AUTO_PAGES = 100;
+
+/** Public API verbs that are safe to retry */
+const IDEMPOTENT_METHODS = new Set(['GET', 'DELETE']);
+
+/**
+ * Check whether a tracking payload (or every message in a batch) carries a messageId
+ */
+function hasMessageIds(body: unknown): boolean {
+  if (typeof body !== 'object' || body === null) return false;
+  const payload = body as { batch?: unknown; messageId?: unknown };
+  if (Array.isArray(payload.batch)) {
+    return (
+      payload.batch.length > 0 &&
+      payload.batch.every((message) => typeof (message as { messageId?: unknown })?.messageId === 'string')
+    );
+  }
+  return typeof payload.messageId === 'string';
+}
+
 // =============================================================================
 // Segment Client Interface
 // =============================================================================
 
+/** Fetches a single page of a paginated list */
+export type PageFetcher<T> = (params: PaginationParams) => Promise<PaginatedResponse<T>>;
+
+export interface ListAllOptions {
+  /** Page size for each request (default: 100) */
+  count?: number;
+  /** Cursor to start from */
+  cursor?: string;
+  /** Stop once this many items have been collected */
+  maxItems?: number;
+  /** Stop after this many pages (default: 100) */
+  maxPages?: number;
+}
+
 export interface SegmentClient {
   // Connection
   testConnection(): Promise<{ connected: boolean; message: string }>;
 
+  // =========================================================================
+  // Pagination
+  // =========================================================================
+  paginate<T>(fetchPage: PageFetcher<T>, params?: PaginationParams): AsyncGenerator<PaginatedResponse<T>>;
+  listAll<T>(fetchPage: PageFetcher<T>, options?: ListAllOptions): Promise<AllPagesResponse<T>>;
+
   // =========================================================================
   // Tracking API Methods
   // =========================================================================
@@ -115,14 +173,14 @@ export interface SegmentClient {
   // =========================================================================
   listSources(params?: PaginationParams): Promise<PaginatedResponse<Source>>;
   getSource(sourceId: string): Promise<Source>;
-  createSource(slug: string, name: string, catalogId: string): Promise<Source>;
-  updateSource(sourceId: string, name?: string, enabled?: boolean): Promise<Source>;
+  createSource(slug: string, name: string, catalogId: string, settings?: Record<string, unknown>, enabled?: boolean): Promise<Source>;
+  updateSource(sourceId: string, name?: string, enabled?: boolean, settings?: Record<string, unknown>): Promise<Source>;
   deleteSource(sourceId: string): Promise<void>;
   getSourceSchemaSettings(sourceId: string): Promise<Record<string, unknown>>;
   updateSourceSchemaSettings(sourceId: string, settings: Record<string, unknown>): Promise<Record<string, unknown>>;
   addLabelsToSource(sourceId: string, labels: Array<{ key: string; value: string }>): Promise<Source>;
-  listConnectedDestinationsFromSource(sourceId: string): Promise<PaginatedResponse<Destination>>;
-  listConnectedWarehousesFromSource(sourceId: string): Promise<PaginatedResponse<Warehouse>>;
+  listConnectedDestinationsFromSource(sourceId: string, params?: PaginationParams): Promise<PaginatedResponse<Destination>>;
+  listConnectedWarehousesFromSource(sourceId: string, params?: PaginationParams): Promise<PaginatedResponse<Warehouse>>;
   createWriteKeyForSource(sourceId: string): Promise<{ writeKey: string }>;
   removeWriteKeyFromSource(sourceId: string, writeKey: string): Promise<void>;
 
@@ -142,7 +200,7 @@ export interface SegmentClient {
   deleteDestination(destinationId: string): Promise<void>;
 
   // Destination Subscriptions
-  listDestinationSubscriptions(destinationId: string): Promise<PaginatedResponse<DestinationSubscription>>;
+  listDestinationSubscriptions(destinationId: string, params?: PaginationParams): Promise<PaginatedResponse<DestinationSubscription>>;
   getDestinationSubscription(destinationId: string, subscriptionId: string): Promise<DestinationSubscription>;
   createDestinationSubscription(
     destinationId: string,
@@ -163,7 +221,7 @@ export interface SegmentClient {
   deleteDestinationSubscription(destinationId: string, subscriptionId: string): Promise<void>;
 
   // Destination Filters
-  listDestinationFilters(destinationId: string): Promise<PaginatedResponse<DestinationFilter>>;
+  listDestinationFilters(destinationId: string, params?: PaginationParams): Promise<PaginatedResponse<DestinationFilter>>;
   getDestinationFilter(destinationId: string, filterId: string): Promise<DestinationFilter>;
   createDestinationFilter(
     sourceId: string,
@@ -195,7 +253,7 @@ export interface SegmentClient {
   deleteWarehouse(warehouseId: string): Promise<void>;
   addConnectionFromSourceToWarehouse(warehouseId: string, sourceId: string): Promise<void>;
   removeSourceConnectionFromWarehouse(warehouseId: string, sourceId: string): Promise<void>;
-  listConnectedSourcesFromWarehouse(warehouseId: string): Promise<PaginatedResponse<Source>>;
+  listConnectedSourcesFromWarehouse(warehouseId: string, params?: PaginationParams): Promise<PaginatedResponse<Source>>;
 
   // =========================================================================
   // Public API - Tracking Plans
@@ -205,11 +263,12 @@ export interface SegmentClient {
   createTrackingPlan(name: string, type?: string, description?: string): Promise<TrackingPlan>;
   updateTrackingPlan(trackingPlanId: string, name?: string, description?: string): Promise<TrackingPlan>;
   deleteTrackingPlan(trackingPlanId: string): Promise<void>;
-  listTrackingPlanRules(trackingPlanId: string): Promise<PaginatedResponse<TrackingPlanRule>>;
-  updateTrackingPlanRules(trackingPlanId: string, rules: TrackingPlanRule[]): Promise<void>;
+  listTrackingPlanRules(trackingPlanId: string, params?: PaginationParams): Promise<PaginatedResponse<TrackingPlanRule>>;
+  updateTrackingPlanRules(trackingPlanId: string, rules: TrackingPlanRuleInput[]): Promise<void>;
+  removeTrackingPlanRules(trackingPlanId: string, rules: Array<Pick<TrackingPlanRule, 'type' | 'key'>>): Promise<void>;
   addSourceToTrackingPlan(trackingPlanId: string, sourceId: string): Promise<void>;
   removeSourceFromTrackingPlan(trackingPlanId: string, sourceId: string): Promise<void>;
-  listSourcesFromTrackingPlan(trackingPlanId: string): Promise<PaginatedResponse<Source>>;
+  listSourcesFromTrackingPlan(trackingPlanId: string, params?: PaginationParams): Promise<PaginatedResponse<Source>>;
 
   // =========================================================================
   // Public API - Functions
@@ -232,6 +291,16 @@ export interface SegmentClient {
   ): Promise<Function>;
   deleteFunction(functionId: string): Promise<void>;
   deployFunction(functionId: string): Promise<Function>;
+  listFunctionVersions(functionId: string, params?: PaginationParams): Promise<PaginatedResponse<FunctionVersion>>;
+  getFunctionVersion(functionId: string, versionId: string): Promise<FunctionVersion>;
+  restoreFunctionVersion(functionId: string, versionId: string): Promise<FunctionVersion>;
+  createInsertFunctionInstance(
+    functionId: string,
+    integrationId: string,
+    name: string,
+    settings?: Record<string, unknown>,
+    enabled?: boolean
+  ): Promise<InsertFunctionInstance>;
 
   // =========================================================================
   // Public API - Transformations
@@ -246,7 +315,8 @@ export interface SegmentClient {
     enabled?: boolean,
     destinationMetadataId?: string,
     propertyRenames?: Array<{ oldName: string; newName: string }>,
-    fqlDefinedProperties?: Array<{ fql: string; propertyName: string }>
+    fqlDefinedProperties?: Array<{ fql: string; propertyName: string }>,
+    hashPropertiesConfiguration?: HashPropertyConfiguration
   ): Promise<Transformation>;
   updateTransformation(
     transformationId: string,
@@ -255,7 +325,8 @@ export interface SegmentClient {
     newEventName?: string,
     enabled?: boolean,
     propertyRenames?: Array<{ oldName: string; newName: string }>,
-    fqlDefinedProperties?: Array<{ fql: string; propertyName: string }>
+    fqlDefinedProperties?: Array<{ fql: string; propertyName: string }>,
+    hashPropertiesConfiguration?: HashPropertyConfiguration | null
   ): Promise<Transformation>;
   deleteTransformation(transformationId: string): Promise<void>;
 
@@ -371,9 +442,13 @@ class SegmentClientImpl implements SegmentClient {
   private credentials: TenantCredentials;
   private trackingBaseUrl: string;
   private publicApiBaseUrl: string;
+  private retryOptions: RetryOptions;
+  private retryBudget: RetryBudget;
 
-  constructor(credentials: TenantCredentials) {
+  constructor(credentials: TenantCredentials, retryOptions: RetryOptions = DEFAULT_RETRY_OPTIONS) {
     this.credentials = credentials;
+    this.retryOptions = retryOptions;
+    this.retryBudget = createRetryBudget(retryOptions);
     this.trackingBaseUrl = credentials.trackingBaseUrl || TRACKING_API_BASE_URL;
     this.publicApiBaseUrl = credentials.publicApiBaseUrl || PUBLIC_API_BASE_URL;
   }
@@ -404,17 +479,25 @@ class SegmentClientImpl implements SegmentClient {
   }
 
   private async trackingRequest<T>(endpoint: string, body: unknown): Promise<T> {
+    // Segment deduplicates on messageId, so only calls that carry one are safe to resend
+    return withRetry(() => this.sendTrackingRequest<T>(endpoint, body), {
+      idempotent: hasMessageIds(body),
+      budget: this.retryBudget,
+      options: this.retryOptions,
+    });
+  }
+
+  private async sendTrackingRequest<T>(endpoint: string, body: unknown): Promise<T> {
     const url = `${this.trackingBaseUrl}${endpoint}`;
 
-    const response = await fetch(url, {
+    const response = await this.fetchWithNetworkErrors(url, {
       method: 'POST',
       headers: this.getTrackingHeaders(),
       body: JSON.stringify(body),
     });
 
     if (response.status === 429) {
-      const retryAfter = response.headers.get('Retry-After');
-      throw new RateLimitError('Rate limit exceeded', retryAfter ? parseInt(retryAfter, 10) : 60);
+      throw new RateLimitError('Rate limit exceeded', parseRetryAfter(response.headers.get('Retry-After')));
     }
 
     if (response.status === 401 || response.status === 403) {
@@ -430,7 +513,7 @@ class SegmentClientImpl implements SegmentClient {
       } catch {
         // Use default message
       }
-      throw new SegmentApiError(message, response.status);
+      throw new SegmentApiError(message, response.status, undefined, response.status >= 500);
     }
 
     return response.json() as Promise<T>;
@@ -439,10 +522,22 @@ class SegmentClientImpl implements SegmentClient {
   private async publicApiRequest<T>(
     endpoint: string,
     options: RequestInit = {}
+  ): Promise<T> {
+    const method = (options.method || 'GET').toUpperCase();
+    return withRetry(() => this.sendPublicApiRequest<T>(endpoint, options), {
+      idempotent: IDEMPOTENT_METHODS.has(method),
+      budget: this.retryBudget,
+      options: this.retryOptions,
+    });
+  }
+
+  private async sendPublicApiRequest<T>(
+    endpoint: string,
+    options: RequestInit
   ): Promise<T> {
     const url = `${this.publicApiBaseUrl}${endpoint}`;
 
-    const response = await fetch(url, {
+    const response = await this.fetchWithNetworkErrors(url, {
       ...options,
       headers: {
         ...this.getPublicApiHeaders(),
@@ -451,8 +546,7 @@ class SegmentClientImpl implements SegmentClient {
     });
 
     if (response.status === 429) {
-      const retryAfter = response.headers.get('Retry-After');
-      throw new RateLimitError('Rate limit exceeded', retryAfter ? parseInt(retryAfter, 10) : 60);
+      throw new RateLimitError('Rate limit exceeded', parseRetryAfter(response.headers.get('Retry-After')));
     }
 
     if (response.status === 401 || response.status === 403) {
@@ -468,7 +562,7 @@ class SegmentClientImpl implements SegmentClient {
       } catch {
         // Use default message
       }
-      throw new SegmentApiError(message, response.status);
+      throw new SegmentApiError(message, response.status, undefined, response.status >= 500);
     }
 
     if (response.status === 204) {
@@ -478,6 +572,14 @@ class SegmentClientImpl implements SegmentClient {
     return response.json() as Promise<T>;
   }
 
+  private async fetchWithNetworkErrors(url: string, init: RequestInit): Promise<Response> {
+    try {
+      return await fetch(url, init);
+    } catch (error) {
+      throw new NetworkError(`Network error: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
   private buildQueryString(params?: Record<string, unknown>): string {
     if (!params) return '';
     const queryParams = new URLSearchParams();
@@ -518,6 +620,57 @@ class SegmentClientImpl implements SegmentClient {
     }
   }
 
+  // ===========================================================================
+  // Pagination
+  // ===========================================================================
+
+  async *paginate<T>(fetchPage: PageFetcher<T>, params: PaginationParams = {}): AsyncGenerator<PaginatedResponse<T>> {
+    const seen = new Set<string>();
+    let cursor = params.cursor;
+
+    do {
+      const page = await fetchPage({ ...params, cursor });
+      yield page;
+
+      cursor = page.pagination?.next;
+      // Guard against an API that hands back a cursor we've already followed
+      if (cursor && seen.has(cursor)) break;
+      if (cursor) seen.add(cursor);
+    } while (cursor);
+  }
+
+  async listAll<T>(fetchPage: PageFetcher<T>, options: ListAllOptions = {}): Promise<AllPagesResponse<T>> {
+    const { count = MAX_PAGE_SIZE, cursor, maxItems, maxPages = MAX_AUTO_PAGES } = options;
+    const data: T[] = [];
+    let pagesFetched = 0;
+    let next: string | undefined;
+    let totalEntries: number | undefined;
+
+    // Shrink the last request so we never fetch past maxItems and the returned cursor resumes exactly there
+    const boundedFetch: PageFetcher<T> = (params) =>
+      fetchPage({
+        ...params,
+        count: maxItems === undefined ? count : Math.min(count, maxItems - data.length),
+      });
+
+    for await (const page of this.paginate(boundedFetch, { cursor })) {
+      pagesFetched++;
+      data.push(...page.data);
+      next = page.pagination?.next;
+      totalEntries = page.pagination?.totalEntries ?? totalEntries;
+
+      if ((maxItems !== undefined && data.length >= maxItems) || pagesFetched >= maxPages) {
+        break;
+      }
+    }
+
+    return {
+      data,
+      pagination: { next, totalEntries },
+      pagesFetched,
+    };
+  }
+
   // ===========================================================================
   // Tracking API Methods
   // ===========================================================================
@@ -646,18 +799,24 @@ class SegmentClientImpl implements SegmentClient {
     return response.data.source;
   }
 
-  async createSource(slug: string, name: string, catalogId: string): Promise<Source> {
+  async createSource(
+    slug: string,
+    name: string,
+    catalogId: string,
+    settings?: Record<string, unknown>,
+    enabled?: boolean
+  ): Promise<Source> {
     const response = await this.publicApiRequest<{ data: { source: Source } }>('/sources', {
       method: 'POST',
-      body: JSON.stringify({ slug, name, metadataId: catalogId }),
+      body: JSON.stringify({ slug, name, metadataId: catalogId, settings, enabled }),
     });
     return response.data.source;
   }
 
-  async updateSource(sourceId: string, name?: string, enabled?: boolean): Promise<Source> {
+  async updateSource(sourceId: string, name?: string, enabled?: boolean, settings?: Record<string, unknown>): Promise<Source> {
     const response = await this.publicApiRequest<{ data: { source: Source } }>(`/sources/${sourceId}`, {
       method: 'PATCH',
-      body: JSON.stringify({ name, enabled }),
+      body: JSON.stringify({ name, enabled, settings }),
     });
     return response.data.source;
   }
@@ -695,12 +854,14 @@ class SegmentClientImpl implements SegmentClient {
     return response.data.source;
   }
 
-  async listConnectedDestinationsFromSource(sourceId: string): Promise<PaginatedResponse<Destination>> {
-    return this.publicApiRequest(`/sources/${sourceId}/connected-destinations`);
+  async listConnectedDestinationsFromSource(sourceId: string, params?: PaginationParams): Promise<PaginatedResponse<Destination>> {
+    const qs = this.buildQueryString(params);
+    return this.publicApiRequest(`/sources/${sourceId}/connected-destinations${qs}`);
   }
 
-  async listConnectedWarehousesFromSource(sourceId: string): Promise<PaginatedResponse<Warehouse>> {
-    return this.publicApiRequest(`/sources/${sourceId}/connected-warehouses`);
+  async listConnectedWarehousesFromSource(sourceId: string, params?: PaginationParams): Promise<PaginatedResponse<Warehouse>> {
+    const qs = this.buildQueryString(params);
+    return this.publicApiRequest(`/sources/${sourceId}/connected-warehouses${qs}`);
   }
 
   async createWriteKeyForSource(sourceId: string): Promise<{ writeKey: string }> {
@@ -761,8 +922,9 @@ class SegmentClientImpl implements SegmentClient {
   }
 
   // Destination Subscriptions
-  async listDestinationSubscriptions(destinationId: string): Promise<PaginatedResponse<DestinationSubscription>> {
-    return this.publicApiRequest(`/destinations/${destinationId}/subscriptions`);
+  async listDestinationSubscriptions(destinationId: string, params?: PaginationParams): Promise<PaginatedResponse<DestinationSubscription>> {
+    const qs = this.buildQueryString(params);
+    return this.publicApiRequest(`/destinations/${destinationId}/subscriptions${qs}`);
   }
 
   async getDestinationSubscription(destinationId: string, subscriptionId: string): Promise<DestinationSubscription> {
@@ -813,8 +975,9 @@ class SegmentClientImpl implements SegmentClient {
   }
 
   // Destination Filters
-  async listDestinationFilters(destinationId: string): Promise<PaginatedResponse<DestinationFilter>> {
-    return this.publicApiRequest(`/destinations/${destinationId}/filters`);
+  async listDestinationFilters(destinationId: string, params?: PaginationParams): Promise<PaginatedResponse<DestinationFilter>> {
+    const qs = this.buildQueryString(params);
+    return this.publicApiRequest(`/destinations/${destinationId}/filters${qs}`);
   }
 
   async getDestinationFilter(destinationId: string, filterId: string): Promise<DestinationFilter> {
@@ -928,8 +1091,9 @@ class SegmentClientImpl implements SegmentClient {
     await this.publicApiRequest(`/warehouses/${warehouseId}/connected-sources/${sourceId}`, { method: 'DELETE' });
   }
 
-  async listConnectedSourcesFromWarehouse(warehouseId: string): Promise<PaginatedResponse<Source>> {
-    return this.publicApiRequest(`/warehouses/${warehouseId}/connected-sources`);
+  async listConnectedSourcesFromWarehouse(warehouseId: string, params?: PaginationParams): Promise<PaginatedResponse<Source>> {
+    const qs = this.buildQueryString(params);
+    return this.publicApiRequest(`/warehouses/${warehouseId}/connected-sources${qs}`);
   }
 
   // ===========================================================================
@@ -966,17 +1130,25 @@ class SegmentClientImpl implements SegmentClient {
     await this.publicApiRequest(`/tracking-plans/${trackingPlanId}`, { method: 'DELETE' });
   }
 
-  async listTrackingPlanRules(trackingPlanId: string): Promise<PaginatedResponse<TrackingPlanRule>> {
-    return this.publicApiRequest(`/tracking-plans/${trackingPlanId}/rules`);
+  async listTrackingPlanRules(trackingPlanId: string, params?: PaginationParams): Promise<PaginatedResponse<TrackingPlanRule>> {
+    const qs = this.buildQueryString(params);
+    return this.publicApiRequest(`/tracking-plans/${trackingPlanId}/rules${qs}`);
   }
 
-  async updateTrackingPlanRules(trackingPlanId: string, rules: TrackingPlanRule[]): Promise<void> {
+  async updateTrackingPlanRules(trackingPlanId: string, rules: TrackingPlanRuleInput[]): Promise<void> {
     await this.publicApiRequest(`/tracking-plans/${trackingPlanId}/rules`, {
       method: 'PATCH',
       body: JSON.stringify({ rules }),
     });
   }
 
+  async removeTrackingPlanRules(trackingPlanId: string, rules: Array<Pick<TrackingPlanRule, 'type' | 'key'>>): Promise<void> {
+    await this.publicApiRequest(`/tracking-plans/${trackingPlanId}/rules`, {
+      method: 'DELETE',
+      body: JSON.stringify({ rules: rules.map(({ type, key }) => ({ type, key })) }),
+    });
+  }
+
   async addSourceToTrackingPlan(trackingPlanId: string, sourceId: string): Promise<void> {
     await this.publicApiRequest(`/tracking-plans/${trackingPlanId}/sources`, {
       method: 'POST',
@@ -988,8 +1160,9 @@ class SegmentClientImpl implements SegmentClient {
     await this.publicApiRequest(`/tracking-plans/${trackingPlanId}/sources/${sourceId}`, { method: 'DELETE' });
   }
 
-  async listSourcesFromTrackingPlan(trackingPlanId: string): Promise<PaginatedResponse<Source>> {
-    return this.publicApiRequest(`/tracking-plans/${trackingPlanId}/sources`);
+  async listSourcesFromTrackingPlan(trackingPlanId: string, params?: PaginationParams): Promise<PaginatedResponse<Source>> {
+    const qs = this.buildQueryString(params);
+    return this.publicApiRequest(`/tracking-plans/${trackingPlanId}/sources${qs}`);
   }
 
   // ===========================================================================
@@ -1045,6 +1218,43 @@ class SegmentClientImpl implements SegmentClient {
     return response.data.function;
   }
 
+  async listFunctionVersions(functionId: string, params?: PaginationParams): Promise<PaginatedResponse<FunctionVersion>> {
+    const qs = this.buildQueryString(params);
+    return this.publicApiRequest(`/functions/${functionId}/versions${qs}`);
+  }
+
+  async getFunctionVersion(functionId: string, versionId: string): Promise<FunctionVersion> {
+    const response = await this.publicApiRequest<{ data: { version: FunctionVersion } }>(
+      `/functions/${functionId}/versions/${versionId}`
+    );
+    return response.data.version;
+  }
+
+  async restoreFunctionVersion(functionId: string, versionId: string): Promise<FunctionVersion> {
+    const response = await this.publicApiRequest<{ data: { version: FunctionVersion } }>(`/functions/${functionId}/versions`, {
+      method: 'POST',
+      body: JSON.stringify({ versionId }),
+    });
+    return response.data.version;
+  }
+
+  async createInsertFunctionInstance(
+    functionId: string,
+    integrationId: string,
+    name: string,
+    settings?: Record<string, unknown>,
+    enabled = true
+  ): Promise<InsertFunctionInstance> {
+    const response = await this.publicApiRequest<{ data: { insertFunctionInstance: InsertFunctionInstance } }>(
+      '/insert-function-instances',
+      {
+        method: 'POST',
+        body: JSON.stringify({ functionId, integrationId, name, settings, enabled }),
+      }
+    );
+    return response.data.insertFunctionInstance;
+  }
+
   // ===========================================================================
   // Public API - Transformations
   // ===========================================================================
@@ -1067,7 +1277,8 @@ class SegmentClientImpl implements SegmentClient {
     enabled = true,
     destinationMetadataId?: string,
     propertyRenames?: Array<{ oldName: string; newName: string }>,
-    fqlDefinedProperties?: Array<{ fql: string; propertyName: string }>
+    fqlDefinedProperties?: Array<{ fql: string; propertyName: string }>,
+    hashPropertiesConfiguration?: HashPropertyConfiguration
   ): Promise<Transformation> {
     const response = await this.publicApiRequest<{ data: { transformation: Transformation } }>('/transformations', {
       method: 'POST',
@@ -1080,6 +1291,7 @@ class SegmentClientImpl implements SegmentClient {
         destinationMetadataId,
         propertyRenames,
         fqlDefinedProperties,
+        hashPropertiesConfiguration,
       }),
     });
     return response.data.transformation;
@@ -1092,7 +1304,8 @@ class SegmentClientImpl implements SegmentClient {
     newEventName?: string,
     enabled?: boolean,
     propertyRenames?: Array<{ oldName: string; newName: string }>,
-    fqlDefinedProperties?: Array<{ fql: string; propertyName: string }>
+    fqlDefinedProperties?: Array<{ fql: string; propertyName: string }>,
+    hashPropertiesConfiguration?: HashPropertyConfiguration | null
   ): Promise<Transformation> {
     const body: Record<string, unknown> = {};
     if (name !== undefined) body.name = name;
@@ -1101,6 +1314,8 @@ class SegmentClientImpl implements SegmentClient {
     if (enabled !== undefined) body.enabled = enabled;
     if (propertyRenames !== undefined) body.propertyRenames = propertyRenames;
     if (fqlDefinedProperties !== undefined) body.fqlDefinedProperties = fqlDefinedProperties;
+    // null removes hashing, undefined leaves it unchanged
+    if (hashPropertiesConfiguration !== undefined) body.hashPropertiesConfiguration = hashPropertiesConfiguration;
 
     const response = await this.publicApiRequest<{ data: { transformation: Transformation } }>(`/transformations/${transformationId}`, {
       method: 'PATCH',
@@ -1484,8 +1699,28 @@ class SegmentClientImpl implements SegmentClient {
 /**
  * Create a Segment client instance with tenant-specific credentials.
  *
+ * The client owns a single retry budget, so create one client per tool call
+ * (the stateless server does this per request).
+ *
  * @param credentials - Tenant credentials parsed from request headers
+ * @param retryOptions - Backoff configuration for retryable failures
  */
-export function createSegmentClient(credentials: TenantCredentials): SegmentClient {
-  return new SegmentClientImpl(credentials);
+export function createSegmentClient(
+  credentials: TenantCredentials,
+  retryOptions: RetryOptions = DEFAULT_RETRY_OPTIONS
+): SegmentClient {
+  return new SegmentClientImpl(credentials, retryOptions);
+}
+
+/**
+ * Check that a URL points at a Segment Public API host (e.g. api.segmentapis.com
+ * or eu1.api.segmentapis.com) over HTTPS, so tokens are never sent elsewhere
+ */
+export function isSegmentApiUrl(url: string): boolean {
+  try {
+    const { protocol, hostname } = new URL(url);
+    return protocol === 'https:' && (hostname === 'api.segmentapis.com' || hostname.endsWith('.api.segmentapis.com'));
+  } catch {
+    return false;
+  }
 }
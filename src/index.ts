@@ -30,13 +30,17 @@ import {
   registerTrackingTools,
   registerTransformationsTools,
   registerWarehousesTools,
+  registerWorkspaceConfigTools,
 } from './tools/index.js';
 import {
   type Env,
   type TenantCredentials,
+  type ToolConfig,
+  getToolConfig,
   parseTenantCredentials,
   validateCredentials,
 } from './types/env.js';
+import { createRuleHistory } from './utils/rule-history.js';
 
 // =============================================================================
 // MCP Server Configuration
@@ -72,9 +76,10 @@ export class SegmentMcpAgent extends McpAgent<Env> {
 // =============================================================================
 
 /**
- * Creates a stateless MCP server instance with tenant-specific credentials.
+ * Creates a stateless MCP server instance with tenant-specific credentials
+ * and deployment-wide tool configuration.
  */
-function createStatelessServer(credentials: TenantCredentials): McpServer {
+function createStatelessServer(credentials: TenantCredentials, config: ToolConfig, env: Env): McpServer {
   const server = new McpServer({
     name: SERVER_NAME,
     version: SERVER_VERSION,
@@ -82,19 +87,21 @@ function createStatelessServer(credentials: TenantCredentials): McpServer {
 
   // Create client with tenant-specific credentials
   const client = createSegmentClient(credentials);
+  const ruleHistory = createRuleHistory(env.RULE_HISTORY_KV, client, credentials);
 
   // Register all tools
   registerTrackingTools(server, client);
-  registerSourcesTools(server, client);
-  registerDestinationsTools(server, client);
-  registerWarehousesTools(server, client);
-  registerTrackingPlansTools(server, client);
-  registerFunctionsTools(server, client);
-  registerTransformationsTools(server, client);
-  registerEngageTools(server, client);
-  registerAdminTools(server, client);
-  registerCatalogTools(server, client);
-  registerReverseETLTools(server, client);
+  registerSourcesTools(server, client, config);
+  registerDestinationsTools(server, client, config);
+  registerWarehousesTools(server, client, config);
+  registerTrackingPlansTools(server, client, config, ruleHistory);
+  registerFunctionsTools(server, client, config, env.LOADER);
+  registerTransformationsTools(server, client, config);
+  registerEngageTools(server, client, config);
+  registerAdminTools(server, client, config);
+  registerCatalogTools(server, client, config);
+  registerReverseETLTools(server, client, config);
+  registerWorkspaceConfigTools(server, client, config, credentials, ruleHistory);
 
   // Test connection tool
   server.tool(
@@ -162,7 +169,7 @@ export default {
       }
 
       // Create server with tenant-specific credentials
-      const server = createStatelessServer(credentials);
+      const server = createStatelessServer(credentials, getToolConfig(env), env);
 
       // Import and use createMcpHandler for streamable HTTP
       const { createMcpHandler } = await import('agents/mcp');
@@ -197,6 +204,10 @@ export default {
             header: 'X-Segment-Access-Token',
             description: 'Bearer token for Public API (sources, destinations, etc.)',
           },
+          compare_workspace: {
+            header: 'X-Segment-Compare-Access-Token',
+            description: 'Optional Public API token of a second workspace for segment_diff_workspaces',
+          },
         },
         tools: {
           tracking: [
@@ -221,6 +232,8 @@ export default {
             'segment_create_destination',
             'segment_update_destination',
             'segment_delete_destination',
+            'segment_evaluate_fql',
+            'segment_simulate_destination_filters',
           ],
           warehouses: [
             'segment_list_warehouses',
@@ -233,12 +246,38 @@ export default {
             'segment_list_tracking_plans',
             'segment_get_tracking_plan',
             'segment_create_tracking_plan',
+            'segment_import_tracking_plan',
+            'segment_infer_tracking_plan',
+            'segment_lint_tracking_plan',
+            'segment_check_tracking_plan_compatibility',
+            'segment_list_tracking_plan_rule_history',
+            'segment_diff_tracking_plan_rule_versions',
+            'segment_rollback_tracking_plan_rules',
+            'segment_promote_tracking_plan_rules',
+            'segment_generate_tracking_types',
           ],
           functions: [
             'segment_list_functions',
             'segment_get_function',
             'segment_create_function',
             'segment_deploy_function',
+            'segment_list_function_versions',
+            'segment_get_function_version',
+            'segment_diff_function_versions',
+            'segment_restore_function_version',
+            'segment_set_function_setting',
+            'segment_remove_function_setting',
+            'segment_create_function_instance',
+            'segment_test_function',
+            'segment_check_function_code',
+          ],
+          transformations: [
+            'segment_list_transformations',
+            'segment_get_transformation',
+            'segment_create_transformation',
+            'segment_update_transformation',
+            'segment_delete_transformation',
+            'segment_preview_transformation',
           ],
           engage: [
             'segment_list_audiences',
@@ -251,6 +290,12 @@ export default {
             'segment_list_audit_events',
             'segment_get_workspace',
           ],
+          workspace_config: [
+            'segment_export_workspace_config',
+            'segment_plan_workspace_config',
+            'segment_apply_workspace_config',
+            'segment_diff_workspaces',
+          ],
         },
       }),
       {
@@ -7,12 +7,15 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { SegmentClient } from '../client.js';
+import type { ToolConfig } from '../types/env.js';
+import { formatDryRun, planChange, planCreate, planDelete, planUpdate } from '../utils/dry-run.js';
+import { NotFoundError } from '../utils/errors.js';
 import { formatError, formatResponse } from '../utils/formatters.js';
 
 /**
  * Register all Admin tools
  */
-export function registerAdminTools(server: McpServer, client: SegmentClient): void {
+export function registerAdminTools(server: McpServer, client: SegmentClient, config: ToolConfig): void {
   // ===========================================================================
   // Users
   // ===========================================================================
@@ -21,21 +24,28 @@ export function registerAdminTools(server: McpServer, client: SegmentClient): vo
     `List all users in the workspace.
 
 Args:
-  - count: Number of users to return (default: 20)
+  - count: Number of users to return (default: ${config.defaultPageSize}, max: ${config.maxPageSize})
   - cursor: Pagination cursor
+  - all: Fetch every page by following pagination cursors (default: false)
+  - maxItems: Stop after collecting this many items across pages
   - format: Response format ('json' or 'markdown')
 
 Returns:
   Paginated list of users.`,
     {
-      count: z.number().int().min(1).max(100).default(20),
+      count: z.number().int().min(1).max(config.maxPageSize).default(config.defaultPageSize),
       cursor: z.string().optional(),
+      all: z.boolean().default(false).describe('Fetch every page by following pagination cursors'),
+      maxItems: z.number().int().min(1).optional().describe('Stop after collecting this many items across pages'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ count, cursor, format }) => {
+    async ({ count, cursor, all, maxItems, format }) => {
       try {
-        const result = await client.listUsers({ count, cursor });
-        return formatResponse(result, format, 'users');
+        const result =
+          all || maxItems
+            ? await client.listAll((page) => client.listUsers(page), { count, cursor, maxItems })
+            : await client.listUsers({ count, cursor });
+        return formatResponse(result, format, 'users', config.characterLimit);
       } catch (error) {
         return formatError(error);
       }
@@ -79,14 +89,21 @@ WARNING: This action is irreversible.
 
 Args:
   - userIds: Array of user IDs to delete (required)
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
 
 Returns:
   Confirmation of deletion.`,
     {
       userIds: z.array(z.string()).describe('User IDs to delete'),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ userIds }) => {
+    async ({ userIds, dryRun }) => {
       try {
+        if (dryRun) {
+          const users = await Promise.all(userIds.map((userId) => client.getUser(userId)));
+          return formatDryRun(planChange('delete', 'users', undefined, { users }, { users: [] }));
+        }
+
         await client.deleteUsers(userIds);
         return {
           content: [
@@ -110,21 +127,28 @@ Returns:
     `List all user groups in the workspace.
 
 Args:
-  - count: Number of groups to return (default: 20)
+  - count: Number of groups to return (default: ${config.defaultPageSize}, max: ${config.maxPageSize})
   - cursor: Pagination cursor
+  - all: Fetch every page by following pagination cursors (default: false)
+  - maxItems: Stop after collecting this many items across pages
   - format: Response format ('json' or 'markdown')
 
 Returns:
   Paginated list of user groups.`,
     {
-      count: z.number().int().min(1).max(100).default(20),
+      count: z.number().int().min(1).max(config.maxPageSize).default(config.defaultPageSize),
       cursor: z.string().optional(),
+      all: z.boolean().default(false).describe('Fetch every page by following pagination cursors'),
+      maxItems: z.number().int().min(1).optional().describe('Stop after collecting this many items across pages'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ count, cursor, format }) => {
+    async ({ count, cursor, all, maxItems, format }) => {
       try {
-        const result = await client.listUserGroups({ count, cursor });
-        return formatResponse(result, format, 'user-groups');
+        const result =
+          all || maxItems
+            ? await client.listAll((page) => client.listUserGroups(page), { count, cursor, maxItems })
+            : await client.listUserGroups({ count, cursor });
+        return formatResponse(result, format, 'user-groups', config.characterLimit);
       } catch (error) {
         return formatError(error);
       }
@@ -166,14 +190,20 @@ Returns:
 
 Args:
   - name: Group name (required)
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
 
 Returns:
   The created user group.`,
     {
       name: z.string().describe('Group name'),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ name }) => {
+    async ({ name, dryRun }) => {
       try {
+        if (dryRun) {
+          return formatDryRun(planCreate('user group', { name }));
+        }
+
         const group = await client.createUserGroup(name);
         return {
           content: [
@@ -196,15 +226,22 @@ Returns:
 Args:
   - groupId: The group ID (required)
   - name: New group name (required)
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
 
 Returns:
   The updated user group.`,
     {
       groupId: z.string().describe('Group ID'),
       name: z.string().describe('New group name'),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ groupId, name }) => {
+    async ({ groupId, name, dryRun }) => {
       try {
+        if (dryRun) {
+          const before = await client.getUserGroup(groupId);
+          return formatDryRun(planUpdate('user group', groupId, before, { name }));
+        }
+
         const group = await client.updateUserGroup(groupId, name);
         return {
           content: [
@@ -228,14 +265,21 @@ WARNING: This action is irreversible.
 
 Args:
   - groupId: The group ID (required)
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
 
 Returns:
   Confirmation of deletion.`,
     {
       groupId: z.string().describe('Group ID'),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ groupId }) => {
+    async ({ groupId, dryRun }) => {
       try {
+        if (dryRun) {
+          const before = await client.getUserGroup(groupId);
+          return formatDryRun(planDelete('user group', groupId, before));
+        }
+
         await client.deleteUserGroup(groupId);
         return {
           content: [
@@ -258,15 +302,23 @@ Returns:
 Args:
   - groupId: The group ID (required)
   - emails: Array of user emails to add (required)
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
 
 Returns:
   Confirmation of addition.`,
     {
       groupId: z.string().describe('Group ID'),
       emails: z.array(z.string().email()).describe('User emails to add'),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ groupId, emails }) => {
+    async ({ groupId, emails, dryRun }) => {
       try {
+        if (dryRun) {
+          // The API does not list group members, so show the pending additions against the group
+          const before = await client.getUserGroup(groupId);
+          return formatDryRun(planUpdate('user group', groupId, before, { usersToAdd: emails }));
+        }
+
         await client.addUsersToUserGroup(groupId, emails);
         return {
           content: [
@@ -289,15 +341,23 @@ Returns:
 Args:
   - groupId: The group ID (required)
   - emails: Array of user emails to remove (required)
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
 
 Returns:
   Confirmation of removal.`,
     {
       groupId: z.string().describe('Group ID'),
       emails: z.array(z.string().email()).describe('User emails to remove'),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ groupId, emails }) => {
+    async ({ groupId, emails, dryRun }) => {
       try {
+        if (dryRun) {
+          // The API does not list group members, so show the pending removals against the group
+          const before = await client.getUserGroup(groupId);
+          return formatDryRun(planUpdate('user group', groupId, before, { usersToRemove: emails }));
+        }
+
         await client.removeUsersFromUserGroup(groupId, emails);
         return {
           content: [
@@ -321,21 +381,28 @@ Returns:
     `List all pending invites.
 
 Args:
-  - count: Number of invites to return (default: 20)
+  - count: Number of invites to return (default: ${config.defaultPageSize}, max: ${config.maxPageSize})
   - cursor: Pagination cursor
+  - all: Fetch every page by following pagination cursors (default: false)
+  - maxItems: Stop after collecting this many items across pages
   - format: Response format ('json' or 'markdown')
 
 Returns:
   Paginated list of invites.`,
     {
-      count: z.number().int().min(1).max(100).default(20),
+      count: z.number().int().min(1).max(config.maxPageSize).default(config.defaultPageSize),
       cursor: z.string().optional(),
+      all: z.boolean().default(false).describe('Fetch every page by following pagination cursors'),
+      maxItems: z.number().int().min(1).optional().describe('Stop after collecting this many items across pages'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ count, cursor, format }) => {
+    async ({ count, cursor, all, maxItems, format }) => {
       try {
-        const result = await client.listInvites({ count, cursor });
-        return formatResponse(result, format, 'invites');
+        const result =
+          all || maxItems
+            ? await client.listAll((page) => client.listInvites(page), { count, cursor, maxItems })
+            : await client.listInvites({ count, cursor });
+        return formatResponse(result, format, 'invites', config.characterLimit);
       } catch (error) {
         return formatError(error);
       }
@@ -348,14 +415,26 @@ Returns:
 
 Args:
   - emails: Array of email addresses to invite (required)
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
 
 Returns:
   Confirmation of invites sent.`,
     {
       emails: z.array(z.string().email()).describe('Email addresses to invite'),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ emails }) => {
+    async ({ emails, dryRun }) => {
       try {
+        if (dryRun) {
+          const invites = await client.listAll((page) => client.listInvites(page));
+          const current = invites.data.map((invite) => invite.email);
+          return formatDryRun(
+            planChange('create', 'invites', undefined, { emails: current }, {
+              emails: [...current, ...emails.filter((email) => !current.includes(email))],
+            })
+          );
+        }
+
         await client.createInvites(emails);
         return {
           content: [
@@ -377,14 +456,26 @@ Returns:
 
 Args:
   - emails: Array of email addresses to cancel (required)
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
 
 Returns:
   Confirmation of invites cancelled.`,
     {
       emails: z.array(z.string().email()).describe('Email addresses to cancel'),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ emails }) => {
+    async ({ emails, dryRun }) => {
       try {
+        if (dryRun) {
+          const invites = await client.listAll((page) => client.listInvites(page));
+          const current = invites.data.map((invite) => invite.email);
+          return formatDryRun(
+            planChange('delete', 'invites', undefined, { emails: current }, {
+              emails: current.filter((email) => !emails.includes(email)),
+            })
+          );
+        }
+
         await client.deleteInvites(emails);
         return {
           content: [
@@ -410,21 +501,28 @@ Returns:
 Labels are used to organize and filter resources.
 
 Args:
-  - count: Number of labels to return (default: 20)
+  - count: Number of labels to return (default: ${config.defaultPageSize}, max: ${config.maxPageSize})
   - cursor: Pagination cursor
+  - all: Fetch every page by following pagination cursors (default: false)
+  - maxItems: Stop after collecting this many items across pages
   - format: Response format ('json' or 'markdown')
 
 Returns:
   Paginated list of labels.`,
     {
-      count: z.number().int().min(1).max(100).default(20),
+      count: z.number().int().min(1).max(config.maxPageSize).default(config.defaultPageSize),
       cursor: z.string().optional(),
+      all: z.boolean().default(false).describe('Fetch every page by following pagination cursors'),
+      maxItems: z.number().int().min(1).optional().describe('Stop after collecting this many items across pages'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ count, cursor, format }) => {
+    async ({ count, cursor, all, maxItems, format }) => {
       try {
-        const result = await client.listLabels({ count, cursor });
-        return formatResponse(result, format, 'labels');
+        const result =
+          all || maxItems
+            ? await client.listAll((page) => client.listLabels(page), { count, cursor, maxItems })
+            : await client.listLabels({ count, cursor });
+        return formatResponse(result, format, 'labels', config.characterLimit);
       } catch (error) {
         return formatError(error);
       }
@@ -439,6 +537,7 @@ Args:
   - key: Label key (required)
   - value: Label value (required)
   - description: Label description
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
 
 Returns:
   The created label.`,
@@ -446,9 +545,20 @@ Returns:
       key: z.string().describe('Label key'),
       value: z.string().describe('Label value'),
       description: z.string().optional().describe('Label description'),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ key, value, description }) => {
+    async ({ key, value, description, dryRun }) => {
       try {
+        if (dryRun) {
+          const labels = await client.listAll((page) => client.listLabels(page));
+          const existing = labels.data.find((label) => label.key === key && label.value === value);
+          return formatDryRun(
+            existing
+              ? planUpdate('label', `${key}:${value}`, existing, { description })
+              : planCreate('label', { key, value, description })
+          );
+        }
+
         const label = await client.createLabel(key, value, description);
         return {
           content: [
@@ -473,15 +583,26 @@ WARNING: This action is irreversible.
 Args:
   - key: Label key (required)
   - value: Label value (required)
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
 
 Returns:
   Confirmation of deletion.`,
     {
       key: z.string().describe('Label key'),
       value: z.string().describe('Label value'),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ key, value }) => {
+    async ({ key, value, dryRun }) => {
       try {
+        if (dryRun) {
+          const labels = await client.listAll((page) => client.listLabels(page));
+          const existing = labels.data.find((label) => label.key === key && label.value === value);
+          if (!existing) {
+            throw new NotFoundError('Label', `${key}:${value}`);
+          }
+          return formatDryRun(planDelete('label', `${key}:${value}`, existing));
+        }
+
         await client.deleteLabel(key, value);
         return {
           content: [
@@ -506,22 +627,29 @@ Returns:
 
 Args:
   - sourceId: The source ID (required)
-  - count: Number to return (default: 20)
+  - count: Number to return (default: ${config.defaultPageSize}, max: ${config.maxPageSize})
   - cursor: Pagination cursor
+  - all: Fetch every page by following pagination cursors (default: false)
+  - maxItems: Stop after collecting this many items across pages
   - format: Response format ('json' or 'markdown')
 
 Returns:
   Paginated list of regulations.`,
     {
       sourceId: z.string().describe('Source ID'),
-      count: z.number().int().min(1).max(100).default(20),
+      count: z.number().int().min(1).max(config.maxPageSize).default(config.defaultPageSize),
       cursor: z.string().optional(),
+      all: z.boolean().default(false).describe('Fetch every page by following pagination cursors'),
+      maxItems: z.number().int().min(1).optional().describe('Stop after collecting this many items across pages'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ sourceId, count, cursor, format }) => {
+    async ({ sourceId, count, cursor, all, maxItems, format }) => {
       try {
-        const result = await client.listRegulationsFromSource(sourceId, { count, cursor });
-        return formatResponse(result, format, 'regulations');
+        const result =
+          all || maxItems
+            ? await client.listAll((page) => client.listRegulationsFromSource(sourceId, page), { count, cursor, maxItems })
+            : await client.listRegulationsFromSource(sourceId, { count, cursor });
+        return formatResponse(result, format, 'regulations', config.characterLimit);
       } catch (error) {
         return formatError(error);
       }
@@ -539,6 +667,7 @@ Args:
   - regulationType: Type of regulation (DELETE, SUPPRESS, etc.)
   - subjectType: Type of subject (USER_ID, etc.)
   - subjectIds: Array of subject IDs to regulate
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
 
 Returns:
   The created regulation.`,
@@ -547,9 +676,14 @@ Returns:
       regulationType: z.string().describe('Regulation type (DELETE, SUPPRESS, etc.)'),
       subjectType: z.string().describe('Subject type (USER_ID, etc.)'),
       subjectIds: z.array(z.string()).describe('Subject IDs to regulate'),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ sourceId, regulationType, subjectType, subjectIds }) => {
+    async ({ sourceId, regulationType, subjectType, subjectIds, dryRun }) => {
       try {
+        if (dryRun) {
+          return formatDryRun(planCreate('regulation', { sourceId, regulationType, subjectType, subjectIds }));
+        }
+
         const regulation = await client.createSourceRegulation(sourceId, regulationType, subjectType, subjectIds);
         return {
           content: [
@@ -600,14 +734,21 @@ Returns:
 
 Args:
   - regulationId: The regulation ID (required)
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
 
 Returns:
   Confirmation of deletion.`,
     {
       regulationId: z.string().describe('Regulation ID'),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ regulationId }) => {
+    async ({ regulationId, dryRun }) => {
       try {
+        if (dryRun) {
+          const before = await client.getRegulation(regulationId);
+          return formatDryRun(planDelete('regulation', regulationId, before));
+        }
+
         await client.deleteRegulation(regulationId);
         return {
           content: [
@@ -633,8 +774,10 @@ Returns:
 Audit events track changes made to workspace resources.
 
 Args:
-  - count: Number to return (default: 20)
+  - count: Number to return (default: ${config.defaultPageSize}, max: ${config.maxPageSize})
   - cursor: Pagination cursor
+  - all: Fetch every page by following pagination cursors (default: false)
+  - maxItems: Stop after collecting this many items across pages
   - resourceId: Filter by resource ID
   - resourceType: Filter by resource type
   - format: Response format ('json' or 'markdown')
@@ -642,16 +785,21 @@ Args:
 Returns:
   Paginated list of audit events.`,
     {
-      count: z.number().int().min(1).max(100).default(20),
+      count: z.number().int().min(1).max(config.maxPageSize).default(config.defaultPageSize),
       cursor: z.string().optional(),
+      all: z.boolean().default(false).describe('Fetch every page by following pagination cursors'),
+      maxItems: z.number().int().min(1).optional().describe('Stop after collecting this many items across pages'),
       resourceId: z.string().optional(),
       resourceType: z.string().optional(),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ count, cursor, resourceId, resourceType, format }) => {
+    async ({ count, cursor, all, maxItems, resourceId, resourceType, format }) => {
       try {
-        const result = await client.listAuditEvents({ count, cursor, resourceId, resourceType });
-        return formatResponse(result, format, 'audit-events');
+        const result =
+          all || maxItems
+            ? await client.listAll((page) => client.listAuditEvents({ ...page, resourceId, resourceType }), { count, cursor, maxItems })
+            : await client.listAuditEvents({ count, cursor, resourceId, resourceType });
+        return formatResponse(result, format, 'audit-events', config.characterLimit);
       } catch (error) {
         return formatError(error);
       }
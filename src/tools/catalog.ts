@@ -7,12 +7,13 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { SegmentClient } from '../client.js';
+import type { ToolConfig } from '../types/env.js';
 import { formatError, formatResponse } from '../utils/formatters.js';
 
 /**
  * Register all Catalog tools
  */
-export function registerCatalogTools(server: McpServer, client: SegmentClient): void {
+export function registerCatalogTools(server: McpServer, client: SegmentClient, config: ToolConfig): void {
   // ===========================================================================
   // Sources Catalog
   // ===========================================================================
@@ -23,21 +24,28 @@ export function registerCatalogTools(server: McpServer, client: SegmentClient):
 Lists all available source types that can be created.
 
 Args:
-  - count: Number of sources to return (default: 20)
+  - count: Number of sources to return (default: ${config.defaultPageSize}, max: ${config.maxPageSize})
   - cursor: Pagination cursor
+  - all: Fetch every page by following pagination cursors (default: false)
+  - maxItems: Stop after collecting this many items across pages
   - format: Response format ('json' or 'markdown')
 
 Returns:
   Paginated list of source types.`,
     {
-      count: z.number().int().min(1).max(100).default(20),
+      count: z.number().int().min(1).max(config.maxPageSize).default(config.defaultPageSize),
       cursor: z.string().optional(),
+      all: z.boolean().default(false).describe('Fetch every page by following pagination cursors'),
+      maxItems: z.number().int().min(1).optional().describe('Stop after collecting this many items across pages'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ count, cursor, format }) => {
+    async ({ count, cursor, all, maxItems, format }) => {
       try {
-        const result = await client.getSourcesCatalog({ count, cursor });
-        return formatResponse(result, format, 'catalog');
+        const result =
+          all || maxItems
+            ? await client.listAll((page) => client.getSourcesCatalog(page), { count, cursor, maxItems })
+            : await client.getSourcesCatalog({ count, cursor });
+        return formatResponse(result, format, 'catalog', config.characterLimit);
       } catch (error) {
         return formatError(error);
       }
@@ -83,21 +91,28 @@ Returns:
 Lists all available destination types that can be created.
 
 Args:
-  - count: Number of destinations to return (default: 20)
+  - count: Number of destinations to return (default: ${config.defaultPageSize}, max: ${config.maxPageSize})
   - cursor: Pagination cursor
+  - all: Fetch every page by following pagination cursors (default: false)
+  - maxItems: Stop after collecting this many items across pages
   - format: Response format ('json' or 'markdown')
 
 Returns:
   Paginated list of destination types.`,
     {
-      count: z.number().int().min(1).max(100).default(20),
+      count: z.number().int().min(1).max(config.maxPageSize).default(config.defaultPageSize),
       cursor: z.string().optional(),
+      all: z.boolean().default(false).describe('Fetch every page by following pagination cursors'),
+      maxItems: z.number().int().min(1).optional().describe('Stop after collecting this many items across pages'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ count, cursor, format }) => {
+    async ({ count, cursor, all, maxItems, format }) => {
       try {
-        const result = await client.getDestinationsCatalog({ count, cursor });
-        return formatResponse(result, format, 'catalog');
+        const result =
+          all || maxItems
+            ? await client.listAll((page) => client.getDestinationsCatalog(page), { count, cursor, maxItems })
+            : await client.getDestinationsCatalog({ count, cursor });
+        return formatResponse(result, format, 'catalog', config.characterLimit);
       } catch (error) {
         return formatError(error);
       }
@@ -143,21 +158,28 @@ Returns:
 Lists all available warehouse types (Snowflake, BigQuery, Redshift, etc.).
 
 Args:
-  - count: Number of warehouses to return (default: 20)
+  - count: Number of warehouses to return (default: ${config.defaultPageSize}, max: ${config.maxPageSize})
   - cursor: Pagination cursor
+  - all: Fetch every page by following pagination cursors (default: false)
+  - maxItems: Stop after collecting this many items across pages
   - format: Response format ('json' or 'markdown')
 
 Returns:
   Paginated list of warehouse types.`,
     {
-      count: z.number().int().min(1).max(100).default(20),
+      count: z.number().int().min(1).max(config.maxPageSize).default(config.defaultPageSize),
       cursor: z.string().optional(),
+      all: z.boolean().default(false).describe('Fetch every page by following pagination cursors'),
+      maxItems: z.number().int().min(1).optional().describe('Stop after collecting this many items across pages'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ count, cursor, format }) => {
+    async ({ count, cursor, all, maxItems, format }) => {
       try {
-        const result = await client.getWarehousesCatalog({ count, cursor });
-        return formatResponse(result, format, 'catalog');
+        const result =
+          all || maxItems
+            ? await client.listAll((page) => client.getWarehousesCatalog(page), { count, cursor, maxItems })
+            : await client.getWarehousesCatalog({ count, cursor });
+        return formatResponse(result, format, 'catalog', config.characterLimit);
       } catch (error) {
         return formatError(error);
       }
@@ -7,12 +7,26 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { SegmentClient } from '../client.js';
+import type { CatalogOption, DestinationFilter } from '../types/entities.js';
+import type { ToolConfig } from '../types/env.js';
+import { simulateDestinationFilters } from '../utils/destination-filters.js';
+import { redactDestinationPlan, validateDestinationSettings } from '../utils/destination-settings.js';
+import { formatDryRun, planCreate, planDelete, planUpdate } from '../utils/dry-run.js';
 import { formatError, formatResponse } from '../utils/formatters.js';
+import { assertValidFql, evaluateFql, matchesFql, parseFql } from '../utils/fql.js';
+
+/**
+ * Settings declared in a destination's catalog entry; empty when the catalog lists none
+ */
+async function catalogOptions(client: SegmentClient, metadataId: string): Promise<CatalogOption[]> {
+  const metadata = await client.getDestinationMetadata(metadataId);
+  return metadata.options ?? [];
+}
 
 /**
  * Register all Destinations tools
  */
-export function registerDestinationsTools(server: McpServer, client: SegmentClient): void {
+export function registerDestinationsTools(server: McpServer, client: SegmentClient, config: ToolConfig): void {
   // ===========================================================================
   // List Destinations
   // ===========================================================================
@@ -23,21 +37,28 @@ export function registerDestinationsTools(server: McpServer, client: SegmentClie
 Returns a paginated list of destinations configured in your workspace.
 
 Args:
-  - count: Number of destinations to return (default: 20)
+  - count: Number of destinations to return (default: ${config.defaultPageSize}, max: ${config.maxPageSize})
   - cursor: Pagination cursor from previous response
+  - all: Fetch every page by following pagination cursors (default: false)
+  - maxItems: Stop after collecting this many items across pages
   - format: Response format ('json' or 'markdown')
 
 Returns:
   Paginated list of destinations with their IDs, names, types, and enabled status.`,
     {
-      count: z.number().int().min(1).max(100).default(20).describe('Number of destinations to return'),
+      count: z.number().int().min(1).max(config.maxPageSize).default(config.defaultPageSize).describe('Number of destinations to return'),
       cursor: z.string().optional().describe('Pagination cursor'),
+      all: z.boolean().default(false).describe('Fetch every page by following pagination cursors'),
+      maxItems: z.number().int().min(1).optional().describe('Stop after collecting this many items across pages'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ count, cursor, format }) => {
+    async ({ count, cursor, all, maxItems, format }) => {
       try {
-        const result = await client.listDestinations({ count, cursor });
-        return formatResponse(result, format, 'destinations');
+        const result =
+          all || maxItems
+            ? await client.listAll((page) => client.listDestinations(page), { count, cursor, maxItems })
+            : await client.listDestinations({ count, cursor });
+        return formatResponse(result, format, 'destinations', config.characterLimit);
       } catch (error) {
         return formatError(error);
       }
@@ -64,7 +85,7 @@ Returns:
     async ({ destinationId, format }) => {
       try {
         const destination = await client.getDestination(destinationId);
-        return formatResponse(destination, format, 'destination');
+        return formatResponse(destination, format, 'destination', config.characterLimit);
       } catch (error) {
         return formatError(error);
       }
@@ -82,8 +103,11 @@ Args:
   - sourceId: The source ID to connect (required)
   - metadataId: The destination catalog ID (use segment_get_destinations_catalog)
   - name: Display name for the destination (required)
-  - settings: Destination-specific settings
+  - settings: Destination-specific settings, checked against the catalog's settings (names, types,
+    allowed values and required settings, which are also checked when settings are omitted)
   - enabled: Whether the destination is enabled (default: true)
+  - skipSettingsValidation: Send settings without checking them against the catalog (default: false)
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
 
 Returns:
   The created destination object.`,
@@ -93,9 +117,21 @@ Returns:
       name: z.string().describe('Display name for the destination'),
       settings: z.record(z.string(), z.unknown()).optional().describe('Destination-specific settings'),
       enabled: z.boolean().default(true).describe('Whether the destination is enabled'),
+      skipSettingsValidation: z.boolean().default(false).describe('Do not check settings against the catalog'),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ sourceId, metadataId, name, settings, enabled }) => {
+    async ({ sourceId, metadataId, name, settings, enabled, skipSettingsValidation, dryRun }) => {
       try {
+        // A dry run needs the options to mask sensitive settings even when validation is skipped
+        const options = skipSettingsValidation && !dryRun ? [] : await catalogOptions(client, metadataId);
+        if (!skipSettingsValidation && options.length > 0) validateDestinationSettings(options, settings ?? {});
+
+        if (dryRun) {
+          return formatDryRun(
+            redactDestinationPlan(options, planCreate('destination', { sourceId, metadataId, name, settings, enabled }))
+          );
+        }
+
         const destination = await client.createDestination(sourceId, metadataId, name, settings as Record<string, unknown>, enabled);
         return {
           content: [
@@ -122,7 +158,10 @@ Args:
   - destinationId: The destination ID to update (required)
   - name: New display name
   - enabled: Enable or disable the destination
-  - settings: Updated destination-specific settings
+  - settings: Updated destination-specific settings, checked against the catalog's settings (names,
+    types, allowed values and required settings)
+  - skipSettingsValidation: Send settings without checking them against the catalog (default: false)
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
 
 Returns:
   The updated destination object.`,
@@ -131,9 +170,28 @@ Returns:
       name: z.string().optional().describe('New display name'),
       enabled: z.boolean().optional().describe('Enable or disable'),
       settings: z.record(z.string(), z.unknown()).optional().describe('Updated settings'),
+      skipSettingsValidation: z.boolean().default(false).describe('Do not check settings against the catalog'),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ destinationId, name, enabled, settings }) => {
+    async ({ destinationId, name, enabled, settings, skipSettingsValidation, dryRun }) => {
       try {
+        const current = settings || dryRun ? await client.getDestination(destinationId) : undefined;
+        const options = current && (!skipSettingsValidation || dryRun) ? await catalogOptions(client, current.metadata.id) : [];
+        if (settings && !skipSettingsValidation && options.length > 0) {
+          validateDestinationSettings(options, settings, current?.settings);
+        }
+
+        if (dryRun) {
+          const before = current ?? (await client.getDestination(destinationId));
+          // Settings are merged into the current ones, as the API does, so only edited settings show as changes
+          const plan = planUpdate('destination', destinationId, before, {
+            name,
+            enabled,
+            settings: settings && { ...before.settings, ...settings },
+          });
+          return formatDryRun(redactDestinationPlan(options, plan));
+        }
+
         const destination = await client.updateDestination(destinationId, name, enabled, settings as Record<string, unknown>);
         return {
           content: [
@@ -160,14 +218,22 @@ WARNING: This action is irreversible.
 
 Args:
   - destinationId: The destination ID to delete (required)
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
 
 Returns:
   Confirmation of deletion.`,
     {
       destinationId: z.string().describe('Destination ID to delete'),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ destinationId }) => {
+    async ({ destinationId, dryRun }) => {
       try {
+        if (dryRun) {
+          const before = await client.getDestination(destinationId);
+          const options = await catalogOptions(client, before.metadata.id);
+          return formatDryRun(redactDestinationPlan(options, planDelete('destination', destinationId, before)));
+        }
+
         await client.deleteDestination(destinationId);
         return {
           content: [
@@ -194,18 +260,29 @@ Subscriptions define which events are sent to an Actions destination.
 
 Args:
   - destinationId: The destination ID (required)
+  - count: Number to return (default: ${config.defaultPageSize}, max: ${config.maxPageSize})
+  - cursor: Pagination cursor
+  - all: Fetch every page by following pagination cursors (default: false)
+  - maxItems: Stop after collecting this many items across pages
   - format: Response format ('json' or 'markdown')
 
 Returns:
-  List of subscriptions for the destination.`,
+  Paginated list of subscriptions for the destination.`,
     {
       destinationId: z.string().describe('Destination ID'),
+      count: z.number().int().min(1).max(config.maxPageSize).default(config.defaultPageSize),
+      cursor: z.string().optional(),
+      all: z.boolean().default(false).describe('Fetch every page by following pagination cursors'),
+      maxItems: z.number().int().min(1).optional().describe('Stop after collecting this many items across pages'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ destinationId, format }) => {
+    async ({ destinationId, count, cursor, all, maxItems, format }) => {
       try {
-        const result = await client.listDestinationSubscriptions(destinationId);
-        return formatResponse(result, format, 'subscriptions');
+        const result =
+          all || maxItems
+            ? await client.listAll((page) => client.listDestinationSubscriptions(destinationId, page), { count, cursor, maxItems })
+            : await client.listDestinationSubscriptions(destinationId, { count, cursor });
+        return formatResponse(result, format, 'subscriptions', config.characterLimit);
       } catch (error) {
         return formatError(error);
       }
@@ -260,6 +337,7 @@ Args:
   - trigger: FQL trigger expression (required)
   - enabled: Whether enabled (default: true)
   - settings: Action-specific settings
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
 
 Returns:
   The created subscription.`,
@@ -270,9 +348,18 @@ Returns:
       trigger: z.string().describe('FQL trigger expression'),
       enabled: z.boolean().default(true),
       settings: z.record(z.string(), z.unknown()).optional(),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ destinationId, name, actionId, trigger, enabled, settings }) => {
+    async ({ destinationId, name, actionId, trigger, enabled, settings, dryRun }) => {
       try {
+        assertValidFql({ trigger });
+
+        if (dryRun) {
+          return formatDryRun(
+            planCreate('destination subscription', { destinationId, name, actionId, trigger, enabled, settings })
+          );
+        }
+
         const subscription = await client.createDestinationSubscription(
           destinationId,
           name,
@@ -309,6 +396,7 @@ Args:
   - enabled: Enable or disable
   - trigger: New FQL trigger expression
   - settings: Updated settings
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
 
 Returns:
   The updated subscription.`,
@@ -319,9 +407,19 @@ Returns:
       enabled: z.boolean().optional(),
       trigger: z.string().optional(),
       settings: z.record(z.string(), z.unknown()).optional(),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ destinationId, subscriptionId, name, enabled, trigger, settings }) => {
+    async ({ destinationId, subscriptionId, name, enabled, trigger, settings, dryRun }) => {
       try {
+        assertValidFql({ trigger });
+
+        if (dryRun) {
+          const before = await client.getDestinationSubscription(destinationId, subscriptionId);
+          return formatDryRun(
+            planUpdate('destination subscription', subscriptionId, before, { name, enabled, trigger, settings })
+          );
+        }
+
         const subscription = await client.updateDestinationSubscription(
           destinationId,
           subscriptionId,
@@ -354,15 +452,22 @@ Returns:
 Args:
   - destinationId: The destination ID (required)
   - subscriptionId: The subscription ID (required)
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
 
 Returns:
   Confirmation of deletion.`,
     {
       destinationId: z.string().describe('Destination ID'),
       subscriptionId: z.string().describe('Subscription ID'),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ destinationId, subscriptionId }) => {
+    async ({ destinationId, subscriptionId, dryRun }) => {
       try {
+        if (dryRun) {
+          const before = await client.getDestinationSubscription(destinationId, subscriptionId);
+          return formatDryRun(planDelete('destination subscription', subscriptionId, before));
+        }
+
         await client.deleteDestinationSubscription(destinationId, subscriptionId);
         return {
           content: [
@@ -389,18 +494,29 @@ Filters control which events are sent to a destination.
 
 Args:
   - destinationId: The destination ID (required)
+  - count: Number to return (default: ${config.defaultPageSize}, max: ${config.maxPageSize})
+  - cursor: Pagination cursor
+  - all: Fetch every page by following pagination cursors (default: false)
+  - maxItems: Stop after collecting this many items across pages
   - format: Response format ('json' or 'markdown')
 
 Returns:
-  List of filters for the destination.`,
+  Paginated list of filters for the destination.`,
     {
       destinationId: z.string().describe('Destination ID'),
+      count: z.number().int().min(1).max(config.maxPageSize).default(config.defaultPageSize),
+      cursor: z.string().optional(),
+      all: z.boolean().default(false).describe('Fetch every page by following pagination cursors'),
+      maxItems: z.number().int().min(1).optional().describe('Stop after collecting this many items across pages'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ destinationId, format }) => {
+    async ({ destinationId, count, cursor, all, maxItems, format }) => {
       try {
-        const result = await client.listDestinationFilters(destinationId);
-        return formatResponse(result, format, 'filters');
+        const result =
+          all || maxItems
+            ? await client.listAll((page) => client.listDestinationFilters(destinationId, page), { count, cursor, maxItems })
+            : await client.listDestinationFilters(destinationId, { count, cursor });
+        return formatResponse(result, format, 'filters', config.characterLimit);
       } catch (error) {
         return formatError(error);
       }
@@ -424,6 +540,7 @@ Args:
   - actions: Array of filter actions (required)
   - enabled: Whether enabled (default: true)
   - description: Filter description
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
 
 Returns:
   The created filter.`,
@@ -439,9 +556,18 @@ Returns:
       })).describe('Filter actions'),
       enabled: z.boolean().default(true),
       description: z.string().optional(),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ sourceId, destinationId, title, ifClause, actions, enabled, description }) => {
+    async ({ sourceId, destinationId, title, ifClause, actions, enabled, description, dryRun }) => {
       try {
+        assertValidFql({ ifClause });
+
+        if (dryRun) {
+          return formatDryRun(
+            planCreate('destination filter', { sourceId, destinationId, title, if: ifClause, actions, enabled, description })
+          );
+        }
+
         const filter = await client.createDestinationFilter(
           sourceId,
           destinationId,
@@ -480,6 +606,7 @@ Args:
   - actions: New filter actions
   - enabled: Enable or disable
   - description: New description
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
 
 Returns:
   The updated filter.`,
@@ -495,9 +622,19 @@ Returns:
       })).optional(),
       enabled: z.boolean().optional(),
       description: z.string().optional(),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ destinationId, filterId, title, ifClause, actions, enabled, description }) => {
+    async ({ destinationId, filterId, title, ifClause, actions, enabled, description, dryRun }) => {
       try {
+        assertValidFql({ ifClause });
+
+        if (dryRun) {
+          const before = await client.getDestinationFilter(destinationId, filterId);
+          return formatDryRun(
+            planUpdate('destination filter', filterId, before, { title, if: ifClause, actions, enabled, description })
+          );
+        }
+
         const filter = await client.updateDestinationFilter(
           destinationId,
           filterId,
@@ -531,15 +668,22 @@ Returns:
 Args:
   - destinationId: The destination ID (required)
   - filterId: The filter ID (required)
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
 
 Returns:
   Confirmation of deletion.`,
     {
       destinationId: z.string().describe('Destination ID'),
       filterId: z.string().describe('Filter ID'),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ destinationId, filterId }) => {
+    async ({ destinationId, filterId, dryRun }) => {
       try {
+        if (dryRun) {
+          const before = await client.getDestinationFilter(destinationId, filterId);
+          return formatDryRun(planDelete('destination filter', filterId, before));
+        }
+
         await client.deleteDestinationFilter(destinationId, filterId);
         return {
           content: [
@@ -554,4 +698,127 @@ Returns:
       }
     }
   );
+
+  // ===========================================================================
+  // Evaluate FQL
+  // ===========================================================================
+  server.tool(
+    'segment_evaluate_fql',
+    `Check an FQL expression and evaluate it against sample events, without calling the API.
+
+FQL is the language of destination subscription triggers, destination filter conditions and
+transformation conditions, e.g. type = "track" and event = "Order Completed". Supported:
+field paths (properties.price, escape other characters with "\\"), double-quoted strings,
+numbers, true, false, null, =, !=, <, <=, >, >=, and, or, ! and parentheses, and the functions
+contains(value, text), match(value, glob), length(value), lowercase(value) and typeof(value).
+Missing fields are null.
+
+Args:
+  - expression: FQL expression (required)
+  - events: Sample events to evaluate the expression against
+  - format: Response format ('json' or 'markdown')
+
+Returns:
+  Whether the expression is valid (with the error message and column if not) and, for each
+  event, whether it matches.`,
+    {
+      expression: z.string().describe('FQL expression'),
+      events: z.array(z.record(z.string(), z.unknown())).optional().describe('Sample events'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ expression, events, format }) => {
+      try {
+        const parsed = parseFql(expression);
+        const result = parsed.valid
+          ? {
+              valid: true,
+              results: (events ?? []).map((event, index) => ({
+                index,
+                matches: matchesFql(expression, event),
+                value: evaluateFql(parsed.expression, event),
+              })),
+            }
+          : { valid: false, error: parsed.error };
+        return formatResponse(result, format, 'fql-evaluation', config.characterLimit);
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Simulate Destination Filters
+  // ===========================================================================
+  server.tool(
+    'segment_simulate_destination_filters',
+    `Apply a destination's filters to sample events and show which events would be delivered, and in what shape.
+
+Enabled filters run in order. When an event matches a filter's if clause, its actions run:
+drop_event drops it, sample_event keeps percent (0 to 1) of matching events chosen
+deterministically by messageId (or fields.path), allow_properties keeps only the listed
+properties and drop_properties removes them. Nothing is sent to the destination.
+
+Args:
+  - destinationId: The destination ID (required)
+  - events: Sample Segment events (required)
+  - sourceId: Only apply filters attached to this source
+  - filters: Filters to simulate instead of the saved ones ({ title, if, actions, enabled }), to test
+    changes before saving them
+  - format: Response format ('json' or 'markdown')
+
+Returns:
+  Delivered and dropped counts, how each filter was used, and for each event whether it is
+  delivered, the filter that dropped it, the filters that matched, the removed fields and the
+  delivered event.`,
+    {
+      destinationId: z.string().describe('Destination ID'),
+      events: z.array(z.record(z.string(), z.unknown())).min(1).describe('Sample events'),
+      sourceId: z.string().optional().describe('Only apply filters attached to this source'),
+      filters: z
+        .array(
+          z.object({
+            id: z.string().optional(),
+            title: z.string(),
+            if: z.string(),
+            actions: z.array(
+              z.object({
+                type: z.enum(['drop_event', 'sample_event', 'allow_properties', 'drop_properties']),
+                fields: z.record(z.string(), z.unknown()).optional(),
+                percent: z.number().min(0).max(1).optional(),
+              })
+            ),
+            enabled: z.boolean().default(true),
+          })
+        )
+        .optional()
+        .describe('Filters to simulate instead of the saved ones'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ destinationId, events, sourceId, filters, format }) => {
+      try {
+        const candidates: DestinationFilter[] = filters
+          ? filters.map((filter, index) => ({
+              id: filter.id ?? `proposed-${index + 1}`,
+              sourceId: sourceId ?? '',
+              destinationId,
+              ...filter,
+            }))
+          : (await client.listAll((page) => client.listDestinationFilters(destinationId, page))).data;
+
+        const simulation = simulateDestinationFilters(candidates, events, { sourceId });
+        return formatResponse(
+          {
+            success: true,
+            message: `${simulation.summary.delivered} of ${simulation.summary.events} event${simulation.summary.events === 1 ? '' : 's'} would be delivered`,
+            ...simulation,
+          },
+          format,
+          'filter-simulation',
+          config.characterLimit
+        );
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
 }
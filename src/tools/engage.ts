@@ -7,12 +7,14 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { SegmentClient } from '../client.js';
+import type { ToolConfig } from '../types/env.js';
+import { formatDryRun, planCreate, planDelete, planUpdate } from '../utils/dry-run.js';
 import { formatError, formatResponse } from '../utils/formatters.js';
 
 /**
  * Register all Engage tools
  */
-export function registerEngageTools(server: McpServer, client: SegmentClient): void {
+export function registerEngageTools(server: McpServer, client: SegmentClient, config: ToolConfig): void {
   // ===========================================================================
   // Spaces
   // ===========================================================================
@@ -23,21 +25,28 @@ export function registerEngageTools(server: McpServer, client: SegmentClient): v
 Spaces are Engage workspaces that contain audiences and computed traits.
 
 Args:
-  - count: Number of spaces to return (default: 20)
+  - count: Number of spaces to return (default: ${config.defaultPageSize}, max: ${config.maxPageSize})
   - cursor: Pagination cursor
+  - all: Fetch every page by following pagination cursors (default: false)
+  - maxItems: Stop after collecting this many items across pages
   - format: Response format ('json' or 'markdown')
 
 Returns:
   Paginated list of spaces.`,
     {
-      count: z.number().int().min(1).max(100).default(20),
+      count: z.number().int().min(1).max(config.maxPageSize).default(config.defaultPageSize),
       cursor: z.string().optional(),
+      all: z.boolean().default(false).describe('Fetch every page by following pagination cursors'),
+      maxItems: z.number().int().min(1).optional().describe('Stop after collecting this many items across pages'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ count, cursor, format }) => {
+    async ({ count, cursor, all, maxItems, format }) => {
       try {
-        const result = await client.listSpaces({ count, cursor });
-        return formatResponse(result, format, 'spaces');
+        const result =
+          all || maxItems
+            ? await client.listAll((page) => client.listSpaces(page), { count, cursor, maxItems })
+            : await client.listSpaces({ count, cursor });
+        return formatResponse(result, format, 'spaces', config.characterLimit);
       } catch (error) {
         return formatError(error);
       }
@@ -84,22 +93,29 @@ Audiences are dynamic groups of users based on conditions.
 
 Args:
   - spaceId: The space ID (required)
-  - count: Number of audiences to return (default: 20)
+  - count: Number of audiences to return (default: ${config.defaultPageSize}, max: ${config.maxPageSize})
   - cursor: Pagination cursor
+  - all: Fetch every page by following pagination cursors (default: false)
+  - maxItems: Stop after collecting this many items across pages
   - format: Response format ('json' or 'markdown')
 
 Returns:
   Paginated list of audiences.`,
     {
       spaceId: z.string().describe('Space ID'),
-      count: z.number().int().min(1).max(100).default(20),
+      count: z.number().int().min(1).max(config.maxPageSize).default(config.defaultPageSize),
       cursor: z.string().optional(),
+      all: z.boolean().default(false).describe('Fetch every page by following pagination cursors'),
+      maxItems: z.number().int().min(1).optional().describe('Stop after collecting this many items across pages'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ spaceId, count, cursor, format }) => {
+    async ({ spaceId, count, cursor, all, maxItems, format }) => {
       try {
-        const result = await client.listAudiences(spaceId, { count, cursor });
-        return formatResponse(result, format, 'audiences');
+        const result =
+          all || maxItems
+            ? await client.listAll((page) => client.listAudiences(spaceId, page), { count, cursor, maxItems })
+            : await client.listAudiences(spaceId, { count, cursor });
+        return formatResponse(result, format, 'audiences', config.characterLimit);
       } catch (error) {
         return formatError(error);
       }
@@ -125,7 +141,7 @@ Returns:
     async ({ spaceId, audienceId, format }) => {
       try {
         const audience = await client.getAudience(spaceId, audienceId);
-        return formatResponse(audience, format, 'audience');
+        return formatResponse(audience, format, 'audience', config.characterLimit);
       } catch (error) {
         return formatError(error);
       }
@@ -142,6 +158,7 @@ Args:
   - definition: Audience definition with query and type
   - description: Description
   - enabled: Whether enabled (default: true)
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
 
 Returns:
   The created audience.`,
@@ -154,9 +171,14 @@ Returns:
       }).describe('Audience definition'),
       description: z.string().optional(),
       enabled: z.boolean().default(true),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ spaceId, name, definition, description, enabled }) => {
+    async ({ spaceId, name, definition, description, enabled, dryRun }) => {
       try {
+        if (dryRun) {
+          return formatDryRun(planCreate('audience', { spaceId, name, definition, description, enabled }));
+        }
+
         const audience = await client.createAudience(spaceId, name, definition, description, enabled);
         return {
           content: [
@@ -183,6 +205,7 @@ Args:
   - definition: New definition
   - description: New description
   - enabled: Enable or disable
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
 
 Returns:
   The updated audience.`,
@@ -196,9 +219,15 @@ Returns:
       }).optional(),
       description: z.string().optional(),
       enabled: z.boolean().optional(),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ spaceId, audienceId, name, definition, description, enabled }) => {
+    async ({ spaceId, audienceId, name, definition, description, enabled, dryRun }) => {
       try {
+        if (dryRun) {
+          const before = await client.getAudience(spaceId, audienceId);
+          return formatDryRun(planUpdate('audience', audienceId, before, { name, definition, description, enabled }));
+        }
+
         const audience = await client.updateAudience(spaceId, audienceId, name, definition, description, enabled);
         return {
           content: [
@@ -223,15 +252,22 @@ WARNING: This action is irreversible.
 Args:
   - spaceId: The space ID (required)
   - audienceId: The audience ID (required)
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
 
 Returns:
   Confirmation of deletion.`,
     {
       spaceId: z.string().describe('Space ID'),
       audienceId: z.string().describe('Audience ID'),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ spaceId, audienceId }) => {
+    async ({ spaceId, audienceId, dryRun }) => {
       try {
+        if (dryRun) {
+          const before = await client.getAudience(spaceId, audienceId);
+          return formatDryRun(planDelete('audience', audienceId, before));
+        }
+
         await client.deleteAudience(spaceId, audienceId);
         return {
           content: [
@@ -258,22 +294,29 @@ Computed traits are dynamically calculated user properties.
 
 Args:
   - spaceId: The space ID (required)
-  - count: Number of traits to return (default: 20)
+  - count: Number of traits to return (default: ${config.defaultPageSize}, max: ${config.maxPageSize})
   - cursor: Pagination cursor
+  - all: Fetch every page by following pagination cursors (default: false)
+  - maxItems: Stop after collecting this many items across pages
   - format: Response format ('json' or 'markdown')
 
 Returns:
   Paginated list of computed traits.`,
     {
       spaceId: z.string().describe('Space ID'),
-      count: z.number().int().min(1).max(100).default(20),
+      count: z.number().int().min(1).max(config.maxPageSize).default(config.defaultPageSize),
       cursor: z.string().optional(),
+      all: z.boolean().default(false).describe('Fetch every page by following pagination cursors'),
+      maxItems: z.number().int().min(1).optional().describe('Stop after collecting this many items across pages'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ spaceId, count, cursor, format }) => {
+    async ({ spaceId, count, cursor, all, maxItems, format }) => {
       try {
-        const result = await client.listComputedTraits(spaceId, { count, cursor });
-        return formatResponse(result, format, 'computed-traits');
+        const result =
+          all || maxItems
+            ? await client.listAll((page) => client.listComputedTraits(spaceId, page), { count, cursor, maxItems })
+            : await client.listComputedTraits(spaceId, { count, cursor });
+        return formatResponse(result, format, 'computed-traits', config.characterLimit);
       } catch (error) {
         return formatError(error);
       }
@@ -299,7 +342,7 @@ Returns:
     async ({ spaceId, traitId, format }) => {
       try {
         const trait = await client.getComputedTrait(spaceId, traitId);
-        return formatResponse(trait, format, 'computed-trait');
+        return formatResponse(trait, format, 'computed-trait', config.characterLimit);
       } catch (error) {
         return formatError(error);
       }
@@ -316,6 +359,7 @@ Args:
   - definition: Trait definition with query and type
   - description: Description
   - enabled: Whether enabled (default: true)
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
 
 Returns:
   The created computed trait.`,
@@ -328,9 +372,14 @@ Returns:
       }).describe('Trait definition'),
       description: z.string().optional(),
       enabled: z.boolean().default(true),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ spaceId, name, definition, description, enabled }) => {
+    async ({ spaceId, name, definition, description, enabled, dryRun }) => {
       try {
+        if (dryRun) {
+          return formatDryRun(planCreate('computed trait', { spaceId, name, definition, description, enabled }));
+        }
+
         const trait = await client.createComputedTrait(spaceId, name, definition, description, enabled);
         return {
           content: [
@@ -357,6 +406,7 @@ Args:
   - definition: New definition
   - description: New description
   - enabled: Enable or disable
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
 
 Returns:
   The updated computed trait.`,
@@ -370,9 +420,15 @@ Returns:
       }).optional(),
       description: z.string().optional(),
       enabled: z.boolean().optional(),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ spaceId, traitId, name, definition, description, enabled }) => {
+    async ({ spaceId, traitId, name, definition, description, enabled, dryRun }) => {
       try {
+        if (dryRun) {
+          const before = await client.getComputedTrait(spaceId, traitId);
+          return formatDryRun(planUpdate('computed trait', traitId, before, { name, definition, description, enabled }));
+        }
+
         const trait = await client.updateComputedTrait(spaceId, traitId, name, definition, description, enabled);
         return {
           content: [
@@ -397,15 +453,22 @@ WARNING: This action is irreversible.
 Args:
   - spaceId: The space ID (required)
   - traitId: The computed trait ID (required)
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
 
 Returns:
   Confirmation of deletion.`,
     {
       spaceId: z.string().describe('Space ID'),
       traitId: z.string().describe('Computed trait ID'),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ spaceId, traitId }) => {
+    async ({ spaceId, traitId, dryRun }) => {
       try {
+        if (dryRun) {
+          const before = await client.getComputedTrait(spaceId, traitId);
+          return formatDryRun(planDelete('computed trait', traitId, before));
+        }
+
         await client.deleteComputedTrait(spaceId, traitId);
         return {
           content: [
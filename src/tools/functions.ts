@@ -7,12 +7,39 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { SegmentClient } from '../client.js';
+import type { FunctionSetting } from '../types/entities.js';
+import type { ToolConfig } from '../types/env.js';
+import { formatDryRun, planChange, planCreate, planDelete, planUpdate } from '../utils/dry-run.js';
+import { SegmentApiError, ValidationError } from '../utils/errors.js';
 import { formatError, formatResponse } from '../utils/formatters.js';
+import { analyzeFunctionCode, type FunctionDiagnostic } from '../utils/function-analysis.js';
+import { runFunctionTest } from '../utils/function-harness.js';
+import { redactFunctionSettings, validateFunctionSettings } from '../utils/function-settings.js';
+import { isSchema } from '../utils/json-schema.js';
+import { unifiedDiff } from '../utils/text-diff.js';
+
+/**
+ * Group code check diagnostics by position for a ValidationError
+ */
+function diagnosticDetails(diagnostics: FunctionDiagnostic[]): Record<string, string[]> {
+  const details: Record<string, string[]> = {};
+  for (const diagnostic of diagnostics) {
+    const position = `line ${diagnostic.line}:${diagnostic.column}`;
+    details[position] ??= [];
+    details[position].push(`${diagnostic.code}: ${diagnostic.message}`);
+  }
+  return details;
+}
 
 /**
  * Register all Functions tools
  */
-export function registerFunctionsTools(server: McpServer, client: SegmentClient): void {
+export function registerFunctionsTools(
+  server: McpServer,
+  client: SegmentClient,
+  config: ToolConfig,
+  loader?: WorkerLoader
+): void {
   // ===========================================================================
   // List Functions
   // ===========================================================================
@@ -23,23 +50,30 @@ export function registerFunctionsTools(server: McpServer, client: SegmentClient)
 Functions are custom JavaScript code that can transform or filter data.
 
 Args:
-  - count: Number of functions to return (default: 20)
+  - count: Number of functions to return (default: ${config.defaultPageSize}, max: ${config.maxPageSize})
   - cursor: Pagination cursor from previous response
+  - all: Fetch every page by following pagination cursors (default: false)
+  - maxItems: Stop after collecting this many items across pages
   - resourceType: Filter by type (DESTINATION, INSERT_DESTINATION, SOURCE)
   - format: Response format ('json' or 'markdown')
 
 Returns:
   Paginated list of functions.`,
     {
-      count: z.number().int().min(1).max(100).default(20).describe('Number to return'),
+      count: z.number().int().min(1).max(config.maxPageSize).default(config.defaultPageSize).describe('Number to return'),
       cursor: z.string().optional().describe('Pagination cursor'),
+      all: z.boolean().default(false).describe('Fetch every page by following pagination cursors'),
+      maxItems: z.number().int().min(1).optional().describe('Stop after collecting this many items across pages'),
       resourceType: z.enum(['DESTINATION', 'INSERT_DESTINATION', 'SOURCE']).optional(),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ count, cursor, resourceType, format }) => {
+    async ({ count, cursor, all, maxItems, resourceType, format }) => {
       try {
-        const result = await client.listFunctions({ count, cursor, resourceType });
-        return formatResponse(result, format, 'functions');
+        const result =
+          all || maxItems
+            ? await client.listAll((page) => client.listFunctions({ ...page, resourceType }), { count, cursor, maxItems })
+            : await client.listFunctions({ count, cursor, resourceType });
+        return formatResponse(result, format, 'functions', config.characterLimit);
       } catch (error) {
         return formatError(error);
       }
@@ -66,7 +100,7 @@ Returns:
     async ({ functionId, format }) => {
       try {
         const fn = await client.getFunction(functionId);
-        return formatResponse(fn, format, 'function');
+        return formatResponse(fn, format, 'function', config.characterLimit);
       } catch (error) {
         return formatError(error);
       }
@@ -86,6 +120,7 @@ Args:
   - resourceType: Type of function (DESTINATION, INSERT_DESTINATION, SOURCE)
   - description: Description of the function
   - settings: Array of setting definitions
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
 
 Returns:
   The created function.`,
@@ -102,9 +137,14 @@ Returns:
         required: z.boolean().optional(),
         sensitive: z.boolean().optional(),
       })).optional().describe('Setting definitions'),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ displayName, code, resourceType, description, settings }) => {
+    async ({ displayName, code, resourceType, description, settings, dryRun }) => {
       try {
+        if (dryRun) {
+          return formatDryRun(planCreate('function', { displayName, code, resourceType, description, settings }));
+        }
+
         const fn = await client.createFunction(displayName, code, resourceType, description, settings);
         return {
           content: [
@@ -133,6 +173,7 @@ Args:
   - code: New JavaScript code
   - description: New description
   - settings: Updated setting definitions
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
 
 Returns:
   The updated function.`,
@@ -149,9 +190,15 @@ Returns:
         required: z.boolean().optional(),
         sensitive: z.boolean().optional(),
       })).optional(),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ functionId, displayName, code, description, settings }) => {
+    async ({ functionId, displayName, code, description, settings, dryRun }) => {
       try {
+        if (dryRun) {
+          const before = await client.getFunction(functionId);
+          return formatDryRun(planUpdate('function', functionId, before, { displayName, code, description, settings }));
+        }
+
         const fn = await client.updateFunction(functionId, displayName, code, description, settings);
         return {
           content: [
@@ -178,14 +225,21 @@ WARNING: This action is irreversible.
 
 Args:
   - functionId: The function ID (required)
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
 
 Returns:
   Confirmation of deletion.`,
     {
       functionId: z.string().describe('Function ID'),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ functionId }) => {
+    async ({ functionId, dryRun }) => {
       try {
+        if (dryRun) {
+          const before = await client.getFunction(functionId);
+          return formatDryRun(planDelete('function', functionId, before));
+        }
+
         await client.deleteFunction(functionId);
         return {
           content: [
@@ -208,22 +262,387 @@ Returns:
     'segment_deploy_function',
     `Deploy a function to make it available for use.
 
+The function's code is checked first (see segment_check_function_code); the deploy is refused
+when the check finds errors such as syntax errors, handlers that do not match the function type,
+undeclared settings, hardcoded secrets or synchronous infinite loops.
+
 Args:
   - functionId: The function ID (required)
+  - skipChecks: Deploy even when the code check finds errors (default: false)
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
 
 Returns:
-  The deployed function.`,
+  The deployed function and the code check diagnostics.`,
     {
       functionId: z.string().describe('Function ID'),
+      skipChecks: z.boolean().default(false).describe('Deploy even when the code check finds errors'),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ functionId }) => {
+    async ({ functionId, skipChecks, dryRun }) => {
       try {
+        const before = await client.getFunction(functionId);
+        const diagnostics = analyzeFunctionCode(before.code, {
+          resourceType: before.resourceType,
+          settings: before.settings,
+        });
+        const errors = diagnostics.filter((diagnostic) => diagnostic.severity === 'error');
+        if (errors.length > 0 && !skipChecks) {
+          throw new ValidationError(
+            `Function code check found ${errors.length} error${errors.length === 1 ? '' : 's'}; fix them or pass skipChecks: true`,
+            diagnosticDetails(errors)
+          );
+        }
+
+        if (dryRun) {
+          const plan = planChange(
+            'deploy',
+            'function',
+            functionId,
+            { deployedAt: before.deployedAt, isLatestVersion: before.isLatestVersion },
+            { deployedAt: '<set on apply>', isLatestVersion: true },
+            `Would deploy the current code of function "${before.displayName}" (last deployed: ${before.deployedAt || 'never'}). No changes were applied.`
+          );
+          return formatDryRun(Object.assign(plan, { diagnostics }));
+        }
+
         const fn = await client.deployFunction(functionId);
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify({ success: true, message: 'Function deployed', function: fn }, null, 2),
+              text: JSON.stringify({ success: true, message: 'Function deployed', function: fn, diagnostics }, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Check Function Code
+  // ===========================================================================
+  server.tool(
+    'segment_check_function_code',
+    `Statically check a function's code without running or deploying it.
+
+The code is parsed as JavaScript and the first syntax error is reported with its position. Also
+flags handlers that do not match the function type (e.g. onRequest in a destination function),
+settings.* keys the function does not declare, hardcoded secrets and loops that can never exit.
+segment_deploy_function runs the same check.
+
+Args:
+  - functionId: Function whose saved code to check (or pass code)
+  - code: Function code to check instead of a saved function
+  - resourceType: DESTINATION, INSERT_DESTINATION or SOURCE (default: the function's type, or DESTINATION)
+  - settings: Declared settings to check settings.* keys against (default: the function's settings;
+    the check is skipped when neither is known)
+
+Returns:
+  Diagnostics with severity (error or warning), code, message, line and column.`,
+    {
+      functionId: z.string().optional().describe('Function ID'),
+      code: z.string().optional().describe('Function code to check'),
+      resourceType: z.enum(['DESTINATION', 'INSERT_DESTINATION', 'SOURCE']).optional(),
+      settings: z
+        .array(
+          z.object({
+            name: z.string(),
+            label: z.string().optional(),
+            type: z.enum(['ARRAY', 'BOOLEAN', 'STRING', 'TEXT_MAP']).optional(),
+          })
+        )
+        .optional()
+        .describe('Declared function settings'),
+    },
+    async ({ functionId, code, resourceType, settings }) => {
+      try {
+        if (!functionId && code === undefined) {
+          throw new ValidationError('Provide functionId or code', { functionId: ['Required when code is not given'] });
+        }
+
+        const fn = functionId ? await client.getFunction(functionId) : undefined;
+        const declared = settings
+          ? settings.map((setting) => ({ label: setting.name, type: 'STRING' as const, ...setting }))
+          : fn?.settings;
+        const diagnostics = analyzeFunctionCode(code ?? fn?.code ?? '', {
+          resourceType: resourceType ?? fn?.resourceType ?? 'DESTINATION',
+          settings: declared,
+        });
+        const errors = diagnostics.filter((diagnostic) => diagnostic.severity === 'error').length;
+
+        return formatResponse(
+          {
+            success: true,
+            message:
+              diagnostics.length === 0
+                ? 'No problems found'
+                : `${errors} error${errors === 1 ? '' : 's'}, ${diagnostics.length - errors} warning${diagnostics.length - errors === 1 ? '' : 's'}`,
+            passed: errors === 0,
+            diagnostics,
+          },
+          'json',
+          'function-check',
+          config.characterLimit
+        );
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // List Function Versions
+  // ===========================================================================
+  server.tool(
+    'segment_list_function_versions',
+    `List the saved versions of a function's code.
+
+Args:
+  - functionId: The function ID (required)
+  - count: Number of versions to return (default: ${config.defaultPageSize}, max: ${config.maxPageSize})
+  - cursor: Pagination cursor from previous response
+  - all: Fetch every page by following pagination cursors (default: false)
+  - maxItems: Stop after collecting this many items across pages
+  - format: Response format ('json' or 'markdown')
+
+Returns:
+  Paginated list of versions with when they were created and whether they are deployed.`,
+    {
+      functionId: z.string().describe('Function ID'),
+      count: z.number().int().min(1).max(config.maxPageSize).default(config.defaultPageSize).describe('Number to return'),
+      cursor: z.string().optional().describe('Pagination cursor'),
+      all: z.boolean().default(false).describe('Fetch every page by following pagination cursors'),
+      maxItems: z.number().int().min(1).optional().describe('Stop after collecting this many items across pages'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ functionId, count, cursor, all, maxItems, format }) => {
+      try {
+        const result =
+          all || maxItems
+            ? await client.listAll((page) => client.listFunctionVersions(functionId, page), { count, cursor, maxItems })
+            : await client.listFunctionVersions(functionId, { count, cursor });
+        return formatResponse(result, format, 'function-versions', config.characterLimit);
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Get Function Version
+  // ===========================================================================
+  server.tool(
+    'segment_get_function_version',
+    `Get one saved version of a function, including its code.
+
+Args:
+  - functionId: The function ID (required)
+  - versionId: The version ID (required)
+  - format: Response format ('json' or 'markdown')
+
+Returns:
+  The version with its code.`,
+    {
+      functionId: z.string().describe('Function ID'),
+      versionId: z.string().describe('Version ID'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ functionId, versionId, format }) => {
+      try {
+        const version = await client.getFunctionVersion(functionId, versionId);
+        return formatResponse(version, format, 'function-version', config.characterLimit);
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Diff Function Versions
+  // ===========================================================================
+  server.tool(
+    'segment_diff_function_versions',
+    `Compare the code of two function versions as a unified diff.
+
+Args:
+  - functionId: The function ID (required)
+  - fromVersionId: The older version (required)
+  - toVersionId: The newer version (default: the function's current code)
+  - context: Unchanged lines shown around each change (default: 3)
+
+Returns:
+  Unified diff with the number of added and removed lines.`,
+    {
+      functionId: z.string().describe('Function ID'),
+      fromVersionId: z.string().describe('Older version ID'),
+      toVersionId: z.string().optional().describe('Newer version ID (default: current code)'),
+      context: z.number().int().min(0).max(50).default(3).describe('Context lines'),
+    },
+    async ({ functionId, fromVersionId, toVersionId, context }) => {
+      try {
+        const from = await client.getFunctionVersion(functionId, fromVersionId);
+        const to = toVersionId
+          ? (await client.getFunctionVersion(functionId, toVersionId)).code
+          : (await client.getFunction(functionId)).code;
+        const result = unifiedDiff(from.code ?? '', to ?? '', fromVersionId, toVersionId ?? 'current', context);
+
+        return formatResponse(
+          {
+            success: true,
+            message: result.diff
+              ? `+${result.additions} -${result.deletions} lines between ${fromVersionId} and ${toVersionId ?? 'the current code'}`
+              : 'The versions have identical code',
+            ...result,
+          },
+          'json',
+          'function-diff',
+          config.characterLimit
+        );
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Restore Function Version
+  // ===========================================================================
+  server.tool(
+    'segment_restore_function_version',
+    `Restore a function to the code of an earlier version and, by default, deploy it.
+
+This is a one-step rollback: the version's code becomes the function's current code and is
+deployed, so running instances pick it up.
+
+Args:
+  - functionId: The function ID (required)
+  - versionId: The version to restore (required)
+  - deploy: Deploy the restored code (default: true)
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
+
+Returns:
+  The restored version and, when deployed, the deployed function.`,
+    {
+      functionId: z.string().describe('Function ID'),
+      versionId: z.string().describe('Version ID to restore'),
+      deploy: z.boolean().default(true).describe('Deploy the restored code'),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
+    },
+    async ({ functionId, versionId, deploy, dryRun }) => {
+      try {
+        if (dryRun) {
+          const [fn, version] = await Promise.all([
+            client.getFunction(functionId),
+            client.getFunctionVersion(functionId, versionId),
+          ]);
+          const result = unifiedDiff(fn.code, version.code ?? '', 'current', versionId);
+          return formatDryRun(
+            planChange(
+              deploy ? 'deploy' : 'update',
+              'function',
+              functionId,
+              { code: fn.code },
+              { code: version.code },
+              `Would restore function "${fn.displayName}" to version ${versionId} (+${result.additions} -${result.deletions} lines)${deploy ? ' and deploy it' : ''}. No changes were applied.`
+            )
+          );
+        }
+
+        const version = await client.restoreFunctionVersion(functionId, versionId);
+        const fn = deploy ? await client.deployFunction(functionId) : undefined;
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: true,
+                  message: `Function restored to version ${versionId}${fn ? ' and deployed' : ''}`,
+                  version: { ...version, code: undefined },
+                  ...(fn && { function: fn }),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Set Function Setting
+  // ===========================================================================
+  server.tool(
+    'segment_set_function_setting',
+    `Add a declared setting to a function, or update one with the same name.
+
+Settings declare the values each instance of the function is configured with (API keys,
+endpoints, flags). Fields left out when updating keep their current values.
+
+Args:
+  - functionId: The function ID (required)
+  - name: Setting name, the key handlers read from the settings object (required)
+  - label: Label shown in the Segment UI (default: the name, for new settings)
+  - type: Value type: STRING, BOOLEAN, ARRAY or TEXT_MAP (default: STRING, for new settings)
+  - description: Help text for the setting
+  - required: Whether instances must set a value
+  - sensitive: Whether the value is secret and hidden after saving
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
+
+Returns:
+  The function's updated settings.`,
+    {
+      functionId: z.string().describe('Function ID'),
+      name: z.string().min(1).describe('Setting name'),
+      label: z.string().optional().describe('Setting label'),
+      type: z.enum(['ARRAY', 'BOOLEAN', 'STRING', 'TEXT_MAP']).optional(),
+      description: z.string().optional(),
+      required: z.boolean().optional(),
+      sensitive: z.boolean().optional(),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
+    },
+    async ({ functionId, name, label, type, description, required, sensitive, dryRun }) => {
+      try {
+        const fn = await client.getFunction(functionId);
+        const before = fn.settings ?? [];
+        const existing = before.find((setting) => setting.name === name);
+        const setting: FunctionSetting = {
+          ...existing,
+          name,
+          label: label ?? existing?.label ?? name,
+          type: type ?? existing?.type ?? 'STRING',
+          ...(description !== undefined && { description }),
+          ...(required !== undefined && { required }),
+          ...(sensitive !== undefined && { sensitive }),
+        };
+        const after = existing
+          ? before.map((candidate) => (candidate.name === name ? setting : candidate))
+          : [...before, setting];
+
+        if (dryRun) {
+          return formatDryRun(planChange('update', 'function', functionId, { settings: before }, { settings: after }));
+        }
+
+        const updated = await client.updateFunction(functionId, undefined, undefined, undefined, after);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: true,
+                  message: `Function setting "${name}" ${existing ? 'updated' : 'added'}`,
+                  settings: updated.settings ?? after,
+                },
+                null,
+                2
+              ),
             },
           ],
         };
@@ -232,4 +651,252 @@ Returns:
       }
     }
   );
+
+  // ===========================================================================
+  // Remove Function Setting
+  // ===========================================================================
+  server.tool(
+    'segment_remove_function_setting',
+    `Remove a declared setting from a function.
+
+Existing instances keep any value they stored for it, but handlers no longer receive it.
+
+Args:
+  - functionId: The function ID (required)
+  - name: Name of the setting to remove (required)
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
+
+Returns:
+  The function's remaining settings.`,
+    {
+      functionId: z.string().describe('Function ID'),
+      name: z.string().describe('Setting name'),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
+    },
+    async ({ functionId, name, dryRun }) => {
+      try {
+        const fn = await client.getFunction(functionId);
+        const before = fn.settings ?? [];
+        if (!before.some((setting) => setting.name === name)) {
+          throw new ValidationError(`Function "${fn.displayName}" has no setting named "${name}"`, {
+            name: [`Declared settings: ${before.map((setting) => setting.name).join(', ') || 'none'}`],
+          });
+        }
+        const after = before.filter((setting) => setting.name !== name);
+
+        if (dryRun) {
+          return formatDryRun(planChange('update', 'function', functionId, { settings: before }, { settings: after }));
+        }
+
+        const updated = await client.updateFunction(functionId, undefined, undefined, undefined, after);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                { success: true, message: `Function setting "${name}" removed`, settings: updated.settings ?? after },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Create Function Instance
+  // ===========================================================================
+  server.tool(
+    'segment_create_function_instance',
+    `Create a configured instance of a function.
+
+The instance depends on the function type:
+  - DESTINATION: a destination connected to sourceId
+  - SOURCE: a source with the given slug
+  - INSERT_DESTINATION: an insert function running in front of destinationId
+
+Settings are checked against the function's declared settings (required values, types, no
+undeclared names) before anything is created. Sensitive values are sent to Segment but masked in
+the response. Destination and source functions must be deployed first so they have a catalog ID.
+
+Args:
+  - functionId: The function ID (required)
+  - name: Instance name (default: the function's display name)
+  - sourceId: Source to connect a destination function to
+  - slug: Slug of the source created for a source function
+  - destinationId: Destination an insert function runs in front of
+  - settings: Setting values keyed by setting name
+  - enabled: Whether the instance starts enabled (default: true)
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
+
+Returns:
+  The created destination, source or insert function instance.`,
+    {
+      functionId: z.string().describe('Function ID'),
+      name: z.string().optional().describe('Instance name'),
+      sourceId: z.string().optional().describe('Source ID (destination functions)'),
+      slug: z.string().optional().describe('Source slug (source functions)'),
+      destinationId: z.string().optional().describe('Destination ID (insert functions)'),
+      settings: z.record(z.string(), z.unknown()).default({}).describe('Setting values'),
+      enabled: z.boolean().default(true).describe('Start enabled'),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
+    },
+    async ({ functionId, name, sourceId, slug, destinationId, settings, enabled, dryRun }) => {
+      try {
+        const fn = await client.getFunction(functionId);
+        const declared = fn.settings ?? [];
+        const instanceName = name ?? fn.displayName;
+        validateFunctionSettings(declared, settings);
+
+        const [target, targetValue] =
+          fn.resourceType === 'DESTINATION'
+            ? ['sourceId', sourceId]
+            : fn.resourceType === 'SOURCE'
+              ? ['slug', slug]
+              : ['destinationId', destinationId];
+        if (!targetValue) {
+          throw new ValidationError(`${target} is required for ${fn.resourceType} functions`, { [target]: ['Required'] });
+        }
+        if (fn.resourceType !== 'INSERT_DESTINATION' && !fn.catalogId) {
+          throw new ValidationError(`Function "${fn.displayName}" has no catalog ID yet; deploy it before creating instances`);
+        }
+
+        const redacted = redactFunctionSettings(declared, settings);
+        const resourceType = {
+          DESTINATION: 'destination',
+          SOURCE: 'source',
+          INSERT_DESTINATION: 'insert function instance',
+        }[fn.resourceType];
+        if (dryRun) {
+          return formatDryRun(
+            planCreate(resourceType, { functionId, name: instanceName, [target]: targetValue, settings: redacted, enabled })
+          );
+        }
+
+        let instance: Record<string, unknown>;
+        switch (fn.resourceType) {
+          case 'DESTINATION':
+            instance = { ...(await client.createDestination(targetValue, fn.catalogId as string, instanceName, settings, enabled)) };
+            break;
+          case 'SOURCE':
+            instance = { ...(await client.createSource(targetValue, instanceName, fn.catalogId as string, settings, enabled)) };
+            break;
+          case 'INSERT_DESTINATION':
+            instance = { ...(await client.createInsertFunctionInstance(functionId, targetValue, instanceName, settings, enabled)) };
+            break;
+        }
+        if (isSchema(instance.settings)) {
+          instance.settings = redactFunctionSettings(declared, instance.settings);
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                { success: true, message: `Function instance created as a ${resourceType}`, instance },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Test Function
+  // ===========================================================================
+  server.tool(
+    'segment_test_function',
+    `Run a function's code against sample events in a sandbox, without deploying it.
+
+The code runs in an isolated Worker with no network access that emulates the Segment Functions
+runtime: events are dispatched to onTrack, onIdentify, onPage, onScreen, onGroup, onAlias or
+onDelete (or onBatch with batch: true), source functions get each sample as a Request in
+onRequest, handlers receive the settings object, fetch returns the stubbed responses, and
+Segment.track/identify/... calls, EventNotSupported, InvalidEventPayload, ValidationError,
+RetryError and DropEvent behave as in Segment. Requires a Worker Loader binding (LOADER).
+
+Args:
+  - functionId: Function whose saved code to test (or pass code)
+  - code: Function code to test instead of a saved function
+  - resourceType: DESTINATION, INSERT_DESTINATION or SOURCE (default: the function's type, or DESTINATION)
+  - events: Sample Segment events, or requests ({ body, headers, url, method }) for source functions (required)
+  - settings: Settings object passed to the handlers
+  - fetchResponses: Stubbed fetch responses ({ url substring, method, status, headers, body }); unmatched
+    calls get a 200 with an empty JSON object
+  - batch: Call onBatch once with all events (default: false)
+  - timeoutMs: Time limit per handler call in milliseconds (default: 5000)
+
+Returns:
+  One result per handler call with its output or thrown error, console logs, fetch calls and,
+  for source functions, the messages emitted through Segment.`,
+    {
+      functionId: z.string().optional().describe('Function ID'),
+      code: z.string().optional().describe('Function code to test'),
+      resourceType: z.enum(['DESTINATION', 'INSERT_DESTINATION', 'SOURCE']).optional(),
+      events: z.array(z.record(z.string(), z.unknown())).min(1).describe('Sample events or requests'),
+      settings: z.record(z.string(), z.unknown()).optional().describe('Function settings'),
+      fetchResponses: z
+        .array(
+          z.object({
+            url: z.string().describe('Substring of the request URL to match'),
+            method: z.string().optional(),
+            status: z.number().int().min(200).max(599).optional(),
+            headers: z.record(z.string(), z.string()).optional(),
+            body: z.unknown().optional(),
+          })
+        )
+        .optional()
+        .describe('Stubbed fetch responses'),
+      batch: z.boolean().default(false).describe('Call onBatch with all events'),
+      timeoutMs: z.number().int().min(1).max(30000).default(5000).describe('Time limit per handler call'),
+    },
+    async ({ functionId, code, resourceType, events, settings, fetchResponses, batch, timeoutMs }) => {
+      try {
+        if (!loader) {
+          throw new SegmentApiError(
+            'Function testing is not enabled on this server. Add a Worker Loader binding named LOADER.',
+            501,
+            'FUNCTION_TESTING_DISABLED'
+          );
+        }
+        if (!functionId && code === undefined) {
+          throw new ValidationError('Provide functionId or code', { functionId: ['Required when code is not given'] });
+        }
+
+        const fn = code === undefined && functionId ? await client.getFunction(functionId) : undefined;
+        const results = await runFunctionTest(loader, code ?? fn?.code ?? '', {
+          resourceType: resourceType ?? fn?.resourceType ?? 'DESTINATION',
+          events,
+          settings,
+          fetchResponses,
+          batch,
+          timeoutMs,
+        });
+        const failed = results.filter((result) => result.error).length;
+
+        return formatResponse(
+          {
+            success: true,
+            message: `${results.length - failed} of ${results.length} handler call${results.length === 1 ? '' : 's'} succeeded`,
+            results,
+          },
+          'json',
+          'function-test',
+          config.characterLimit
+        );
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
 }
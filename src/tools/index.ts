@@ -9,3 +9,4 @@ export { registerEngageTools } from './engage.js';
 export { registerAdminTools } from './admin.js';
 export { registerCatalogTools } from './catalog.js';
 export { registerReverseETLTools } from './reverse-etl.js';
+export { registerWorkspaceConfigTools } from './workspace-config.js';
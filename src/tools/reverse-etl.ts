@@ -7,12 +7,14 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { SegmentClient } from '../client.js';
+import type { ToolConfig } from '../types/env.js';
+import { formatDryRun, planChange, planCreate, planDelete, planUpdate } from '../utils/dry-run.js';
 import { formatError, formatResponse } from '../utils/formatters.js';
 
 /**
  * Register all Reverse ETL tools
  */
-export function registerReverseETLTools(server: McpServer, client: SegmentClient): void {
+export function registerReverseETLTools(server: McpServer, client: SegmentClient, config: ToolConfig): void {
   // ===========================================================================
   // List Reverse ETL Models
   // ===========================================================================
@@ -23,21 +25,28 @@ export function registerReverseETLTools(server: McpServer, client: SegmentClient
 Reverse ETL models sync data from warehouses back to destinations.
 
 Args:
-  - count: Number of models to return (default: 20)
+  - count: Number of models to return (default: ${config.defaultPageSize}, max: ${config.maxPageSize})
   - cursor: Pagination cursor
+  - all: Fetch every page by following pagination cursors (default: false)
+  - maxItems: Stop after collecting this many items across pages
   - format: Response format ('json' or 'markdown')
 
 Returns:
   Paginated list of Reverse ETL models.`,
     {
-      count: z.number().int().min(1).max(100).default(20),
+      count: z.number().int().min(1).max(config.maxPageSize).default(config.defaultPageSize),
       cursor: z.string().optional(),
+      all: z.boolean().default(false).describe('Fetch every page by following pagination cursors'),
+      maxItems: z.number().int().min(1).optional().describe('Stop after collecting this many items across pages'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ count, cursor, format }) => {
+    async ({ count, cursor, all, maxItems, format }) => {
       try {
-        const result = await client.listReverseETLModels({ count, cursor });
-        return formatResponse(result, format, 'reverse-etl-models');
+        const result =
+          all || maxItems
+            ? await client.listAll((page) => client.listReverseETLModels(page), { count, cursor, maxItems })
+            : await client.listReverseETLModels({ count, cursor });
+        return formatResponse(result, format, 'reverse-etl-models', config.characterLimit);
       } catch (error) {
         return formatError(error);
       }
@@ -64,7 +73,7 @@ Returns:
     async ({ modelId, format }) => {
       try {
         const model = await client.getReverseETLModel(modelId);
-        return formatResponse(model, format, 'reverse-etl-model');
+        return formatResponse(model, format, 'reverse-etl-model', config.characterLimit);
       } catch (error) {
         return formatError(error);
       }
@@ -87,6 +96,7 @@ Args:
   - enabled: Whether enabled (default: true)
   - scheduleStrategy: Schedule strategy (e.g., 'PERIODIC')
   - scheduleConfig: Schedule configuration (e.g., { intervalMinutes: 60 })
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
 
 Returns:
   The created Reverse ETL model.`,
@@ -99,9 +109,25 @@ Returns:
       enabled: z.boolean().default(true),
       scheduleStrategy: z.string().optional(),
       scheduleConfig: z.record(z.string(), z.unknown()).optional(),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ sourceId, name, query, queryIdentifierColumn, description, enabled, scheduleStrategy, scheduleConfig }) => {
+    async ({ sourceId, name, query, queryIdentifierColumn, description, enabled, scheduleStrategy, scheduleConfig, dryRun }) => {
       try {
+        if (dryRun) {
+          return formatDryRun(
+            planCreate('reverse ETL model', {
+              sourceId,
+              name,
+              query,
+              queryIdentifierColumn,
+              description,
+              enabled,
+              scheduleStrategy,
+              scheduleConfig,
+            })
+          );
+        }
+
         const model = await client.createReverseETLModel(
           sourceId,
           name,
@@ -141,6 +167,7 @@ Args:
   - enabled: Enable or disable
   - scheduleStrategy: New schedule strategy
   - scheduleConfig: New schedule configuration
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
 
 Returns:
   The updated Reverse ETL model.`,
@@ -152,9 +179,24 @@ Returns:
       enabled: z.boolean().optional(),
       scheduleStrategy: z.string().optional(),
       scheduleConfig: z.record(z.string(), z.unknown()).optional(),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ modelId, name, query, description, enabled, scheduleStrategy, scheduleConfig }) => {
+    async ({ modelId, name, query, description, enabled, scheduleStrategy, scheduleConfig, dryRun }) => {
       try {
+        if (dryRun) {
+          const before = await client.getReverseETLModel(modelId);
+          return formatDryRun(
+            planUpdate('reverse ETL model', modelId, before, {
+              name,
+              query,
+              description,
+              enabled,
+              scheduleStrategy,
+              scheduleConfig,
+            })
+          );
+        }
+
         const model = await client.updateReverseETLModel(
           modelId,
           name,
@@ -189,14 +231,21 @@ WARNING: This action is irreversible.
 
 Args:
   - modelId: The model ID (required)
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
 
 Returns:
   Confirmation of deletion.`,
     {
       modelId: z.string().describe('Model ID'),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ modelId }) => {
+    async ({ modelId, dryRun }) => {
       try {
+        if (dryRun) {
+          const before = await client.getReverseETLModel(modelId);
+          return formatDryRun(planDelete('reverse ETL model', modelId, before));
+        }
+
         await client.deleteReverseETLModel(modelId);
         return {
           content: [
@@ -222,15 +271,31 @@ Returns:
 Args:
   - modelId: The model ID (required)
   - subscriptionId: The subscription ID (required)
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
 
 Returns:
   Confirmation that sync was triggered.`,
     {
       modelId: z.string().describe('Model ID'),
       subscriptionId: z.string().describe('Subscription ID'),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ modelId, subscriptionId }) => {
+    async ({ modelId, subscriptionId, dryRun }) => {
       try {
+        if (dryRun) {
+          const model = await client.getReverseETLModel(modelId);
+          return formatDryRun(
+            planChange(
+              'trigger',
+              'reverse ETL model',
+              modelId,
+              model,
+              model,
+              `Would trigger a sync of model "${model.name}" for subscription ${subscriptionId}. No changes were applied.`
+            )
+          );
+        }
+
         await client.triggerReverseETLSync(modelId, subscriptionId);
         return {
           content: [
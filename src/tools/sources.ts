@@ -7,12 +7,14 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { SegmentClient } from '../client.js';
+import type { ToolConfig } from '../types/env.js';
+import { formatDryRun, planCreate, planDelete, planUpdate } from '../utils/dry-run.js';
 import { formatError, formatResponse } from '../utils/formatters.js';
 
 /**
  * Register all Sources tools
  */
-export function registerSourcesTools(server: McpServer, client: SegmentClient): void {
+export function registerSourcesTools(server: McpServer, client: SegmentClient, config: ToolConfig): void {
   // ===========================================================================
   // List Sources
   // ===========================================================================
@@ -23,21 +25,28 @@ export function registerSourcesTools(server: McpServer, client: SegmentClient):
 Returns a paginated list of sources. Use the cursor from the response to fetch the next page.
 
 Args:
-  - count: Number of sources to return (default: 20)
+  - count: Number of sources to return (default: ${config.defaultPageSize}, max: ${config.maxPageSize})
   - cursor: Pagination cursor from previous response
+  - all: Fetch every page by following pagination cursors (default: false)
+  - maxItems: Stop after collecting this many items across pages
   - format: Response format ('json' or 'markdown')
 
 Returns:
   Paginated list of sources with their IDs, names, slugs, and enabled status.`,
     {
-      count: z.number().int().min(1).max(100).default(20).describe('Number of sources to return'),
+      count: z.number().int().min(1).max(config.maxPageSize).default(config.defaultPageSize).describe('Number of sources to return'),
       cursor: z.string().optional().describe('Pagination cursor from previous response'),
+      all: z.boolean().default(false).describe('Fetch every page by following pagination cursors'),
+      maxItems: z.number().int().min(1).optional().describe('Stop after collecting this many items across pages'),
       format: z.enum(['json', 'markdown']).default('json').describe('Response format'),
     },
-    async ({ count, cursor, format }) => {
+    async ({ count, cursor, all, maxItems, format }) => {
       try {
-        const result = await client.listSources({ count, cursor });
-        return formatResponse(result, format, 'sources');
+        const result =
+          all || maxItems
+            ? await client.listAll((page) => client.listSources(page), { count, cursor, maxItems })
+            : await client.listSources({ count, cursor });
+        return formatResponse(result, format, 'sources', config.characterLimit);
       } catch (error) {
         return formatError(error);
       }
@@ -64,7 +73,7 @@ Returns:
     async ({ sourceId, format }) => {
       try {
         const source = await client.getSource(sourceId);
-        return formatResponse(source, format, 'source');
+        return formatResponse(source, format, 'source', config.characterLimit);
       } catch (error) {
         return formatError(error);
       }
@@ -82,6 +91,7 @@ Args:
   - slug: Unique slug for the source (required)
   - name: Display name for the source (required)
   - catalogId: The source catalog ID (use segment_get_sources_catalog to find IDs)
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
 
 Returns:
   The created source object.`,
@@ -89,9 +99,14 @@ Returns:
       slug: z.string().describe('Unique slug for the source'),
       name: z.string().describe('Display name for the source'),
       catalogId: z.string().describe('Source catalog ID (e.g., catalog/sources/javascript)'),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ slug, name, catalogId }) => {
+    async ({ slug, name, catalogId, dryRun }) => {
       try {
+        if (dryRun) {
+          return formatDryRun(planCreate('source', { slug, name, metadataId: catalogId }));
+        }
+
         const source = await client.createSource(slug, name, catalogId);
         return {
           content: [
@@ -118,6 +133,7 @@ Args:
   - sourceId: The source ID to update (required)
   - name: New display name
   - enabled: Enable or disable the source
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
 
 Returns:
   The updated source object.`,
@@ -125,9 +141,15 @@ Returns:
       sourceId: z.string().describe('Source ID to update'),
       name: z.string().optional().describe('New display name'),
       enabled: z.boolean().optional().describe('Enable or disable the source'),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ sourceId, name, enabled }) => {
+    async ({ sourceId, name, enabled, dryRun }) => {
       try {
+        if (dryRun) {
+          const before = await client.getSource(sourceId);
+          return formatDryRun(planUpdate('source', sourceId, before, { name, enabled }));
+        }
+
         const source = await client.updateSource(sourceId, name, enabled);
         return {
           content: [
@@ -154,14 +176,21 @@ WARNING: This action is irreversible. All data associated with the source will b
 
 Args:
   - sourceId: The source ID to delete (required)
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
 
 Returns:
   Confirmation of deletion.`,
     {
       sourceId: z.string().describe('Source ID to delete'),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ sourceId }) => {
+    async ({ sourceId, dryRun }) => {
       try {
+        if (dryRun) {
+          const before = await client.getSource(sourceId);
+          return formatDryRun(planDelete('source', sourceId, before));
+        }
+
         await client.deleteSource(sourceId);
         return {
           content: [
@@ -221,15 +250,22 @@ Returns:
 Args:
   - sourceId: The source ID (required)
   - settings: Schema settings object
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
 
 Returns:
   Updated schema settings.`,
     {
       sourceId: z.string().describe('Source ID'),
       settings: z.record(z.string(), z.unknown()).describe('Schema settings to update'),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ sourceId, settings }) => {
+    async ({ sourceId, settings, dryRun }) => {
       try {
+        if (dryRun) {
+          const before = await client.getSourceSchemaSettings(sourceId);
+          return formatDryRun(planUpdate('source schema settings', sourceId, before, settings as Record<string, unknown>));
+        }
+
         const result = await client.updateSourceSchemaSettings(sourceId, settings as Record<string, unknown>);
         return {
           content: [
@@ -255,6 +291,7 @@ Returns:
 Args:
   - sourceId: The source ID (required)
   - labels: Array of {key, value} label objects
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
 
 Returns:
   The updated source object.`,
@@ -264,9 +301,17 @@ Returns:
         key: z.string(),
         value: z.string(),
       })).describe('Labels to add'),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ sourceId, labels }) => {
+    async ({ sourceId, labels, dryRun }) => {
       try {
+        if (dryRun) {
+          const before = await client.getSource(sourceId);
+          const current = before.labels ?? [];
+          const added = labels.filter((label) => !current.some((existing) => existing.key === label.key && existing.value === label.value));
+          return formatDryRun(planUpdate('source', sourceId, before, { labels: [...current, ...added] }));
+        }
+
         const source = await client.addLabelsToSource(sourceId, labels);
         return {
           content: [
@@ -291,18 +336,29 @@ Returns:
 
 Args:
   - sourceId: The source ID (required)
+  - count: Number to return (default: ${config.defaultPageSize}, max: ${config.maxPageSize})
+  - cursor: Pagination cursor
+  - all: Fetch every page by following pagination cursors (default: false)
+  - maxItems: Stop after collecting this many items across pages
   - format: Response format ('json' or 'markdown')
 
 Returns:
-  List of destinations connected to the source.`,
+  Paginated list of destinations connected to the source.`,
     {
       sourceId: z.string().describe('Source ID'),
+      count: z.number().int().min(1).max(config.maxPageSize).default(config.defaultPageSize),
+      cursor: z.string().optional(),
+      all: z.boolean().default(false).describe('Fetch every page by following pagination cursors'),
+      maxItems: z.number().int().min(1).optional().describe('Stop after collecting this many items across pages'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ sourceId, format }) => {
+    async ({ sourceId, count, cursor, all, maxItems, format }) => {
       try {
-        const result = await client.listConnectedDestinationsFromSource(sourceId);
-        return formatResponse(result, format, 'destinations');
+        const result =
+          all || maxItems
+            ? await client.listAll((page) => client.listConnectedDestinationsFromSource(sourceId, page), { count, cursor, maxItems })
+            : await client.listConnectedDestinationsFromSource(sourceId, { count, cursor });
+        return formatResponse(result, format, 'destinations', config.characterLimit);
       } catch (error) {
         return formatError(error);
       }
@@ -318,18 +374,29 @@ Returns:
 
 Args:
   - sourceId: The source ID (required)
+  - count: Number to return (default: ${config.defaultPageSize}, max: ${config.maxPageSize})
+  - cursor: Pagination cursor
+  - all: Fetch every page by following pagination cursors (default: false)
+  - maxItems: Stop after collecting this many items across pages
   - format: Response format ('json' or 'markdown')
 
 Returns:
-  List of warehouses connected to the source.`,
+  Paginated list of warehouses connected to the source.`,
     {
       sourceId: z.string().describe('Source ID'),
+      count: z.number().int().min(1).max(config.maxPageSize).default(config.defaultPageSize),
+      cursor: z.string().optional(),
+      all: z.boolean().default(false).describe('Fetch every page by following pagination cursors'),
+      maxItems: z.number().int().min(1).optional().describe('Stop after collecting this many items across pages'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ sourceId, format }) => {
+    async ({ sourceId, count, cursor, all, maxItems, format }) => {
       try {
-        const result = await client.listConnectedWarehousesFromSource(sourceId);
-        return formatResponse(result, format, 'warehouses');
+        const result =
+          all || maxItems
+            ? await client.listAll((page) => client.listConnectedWarehousesFromSource(sourceId, page), { count, cursor, maxItems })
+            : await client.listConnectedWarehousesFromSource(sourceId, { count, cursor });
+        return formatResponse(result, format, 'warehouses', config.characterLimit);
       } catch (error) {
         return formatError(error);
       }
@@ -347,14 +414,23 @@ Write keys are used to authenticate tracking API requests.
 
 Args:
   - sourceId: The source ID (required)
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
 
 Returns:
   The new write key.`,
     {
       sourceId: z.string().describe('Source ID'),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ sourceId }) => {
+    async ({ sourceId, dryRun }) => {
       try {
+        if (dryRun) {
+          const before = await client.getSource(sourceId);
+          return formatDryRun(
+            planUpdate('source', sourceId, before, { writeKeys: [...before.writeKeys, '<generated on apply>'] })
+          );
+        }
+
         const result = await client.createWriteKeyForSource(sourceId);
         return {
           content: [
@@ -382,15 +458,24 @@ WARNING: This will invalidate the write key and any systems using it will stop w
 Args:
   - sourceId: The source ID (required)
   - writeKey: The write key to remove (required)
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
 
 Returns:
   Confirmation of removal.`,
     {
       sourceId: z.string().describe('Source ID'),
       writeKey: z.string().describe('Write key to remove'),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ sourceId, writeKey }) => {
+    async ({ sourceId, writeKey, dryRun }) => {
       try {
+        if (dryRun) {
+          const before = await client.getSource(sourceId);
+          return formatDryRun(
+            planUpdate('source', sourceId, before, { writeKeys: before.writeKeys.filter((key) => key !== writeKey) })
+          );
+        }
+
         await client.removeWriteKeyFromSource(sourceId, writeKey);
         return {
           content: [
@@ -6,13 +6,80 @@
 
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
-import type { SegmentClient } from '../client.js';
-import { formatError, formatResponse } from '../utils/formatters.js';
+import { createSegmentClient, isSegmentApiUrl, type SegmentClient } from '../client.js';
+import type { ToolConfig } from '../types/env.js';
+import { formatDryRun, planChange, planCreate, planDelete, planUpdate } from '../utils/dry-run.js';
+import { SegmentApiError, ValidationError } from '../utils/errors.js';
+import { formatError, formatResponse, formatText } from '../utils/formatters.js';
+import { type RuleHistory, recordRuleChange, updateRulesWithHistory } from '../utils/rule-history.js';
+import { checkRuleCompatibility, diffRuleSets, type RuleCompatibilityReport, ruleId } from '../utils/schema-compatibility.js';
+import { inferTrackingPlanRules } from '../utils/schema-inference.js';
+import { exportTrackingPlanRules, TRACKING_PLAN_EXPORT_FORMATS } from '../utils/tracking-plan-export.js';
+import {
+  type ImportedRule,
+  importRulesFromAvo,
+  importRulesFromCsv,
+  importRulesFromJsonSchemaBundle,
+  TRACKING_PLAN_IMPORT_FORMATS,
+} from '../utils/tracking-plan-import.js';
+import {
+  EVENT_NAMING_CONVENTIONS,
+  LINT_SEVERITIES,
+  lintTrackingPlanRules,
+  PROPERTY_NAMING_CONVENTIONS,
+} from '../utils/tracking-plan-lint.js';
+import { planRulePromotion } from '../utils/tracking-plan-promotion.js';
+import { generateTrackingTypes, TRACKING_TYPE_LANGUAGES } from '../utils/tracking-types.js';
+
+/**
+ * A rule as accepted by the update and compatibility tools
+ */
+const ruleInputSchema = z.object({
+  key: z.string().describe('Event name or trait key'),
+  type: z.enum(['COMMON', 'GROUP', 'IDENTIFY', 'PAGE', 'SCREEN', 'TRACK']),
+  jsonSchema: z.record(z.string(), z.unknown()).describe('JSON Schema for validation'),
+  version: z.number().optional(),
+});
+
+/**
+ * Describe the breaking changes of a compatibility report, keyed by rule
+ */
+function breakingChangeDetails(report: RuleCompatibilityReport): Record<string, string[]> {
+  return Object.fromEntries(
+    report.changes
+      .filter((change) => change.breaking)
+      .map((change) => [
+        change.rule,
+        change.status === 'removed'
+          ? ['Rule was removed']
+          : change.schemaChanges.filter((schemaChange) => schemaChange.breaking).map((schemaChange) => `${schemaChange.path}: ${schemaChange.message}`),
+      ])
+  );
+}
+
+/**
+ * Get the rule history, failing when the deployment has no history storage
+ */
+function requireRuleHistory(history: RuleHistory | undefined): RuleHistory {
+  if (!history) {
+    throw new SegmentApiError(
+      'Rule history is not enabled on this server. Bind a KV namespace as RULE_HISTORY_KV to record rule versions.',
+      501,
+      'RULE_HISTORY_DISABLED'
+    );
+  }
+  return history;
+}
 
 /**
  * Register all Tracking Plans tools
  */
-export function registerTrackingPlansTools(server: McpServer, client: SegmentClient): void {
+export function registerTrackingPlansTools(
+  server: McpServer,
+  client: SegmentClient,
+  config: ToolConfig,
+  history?: RuleHistory
+): void {
   // ===========================================================================
   // List Tracking Plans
   // ===========================================================================
@@ -23,21 +90,28 @@ export function registerTrackingPlansTools(server: McpServer, client: SegmentCli
 Tracking plans define the expected schema for your tracking data.
 
 Args:
-  - count: Number of tracking plans to return (default: 20)
+  - count: Number of tracking plans to return (default: ${config.defaultPageSize}, max: ${config.maxPageSize})
   - cursor: Pagination cursor from previous response
+  - all: Fetch every page by following pagination cursors (default: false)
+  - maxItems: Stop after collecting this many items across pages
   - format: Response format ('json' or 'markdown')
 
 Returns:
   Paginated list of tracking plans.`,
     {
-      count: z.number().int().min(1).max(100).default(20).describe('Number to return'),
+      count: z.number().int().min(1).max(config.maxPageSize).default(config.defaultPageSize).describe('Number to return'),
       cursor: z.string().optional().describe('Pagination cursor'),
+      all: z.boolean().default(false).describe('Fetch every page by following pagination cursors'),
+      maxItems: z.number().int().min(1).optional().describe('Stop after collecting this many items across pages'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ count, cursor, format }) => {
+    async ({ count, cursor, all, maxItems, format }) => {
       try {
-        const result = await client.listTrackingPlans({ count, cursor });
-        return formatResponse(result, format, 'tracking-plans');
+        const result =
+          all || maxItems
+            ? await client.listAll((page) => client.listTrackingPlans(page), { count, cursor, maxItems })
+            : await client.listTrackingPlans({ count, cursor });
+        return formatResponse(result, format, 'tracking-plans', config.characterLimit);
       } catch (error) {
         return formatError(error);
       }
@@ -64,7 +138,7 @@ Returns:
     async ({ trackingPlanId, format }) => {
       try {
         const trackingPlan = await client.getTrackingPlan(trackingPlanId);
-        return formatResponse(trackingPlan, format, 'tracking-plan');
+        return formatResponse(trackingPlan, format, 'tracking-plan', config.characterLimit);
       } catch (error) {
         return formatError(error);
       }
@@ -82,6 +156,7 @@ Args:
   - name: The tracking plan name (required)
   - type: Type of tracking plan (default: 'LIVE')
   - description: Description of the tracking plan
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
 
 Returns:
   The created tracking plan.`,
@@ -89,9 +164,14 @@ Returns:
       name: z.string().describe('Tracking plan name'),
       type: z.enum(['ENGAGE', 'LIVE', 'PROPERTY_LIBRARY', 'RULE_LIBRARY', 'TEMPLATE']).default('LIVE'),
       description: z.string().optional().describe('Description'),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ name, type, description }) => {
+    async ({ name, type, description, dryRun }) => {
       try {
+        if (dryRun) {
+          return formatDryRun(planCreate('tracking plan', { name, type, description }));
+        }
+
         const trackingPlan = await client.createTrackingPlan(name, type, description);
         return {
           content: [
@@ -118,6 +198,7 @@ Args:
   - trackingPlanId: The tracking plan ID (required)
   - name: New name
   - description: New description
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
 
 Returns:
   The updated tracking plan.`,
@@ -125,9 +206,15 @@ Returns:
       trackingPlanId: z.string().describe('Tracking plan ID'),
       name: z.string().optional().describe('New name'),
       description: z.string().optional().describe('New description'),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ trackingPlanId, name, description }) => {
+    async ({ trackingPlanId, name, description, dryRun }) => {
       try {
+        if (dryRun) {
+          const before = await client.getTrackingPlan(trackingPlanId);
+          return formatDryRun(planUpdate('tracking plan', trackingPlanId, before, { name, description }));
+        }
+
         const trackingPlan = await client.updateTrackingPlan(trackingPlanId, name, description);
         return {
           content: [
@@ -154,14 +241,21 @@ WARNING: This action is irreversible.
 
 Args:
   - trackingPlanId: The tracking plan ID (required)
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
 
 Returns:
   Confirmation of deletion.`,
     {
       trackingPlanId: z.string().describe('Tracking plan ID'),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ trackingPlanId }) => {
+    async ({ trackingPlanId, dryRun }) => {
       try {
+        if (dryRun) {
+          const before = await client.getTrackingPlan(trackingPlanId);
+          return formatDryRun(planDelete('tracking plan', trackingPlanId, before));
+        }
+
         await client.deleteTrackingPlan(trackingPlanId);
         return {
           content: [
@@ -186,20 +280,43 @@ Returns:
 
 Rules define the expected schema for events, traits, and properties.
 
+Export formats fetch every rule and render it for use outside Segment:
+  - csv: Flat data dictionary, one row per event property (type, required, enum values as a JSON array, description)
+  - dictionary: Markdown data dictionary with a section per event
+  - json_schema: JSON Schema bundle keyed by file path (track/Order Completed.json, identify.json)
+The csv and json_schema layouts can be re-imported with segment_import_tracking_plan.
+
 Args:
   - trackingPlanId: The tracking plan ID (required)
-  - format: Response format ('json' or 'markdown')
+  - count: Number to return (default: ${config.defaultPageSize}, max: ${config.maxPageSize}; json and markdown only)
+  - cursor: Pagination cursor
+  - all: Fetch every page by following pagination cursors (default: false)
+  - maxItems: Stop after collecting this many items across pages
+  - format: Response format ('json', 'markdown', 'csv', 'dictionary' or 'json_schema')
 
 Returns:
-  List of rules in the tracking plan.`,
+  Paginated list of rules in the tracking plan (export formats always include every rule).`,
     {
       trackingPlanId: z.string().describe('Tracking plan ID'),
-      format: z.enum(['json', 'markdown']).default('json'),
+      count: z.number().int().min(1).max(config.maxPageSize).default(config.defaultPageSize),
+      cursor: z.string().optional(),
+      all: z.boolean().default(false).describe('Fetch every page by following pagination cursors'),
+      maxItems: z.number().int().min(1).optional().describe('Stop after collecting this many items across pages'),
+      format: z.enum(['json', 'markdown', ...TRACKING_PLAN_EXPORT_FORMATS]).default('json'),
     },
-    async ({ trackingPlanId, format }) => {
+    async ({ trackingPlanId, count, cursor, all, maxItems, format }) => {
       try {
-        const result = await client.listTrackingPlanRules(trackingPlanId);
-        return formatResponse(result, format, 'rules');
+        if (format === 'json' || format === 'markdown') {
+          const result =
+            all || maxItems
+              ? await client.listAll((page) => client.listTrackingPlanRules(trackingPlanId, page), { count, cursor, maxItems })
+              : await client.listTrackingPlanRules(trackingPlanId, { count, cursor });
+          return formatResponse(result, format, 'rules', config.characterLimit);
+        }
+
+        const trackingPlan = await client.getTrackingPlan(trackingPlanId);
+        const rules = await client.listAll((page) => client.listTrackingPlanRules(trackingPlanId, page));
+        return formatText(exportTrackingPlanRules(rules.data, format, trackingPlan.name), config.characterLimit);
       } catch (error) {
         return formatError(error);
       }
@@ -213,29 +330,56 @@ Returns:
     'segment_update_tracking_plan_rules',
     `Update rules in a tracking plan.
 
+When rule history is enabled, the resulting rule set is recorded as a new version with who made
+the change and why; see segment_list_tracking_plan_rule_history.
+
 Args:
   - trackingPlanId: The tracking plan ID (required)
   - rules: Array of rule objects with key, type, and jsonSchema
+  - changedBy: Person or system making the change, recorded in the rule history
+  - reason: Why the rules changed, recorded in the rule history
+  - failOnBreaking: Refuse to update when any change is breaking; see
+    segment_check_tracking_plan_compatibility (default: false)
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
 
 Returns:
-  Confirmation of update.`,
+  Confirmation of update, with the recorded history version.`,
     {
       trackingPlanId: z.string().describe('Tracking plan ID'),
-      rules: z.array(z.object({
-        key: z.string().describe('Event name or trait key'),
-        type: z.enum(['COMMON', 'GROUP', 'IDENTIFY', 'PAGE', 'SCREEN', 'TRACK']),
-        jsonSchema: z.record(z.string(), z.unknown()).describe('JSON Schema for validation'),
-        version: z.number().optional(),
-      })).describe('Rules to update'),
+      rules: z.array(ruleInputSchema).describe('Rules to update'),
+      changedBy: z.string().optional().describe('Who is making the change'),
+      reason: z.string().optional().describe('Why the rules changed'),
+      failOnBreaking: z.boolean().default(false).describe('Refuse to update when any change is breaking'),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ trackingPlanId, rules }) => {
+    async ({ trackingPlanId, rules, changedBy, reason, failOnBreaking, dryRun }) => {
       try {
-        await client.updateTrackingPlanRules(trackingPlanId, rules as never);
+        const listRules = () => client.listAll((page) => client.listTrackingPlanRules(trackingPlanId, page));
+
+        if (dryRun) {
+          // Rules are upserted by type and key; compare their schemas side by side
+          const current = await listRules();
+          const before = Object.fromEntries(current.data.map((rule) => [`${rule.type}:${rule.key}`, rule.jsonSchema]));
+          const after = { ...before, ...Object.fromEntries(rules.map((rule) => [`${rule.type}:${rule.key}`, rule.jsonSchema])) };
+          return formatDryRun(planChange('update', 'tracking plan rules', trackingPlanId, before, after));
+        }
+
+        if (failOnBreaking) {
+          const report = checkRuleCompatibility((await listRules()).data, rules);
+          if (!report.compatible) {
+            throw new ValidationError(
+              `Update refused: ${report.summary.breaking} rule${report.summary.breaking === 1 ? ' has' : 's have'} breaking changes`,
+              breakingChangeDetails(report)
+            );
+          }
+        }
+
+        const recorded = await updateRulesWithHistory(client, history, trackingPlanId, rules, { action: 'update', changedBy, reason });
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify({ success: true, message: 'Tracking plan rules updated' }, null, 2),
+              text: JSON.stringify({ success: true, message: 'Tracking plan rules updated', ...recorded }, null, 2),
             },
           ],
         };
@@ -245,6 +389,682 @@ Returns:
     }
   );
 
+  // ===========================================================================
+  // Check Tracking Plan Compatibility
+  // ===========================================================================
+  server.tool(
+    'segment_check_tracking_plan_compatibility',
+    `Check proposed tracking plan rules against the current rules without changing anything.
+
+Each added, changed or removed rule is classified as safe or breaking:
+  - Safe: new rules, added optional properties, widened types, added enum values, removed enums
+    and loosened bounds
+  - Breaking: removed rules or properties, newly required properties, properties that are no
+    longer required, narrowed types, removed enum values, tightened patterns, formats or bounds,
+    and disallowing additional properties
+
+Proposed rules are upserted by type and key like segment_update_tracking_plan_rules. Set replace
+to treat them as the complete rule set, so current rules missing from them count as removed.
+
+Args:
+  - trackingPlanId: The tracking plan ID (required)
+  - rules: Proposed rule objects with key, type, and jsonSchema (required)
+  - replace: Treat the rules as the complete new rule set (default: false)
+
+Returns:
+  Whether the change is compatible, counts per status, and every rule change with its schema changes.`,
+    {
+      trackingPlanId: z.string().describe('Tracking plan ID'),
+      rules: z.array(ruleInputSchema).describe('Proposed rules'),
+      replace: z.boolean().default(false).describe('Treat the rules as the complete rule set'),
+    },
+    async ({ trackingPlanId, rules, replace }) => {
+      try {
+        const current = await client.listAll((page) => client.listTrackingPlanRules(trackingPlanId, page));
+        const report = checkRuleCompatibility(current.data, rules, { replace });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: true,
+                  message: report.compatible
+                    ? 'Proposed rules are compatible with the current rules'
+                    : `${report.summary.breaking} rule${report.summary.breaking === 1 ? ' has' : 's have'} breaking changes`,
+                  ...report,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // List Tracking Plan Rule History
+  // ===========================================================================
+  server.tool(
+    'segment_list_tracking_plan_rule_history',
+    `List the recorded versions of a tracking plan's rules, newest first.
+
+Each version records when the rules changed, the action (baseline, update or rollback), who made
+the change and why, a fingerprint of the access token used, and which rules changed. Pass a
+version to get the full rule set recorded for it.
+
+Requires rule history to be enabled (a RULE_HISTORY_KV namespace bound to the server).
+
+Args:
+  - trackingPlanId: The tracking plan ID (required)
+  - version: Return this version with its rules instead of the list
+  - format: Response format ('json' or 'markdown', default: 'json')
+
+Returns:
+  Version summaries, or one version with its rules.`,
+    {
+      trackingPlanId: z.string().describe('Tracking plan ID'),
+      version: z.number().int().min(1).optional().describe('Version to return with its rules'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ trackingPlanId, version, format }) => {
+      try {
+        const ruleHistory = requireRuleHistory(history);
+        if (version !== undefined) {
+          return formatResponse(await ruleHistory.get(trackingPlanId, version), format, 'rule-version', config.characterLimit);
+        }
+        const versions = await ruleHistory.list(trackingPlanId);
+        return formatResponse({ trackingPlanId, versions }, format, 'rule-history', config.characterLimit);
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Diff Tracking Plan Rule Versions
+  // ===========================================================================
+  server.tool(
+    'segment_diff_tracking_plan_rule_versions',
+    `Compare two recorded versions of a tracking plan's rules.
+
+Reports each rule that was added, removed or changed, with field-level schema changes and whether
+each change is breaking. Leave toVersion out to compare against the live rules, which also shows
+changes made outside this server since the last recorded version.
+
+Args:
+  - trackingPlanId: The tracking plan ID (required)
+  - fromVersion: The older version (required)
+  - toVersion: The newer version (default: the live rules)
+
+Returns:
+  Rule-level changes between the two versions.`,
+    {
+      trackingPlanId: z.string().describe('Tracking plan ID'),
+      fromVersion: z.number().int().min(1).describe('Older version'),
+      toVersion: z.number().int().min(1).optional().describe('Newer version (default: live rules)'),
+    },
+    async ({ trackingPlanId, fromVersion, toVersion }) => {
+      try {
+        const ruleHistory = requireRuleHistory(history);
+        const from = await ruleHistory.get(trackingPlanId, fromVersion);
+        const to =
+          toVersion !== undefined
+            ? (await ruleHistory.get(trackingPlanId, toVersion)).rules
+            : (await client.listAll((page) => client.listTrackingPlanRules(trackingPlanId, page))).data;
+        const changes = diffRuleSets(from.rules, to);
+        const breaking = changes.filter((change) => change.breaking).length;
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: true,
+                  message: `${changes.length} rule${changes.length === 1 ? '' : 's'} changed between version ${fromVersion} and ${toVersion ?? 'the live rules'} (${breaking} breaking)`,
+                  fromVersion,
+                  toVersion: toVersion ?? 'live',
+                  changes,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Roll Back Tracking Plan Rules
+  // ===========================================================================
+  server.tool(
+    'segment_rollback_tracking_plan_rules',
+    `Restore a tracking plan's rules to a recorded version.
+
+Rules that differ from the version are overwritten with the recorded schemas, rules missing since
+then are re-created and rules added after it are removed. The rollback is recorded as a new
+version, so it can itself be rolled back.
+
+Args:
+  - trackingPlanId: The tracking plan ID (required)
+  - version: The version to restore (required)
+  - changedBy: Person or system making the change, recorded in the rule history
+  - reason: Why the rules are rolled back, recorded in the rule history
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
+
+Returns:
+  The rules restored and removed, with the recorded history version.`,
+    {
+      trackingPlanId: z.string().describe('Tracking plan ID'),
+      version: z.number().int().min(1).describe('Version to restore'),
+      changedBy: z.string().optional().describe('Who is making the change'),
+      reason: z.string().optional().describe('Why the rules are rolled back'),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
+    },
+    async ({ trackingPlanId, version, changedBy, reason, dryRun }) => {
+      try {
+        const ruleHistory = requireRuleHistory(history);
+        const target = await ruleHistory.get(trackingPlanId, version);
+        const current = (await client.listAll((page) => client.listTrackingPlanRules(trackingPlanId, page))).data;
+
+        const changes = diffRuleSets(current, target.rules);
+        // Relative to the live rules, "removed" rules exist only in the version and must be restored
+        const restoreIds = new Set(changes.filter((change) => change.status !== 'added').map((change) => change.rule));
+        const restore = target.rules.filter((rule) => restoreIds.has(ruleId(rule)));
+        const remove = changes.filter((change) => change.status === 'added');
+
+        if (dryRun) {
+          const before = Object.fromEntries(current.map((rule) => [ruleId(rule), rule.jsonSchema]));
+          const after = Object.fromEntries(target.rules.map((rule) => [ruleId(rule), rule.jsonSchema]));
+          return formatDryRun(planChange('update', 'tracking plan rules', trackingPlanId, before, after));
+        }
+
+        if (restore.length > 0) {
+          await client.updateTrackingPlanRules(
+            trackingPlanId,
+            restore.map(({ type, key, jsonSchema }) => ({ type, key, jsonSchema }))
+          );
+        }
+        if (remove.length > 0) {
+          await client.removeTrackingPlanRules(trackingPlanId, remove);
+        }
+        const recorded =
+          changes.length > 0
+            ? await recordRuleChange(ruleHistory, client, trackingPlanId, current, {
+                action: 'rollback',
+                changedBy,
+                reason,
+                rolledBackTo: version,
+              })
+            : {};
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: true,
+                  message:
+                    changes.length > 0
+                      ? `Rolled back tracking plan rules to version ${version}`
+                      : `Tracking plan rules already match version ${version}`,
+                  restored: restore.map(ruleId),
+                  removed: remove.map((change) => change.rule),
+                  ...recorded,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Import Tracking Plan
+  // ===========================================================================
+  server.tool(
+    'segment_import_tracking_plan',
+    `Import a tracking plan from a spreadsheet, JSON Schema files or an Avo-style export.
+
+Formats:
+  - csv: One row per event property with columns event, property, type, required, description,
+    plus optional enum (a JSON array, or values separated by '|' and read as the property type), rule
+    type (TRACK, IDENTIFY, GROUP, PAGE, SCREEN, COMMON) and event description. Events named identify, group or common map to those rule types.
+    Nested properties use dotted names (product.sku).
+  - json_schema: 'files' maps paths to JSON Schemas. The first directory or the file name picks the
+    rule type (track/Order Completed.json, identify.json); the schema title or file name is the event.
+  - avo: Avo-style JSON with events[].properties[], userProperties and groupProperties.
+
+Rules are upserted into an existing plan (trackingPlanId), or a new plan is created (name).
+
+Args:
+  - format: Import format ('csv', 'json_schema' or 'avo') (required)
+  - content: CSV text or Avo JSON (for csv and avo)
+  - files: Map of file path to JSON Schema (for json_schema)
+  - trackingPlanId: Existing tracking plan to update
+  - name: Name of a new tracking plan to create (when trackingPlanId is not given)
+  - description: Description of the new tracking plan
+  - changedBy: Person or system making the change, recorded in the rule history
+  - reason: Why the rules are imported, recorded in the rule history
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
+
+Returns:
+  The tracking plan and the imported rules, with the recorded history version.`,
+    {
+      format: z.enum(TRACKING_PLAN_IMPORT_FORMATS).describe('Import format'),
+      content: z.string().optional().describe('CSV text or Avo JSON'),
+      files: z
+        .record(z.string(), z.union([z.string(), z.record(z.string(), z.unknown())]))
+        .optional()
+        .describe('JSON Schema files keyed by path'),
+      trackingPlanId: z.string().optional().describe('Existing tracking plan ID'),
+      name: z.string().optional().describe('Name of a new tracking plan'),
+      description: z.string().optional().describe('Description of a new tracking plan'),
+      changedBy: z.string().optional().describe('Who is making the change'),
+      reason: z.string().optional().describe('Why the rules are imported'),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
+    },
+    async ({ format, content, files, trackingPlanId, name, description, changedBy, reason, dryRun }) => {
+      try {
+        if (!trackingPlanId && !name) {
+          throw new ValidationError('Provide trackingPlanId to update a plan or name to create one');
+        }
+
+        let rules: ImportedRule[];
+        if (format === 'json_schema') {
+          if (!files) throw new ValidationError("The json_schema format requires 'files'");
+          rules = importRulesFromJsonSchemaBundle(files);
+        } else {
+          if (!content) throw new ValidationError(`The ${format} format requires 'content'`);
+          rules = format === 'csv' ? importRulesFromCsv(content) : importRulesFromAvo(content);
+        }
+        if (rules.length === 0) {
+          throw new ValidationError('No rules found in the import');
+        }
+
+        if (dryRun) {
+          if (!trackingPlanId) {
+            return formatDryRun(planCreate('tracking plan', { name, type: 'LIVE', description, rules }));
+          }
+          const current = await client.listAll((page) => client.listTrackingPlanRules(trackingPlanId, page));
+          const before = Object.fromEntries(current.data.map((rule) => [ruleId(rule), rule.jsonSchema]));
+          const after = { ...before, ...Object.fromEntries(rules.map((rule) => [ruleId(rule), rule.jsonSchema])) };
+          return formatDryRun(planChange('update', 'tracking plan rules', trackingPlanId, before, after));
+        }
+
+        const trackingPlan = trackingPlanId
+          ? await client.getTrackingPlan(trackingPlanId)
+          : await client.createTrackingPlan(name as string, 'LIVE', description);
+        const recorded = await updateRulesWithHistory(client, history, trackingPlan.id, rules, {
+          action: 'import',
+          changedBy,
+          reason,
+        });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: true,
+                  message: `Imported ${rules.length} rule${rules.length === 1 ? '' : 's'} into tracking plan ${trackingPlan.name}`,
+                  trackingPlan,
+                  rules: rules.map(ruleId),
+                  ...recorded,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Lint Tracking Plan
+  // ===========================================================================
+  server.tool(
+    'segment_lint_tracking_plan',
+    `Check a tracking plan's rules against naming and documentation conventions.
+
+Checks:
+  - event_name (warning): Event names follow the naming convention
+  - property_name (warning): Property and trait names, at any depth, follow the naming convention
+  - property_type_conflict (error): A property has the same type in every event that defines it
+  - missing_description (warning for rules, info for properties): Descriptions are present
+  - unlabeled_pii (error): Properties named like PII (email, phone, ssn, ...) are labelled with
+    "pii": true or a "pii" entry in their labels
+
+Args:
+  - trackingPlanId: The tracking plan ID (required)
+  - eventNaming: 'object_action' ("Order Completed"), 'snake_case', 'camel_case' or 'off' (default: 'object_action')
+  - propertyNaming: 'snake_case', 'camel_case' or 'off' (default: 'snake_case')
+  - descriptions: Require descriptions on 'all' rules and properties, 'events' only, or 'off' (default: 'all')
+  - piiTerms: Name fragments that look like PII; [] disables the check (default: email, phone, ssn, ...)
+  - minSeverity: Lowest severity to report: 'info', 'warning' or 'error' (default: 'info')
+  - format: Response format ('json' or 'markdown', default: 'json')
+
+Returns:
+  Findings with severity, check, rule (TYPE:key), property, message and a suggested name.`,
+    {
+      trackingPlanId: z.string().describe('Tracking plan ID'),
+      eventNaming: z.enum(EVENT_NAMING_CONVENTIONS).default('object_action').describe('Event naming convention'),
+      propertyNaming: z.enum(PROPERTY_NAMING_CONVENTIONS).default('snake_case').describe('Property naming convention'),
+      descriptions: z.enum(['all', 'events', 'off']).default('all').describe('Which descriptions are required'),
+      piiTerms: z.array(z.string()).optional().describe('Name fragments that look like PII'),
+      minSeverity: z.enum(LINT_SEVERITIES).default('info').describe('Lowest severity to report'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ trackingPlanId, eventNaming, propertyNaming, descriptions, piiTerms, minSeverity, format }) => {
+      try {
+        const rules = await client.listAll((page) => client.listTrackingPlanRules(trackingPlanId, page));
+        const findings = lintTrackingPlanRules(rules.data, { eventNaming, propertyNaming, descriptions, piiTerms }).filter(
+          (finding) => LINT_SEVERITIES.indexOf(finding.severity) >= LINT_SEVERITIES.indexOf(minSeverity)
+        );
+        const summary = Object.fromEntries(
+          LINT_SEVERITIES.map((severity) => [severity, findings.filter((finding) => finding.severity === severity).length])
+        );
+
+        return formatResponse(
+          { trackingPlanId, rulesChecked: rules.data.length, summary, findings },
+          format,
+          'lint-report',
+          config.characterLimit
+        );
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Infer Tracking Plan
+  // ===========================================================================
+  server.tool(
+    'segment_infer_tracking_plan',
+    `Infer a draft tracking plan from sample Segment messages.
+
+Takes messages in the same shape as a batch (each with a "type" field) and proposes one rule per
+track event plus identify, group, page and screen rules. Property types, nested objects and array
+items are inferred from the values seen; a property is required when it appears in at least
+requiredThreshold of the samples; low-cardinality strings become enum candidates; ISO timestamps
+and email addresses get a format. Nothing is saved: review the draft, then pass the rules to
+segment_update_tracking_plan_rules.
+
+Args:
+  - messages: Sample messages, e.g. identify/track/page calls (required)
+  - requiredThreshold: Share of samples a property must appear in to be required, 0-1 (default: 1)
+  - maxEnumValues: Most distinct string values to propose as an enum; 0 disables enums (default: 10)
+  - minEnumSamples: Fewest string samples before proposing an enum (default: 5)
+
+Returns:
+  Draft rules with the number of samples each was inferred from.`,
+    {
+      messages: z.array(z.record(z.string(), z.unknown())).min(1).describe('Sample Segment messages'),
+      requiredThreshold: z.number().min(0).max(1).default(1).describe('Share of samples for a property to be required'),
+      maxEnumValues: z.number().int().min(0).default(10).describe('Most distinct values to propose as an enum'),
+      minEnumSamples: z.number().int().min(1).default(5).describe('Fewest samples before proposing an enum'),
+    },
+    async ({ messages, requiredThreshold, maxEnumValues, minEnumSamples }) => {
+      try {
+        const invalid = messages.findIndex((message) => typeof message.type !== 'string');
+        if (invalid >= 0) {
+          throw new ValidationError(`Message ${invalid} has no "type" field`);
+        }
+
+        const inference = inferTrackingPlanRules(messages as { type: string }[], {
+          requiredThreshold,
+          maxEnumValues,
+          minEnumSamples,
+        });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: true,
+                  message: `Inferred ${inference.rules.length} draft rule${inference.rules.length === 1 ? '' : 's'} from ${messages.length} messages`,
+                  ...inference,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Promote Tracking Plan Rules
+  // ===========================================================================
+  server.tool(
+    'segment_promote_tracking_plan_rules',
+    `Promote rules from one tracking plan to another, e.g. staging to production.
+
+Diffs the source plan's rules against the target plan by type, key, version and schema. Each rule
+is reported as new, changed, unchanged or target_only, with breaking schema changes (removed or
+newly required properties, narrowed types, removed enum values) flagged. A rule is in conflict
+when promoting would lose edits made in the target: the target rule has a newer version than the
+source, or its schema has properties the source's lacks.
+
+Without 'approve' nothing is changed. Approved rules are upserted into the target plan; rules
+that only exist in the target are never deleted.
+
+Args:
+  - sourceTrackingPlanId: Plan to promote rules from (required)
+  - targetTrackingPlanId: Plan to promote rules into (required)
+  - sourceAccessToken: Public API token of the workspace that owns the source plan (default: this workspace)
+  - sourceApiUrl: Public API base URL of that workspace; requires sourceAccessToken
+  - approve: Rules to promote, as 'TYPE:key' (e.g. 'TRACK:Order Completed')
+  - overwriteConflicts: Promote approved rules even when they conflict with the target (default: false)
+  - changedBy: Person or system making the change, recorded in the rule history
+  - reason: Why the rules are promoted, recorded in the rule history
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
+
+Returns:
+  The rule comparison, the rules that were promoted or skipped, and the recorded history version.`,
+    {
+      sourceTrackingPlanId: z.string().describe('Source tracking plan ID'),
+      targetTrackingPlanId: z.string().describe('Target tracking plan ID'),
+      sourceAccessToken: z.string().optional().describe('Public API token of the source workspace'),
+      sourceApiUrl: z.string().url().optional().describe('Public API base URL of the source workspace'),
+      approve: z.array(z.string()).optional().describe("Rules to promote, as 'TYPE:key'"),
+      overwriteConflicts: z.boolean().default(false).describe('Promote approved rules that conflict with the target'),
+      changedBy: z.string().optional().describe('Who is making the change'),
+      reason: z.string().optional().describe('Why the rules are promoted'),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
+    },
+    async ({
+      sourceTrackingPlanId,
+      targetTrackingPlanId,
+      sourceAccessToken,
+      sourceApiUrl,
+      approve,
+      overwriteConflicts,
+      changedBy,
+      reason,
+      dryRun,
+    }) => {
+      try {
+        if (sourceApiUrl && !sourceAccessToken) {
+          throw new ValidationError('sourceApiUrl requires sourceAccessToken', {
+            sourceApiUrl: ['Pass the source workspace token with its API URL'],
+          });
+        }
+        if (sourceApiUrl && !isSegmentApiUrl(sourceApiUrl)) {
+          throw new ValidationError('sourceApiUrl must be a Segment Public API URL', {
+            sourceApiUrl: ['Use https://api.segmentapis.com or a regional host such as https://eu1.api.segmentapis.com'],
+          });
+        }
+
+        const sourceClient = sourceAccessToken
+          ? createSegmentClient({ accessToken: sourceAccessToken, publicApiBaseUrl: sourceApiUrl })
+          : client;
+        const sourceRules = await sourceClient.listAll((page) => sourceClient.listTrackingPlanRules(sourceTrackingPlanId, page));
+        const targetRules = await client.listAll((page) => client.listTrackingPlanRules(targetTrackingPlanId, page));
+        const promotions = planRulePromotion(sourceRules.data, targetRules.data);
+
+        const comparison = {
+          summary: {
+            new: promotions.filter((p) => p.status === 'new').length,
+            changed: promotions.filter((p) => p.status === 'changed').length,
+            unchanged: promotions.filter((p) => p.status === 'unchanged').length,
+            targetOnly: promotions.filter((p) => p.status === 'target_only').length,
+            breaking: promotions.filter((p) => p.breaking).length,
+            conflicts: promotions.filter((p) => p.conflict).length,
+          },
+          rules: promotions.filter((p) => p.status !== 'unchanged'),
+        };
+
+        if (!approve || approve.length === 0) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(
+                  {
+                    success: true,
+                    message: "No rules approved; nothing was promoted. Pass 'approve' with the rules to promote.",
+                    ...comparison,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+
+        const byId = new Map(promotions.map((p) => [p.rule, p]));
+        const unknown = approve.filter((id) => {
+          const status = byId.get(id)?.status;
+          return !status || status === 'target_only';
+        });
+        if (unknown.length > 0) {
+          throw new ValidationError('Approved rules must exist in the source tracking plan', { approve: unknown });
+        }
+
+        const skipped = approve
+          .map((id) => byId.get(id))
+          .filter((p) => p !== undefined)
+          .filter((p) => p.status === 'unchanged' || (p.conflict && !overwriteConflicts))
+          .map((p) => ({ rule: p.rule, reason: p.status === 'unchanged' ? 'unchanged' : 'conflict' }));
+        const skippedIds = new Set(skipped.map((s) => s.rule));
+        const rules = sourceRules.data
+          .filter((rule) => approve.includes(ruleId(rule)) && !skippedIds.has(ruleId(rule)))
+          .map((rule) => ({ key: rule.key, type: rule.type, jsonSchema: rule.jsonSchema, version: rule.version }));
+
+        if (dryRun) {
+          const before = Object.fromEntries(targetRules.data.map((rule) => [ruleId(rule), rule.jsonSchema]));
+          const after = { ...before, ...Object.fromEntries(rules.map((rule) => [ruleId(rule), rule.jsonSchema])) };
+          return formatDryRun(planChange('update', 'tracking plan rules', targetTrackingPlanId, before, after));
+        }
+
+        const recorded =
+          rules.length > 0
+            ? await updateRulesWithHistory(client, history, targetTrackingPlanId, rules, { action: 'promote', changedBy, reason })
+            : {};
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: true,
+                  message: `Promoted ${rules.length} rule${rules.length === 1 ? '' : 's'} to tracking plan ${targetTrackingPlanId}`,
+                  promoted: rules.map(ruleId),
+                  skipped,
+                  ...comparison,
+                  ...recorded,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Generate Tracking Types
+  // ===========================================================================
+  server.tool(
+    'segment_generate_tracking_types',
+    `Generate typed tracking code from a tracking plan's rules, Typewriter-style.
+
+Emits one interface per event (and for identify/group traits) from the rules' JSON Schemas,
+plus wrapper functions such as orderCompleted(analytics, properties) that call track,
+identify or group with the right event name. Required properties are required fields,
+enums become literal unions and property descriptions become doc comments.
+
+Args:
+  - trackingPlanId: The tracking plan ID (required)
+  - language: Output language (default: 'typescript')
+  - events: Only generate these track events (default: every event)
+
+Returns:
+  The generated source file.`,
+    {
+      trackingPlanId: z.string().describe('Tracking plan ID'),
+      language: z.enum(TRACKING_TYPE_LANGUAGES).default('typescript').describe('Output language'),
+      events: z.array(z.string()).optional().describe('Track event names to generate (default: all)'),
+    },
+    async ({ trackingPlanId, language, events }) => {
+      try {
+        const trackingPlan = await client.getTrackingPlan(trackingPlanId);
+        const rules = await client.listAll((page) => client.listTrackingPlanRules(trackingPlanId, page));
+
+        const missing = (events ?? []).filter(
+          (event) => !rules.data.some((rule) => rule.type === 'TRACK' && rule.key === event)
+        );
+        if (missing.length > 0) {
+          throw new ValidationError('Events not found in the tracking plan', { events: missing });
+        }
+
+        const code = generateTrackingTypes(rules.data, { language, events, trackingPlanName: trackingPlan.name });
+        if (code.length > config.characterLimit) {
+          throw new ValidationError(
+            `Generated code is ${code.length} characters, over the ${config.characterLimit} character limit. Generate fewer events at a time with 'events'.`
+          );
+        }
+
+        return {
+          content: [{ type: 'text', text: code }],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
   // ===========================================================================
   // Add Source to Tracking Plan
   // ===========================================================================
@@ -257,15 +1077,27 @@ Once connected, events from the source will be validated against the tracking pl
 Args:
   - trackingPlanId: The tracking plan ID (required)
   - sourceId: The source ID to connect (required)
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
 
 Returns:
   Confirmation of connection.`,
     {
       trackingPlanId: z.string().describe('Tracking plan ID'),
       sourceId: z.string().describe('Source ID'),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ trackingPlanId, sourceId }) => {
+    async ({ trackingPlanId, sourceId, dryRun }) => {
       try {
+        if (dryRun) {
+          const connected = await client.listAll((page) => client.listSourcesFromTrackingPlan(trackingPlanId, page));
+          const sourceIds = connected.data.map((source) => source.id);
+          return formatDryRun(
+            planChange('update', 'tracking plan sources', trackingPlanId, { sourceIds }, {
+              sourceIds: sourceIds.includes(sourceId) ? sourceIds : [...sourceIds, sourceId],
+            })
+          );
+        }
+
         await client.addSourceToTrackingPlan(trackingPlanId, sourceId);
         return {
           content: [
@@ -291,15 +1123,27 @@ Returns:
 Args:
   - trackingPlanId: The tracking plan ID (required)
   - sourceId: The source ID to disconnect (required)
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
 
 Returns:
   Confirmation of disconnection.`,
     {
       trackingPlanId: z.string().describe('Tracking plan ID'),
       sourceId: z.string().describe('Source ID'),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ trackingPlanId, sourceId }) => {
+    async ({ trackingPlanId, sourceId, dryRun }) => {
       try {
+        if (dryRun) {
+          const connected = await client.listAll((page) => client.listSourcesFromTrackingPlan(trackingPlanId, page));
+          const sourceIds = connected.data.map((source) => source.id);
+          return formatDryRun(
+            planChange('update', 'tracking plan sources', trackingPlanId, { sourceIds }, {
+              sourceIds: sourceIds.filter((id) => id !== sourceId),
+            })
+          );
+        }
+
         await client.removeSourceFromTrackingPlan(trackingPlanId, sourceId);
         return {
           content: [
@@ -324,18 +1168,29 @@ Returns:
 
 Args:
   - trackingPlanId: The tracking plan ID (required)
+  - count: Number to return (default: ${config.defaultPageSize}, max: ${config.maxPageSize})
+  - cursor: Pagination cursor
+  - all: Fetch every page by following pagination cursors (default: false)
+  - maxItems: Stop after collecting this many items across pages
   - format: Response format ('json' or 'markdown')
 
 Returns:
-  List of sources connected to the tracking plan.`,
+  Paginated list of sources connected to the tracking plan.`,
     {
       trackingPlanId: z.string().describe('Tracking plan ID'),
+      count: z.number().int().min(1).max(config.maxPageSize).default(config.defaultPageSize),
+      cursor: z.string().optional(),
+      all: z.boolean().default(false).describe('Fetch every page by following pagination cursors'),
+      maxItems: z.number().int().min(1).optional().describe('Stop after collecting this many items across pages'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ trackingPlanId, format }) => {
+    async ({ trackingPlanId, count, cursor, all, maxItems, format }) => {
       try {
-        const result = await client.listSourcesFromTrackingPlan(trackingPlanId);
-        return formatResponse(result, format, 'sources');
+        const result =
+          all || maxItems
+            ? await client.listAll((page) => client.listSourcesFromTrackingPlan(trackingPlanId, page), { count, cursor, maxItems })
+            : await client.listSourcesFromTrackingPlan(trackingPlanId, { count, cursor });
+        return formatResponse(result, format, 'sources', config.characterLimit);
       } catch (error) {
         return formatError(error);
       }
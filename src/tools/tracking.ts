@@ -7,7 +7,25 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { SegmentClient } from '../client.js';
+import { ValidationError } from '../utils/errors.js';
 import { formatError } from '../utils/formatters.js';
+import {
+  type TrackingPlanValidationResult,
+  type ValidatableTrackingPayload,
+  validatePayloadAgainstRules,
+} from '../utils/tracking-plan-validation.js';
+
+/**
+ * Validate a payload against every rule of a tracking plan
+ */
+async function validateTrackingPayload(
+  client: SegmentClient,
+  trackingPlanId: string,
+  payload: ValidatableTrackingPayload
+): Promise<TrackingPlanValidationResult & { trackingPlanId: string }> {
+  const rules = await client.listAll((page) => client.listTrackingPlanRules(trackingPlanId, page));
+  return { trackingPlanId, ...validatePayloadAgainstRules(payload, rules.data) };
+}
 
 /**
  * Register all Tracking API tools
@@ -28,23 +46,52 @@ Args:
   - traits: Object of user traits (email, name, plan, etc.)
   - anonymousId: Anonymous ID if userId is not available
   - context: Additional context (ip, userAgent, etc.)
+  - validateAgainstTrackingPlanId: Tracking plan whose rules the traits are checked against
+  - validateOnly: Return the validation result without sending the call (default: false)
 
 Returns:
-  Confirmation that the identify call was sent.`,
+  Confirmation that the identify call was sent, plus any tracking plan violations.`,
     {
       userId: z.string().describe('Unique user identifier'),
       traits: z.record(z.string(), z.unknown()).optional().describe('User traits (email, name, plan, etc.)'),
       anonymousId: z.string().optional().describe('Anonymous ID if userId is not available'),
       context: z.record(z.string(), z.unknown()).optional().describe('Additional context (ip, userAgent, etc.)'),
+      validateAgainstTrackingPlanId: z.string().optional().describe('Tracking plan ID to validate against before sending'),
+      validateOnly: z.boolean().default(false).describe('Only validate; do not send the call'),
     },
-    async ({ userId, traits, anonymousId, context }) => {
+    async ({ userId, traits, anonymousId, context, validateAgainstTrackingPlanId, validateOnly }) => {
       try {
+        if (validateOnly && !validateAgainstTrackingPlanId) {
+          throw new ValidationError('validateOnly requires validateAgainstTrackingPlanId');
+        }
+
+        const validation = validateAgainstTrackingPlanId
+          ? await validateTrackingPayload(client, validateAgainstTrackingPlanId, {
+              type: 'identify',
+              userId,
+              traits,
+              context,
+              anonymousId,
+            })
+          : undefined;
+
+        if (validation && validateOnly) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({ success: validation.valid, message: 'Identify call validated, not sent', validation }, null, 2),
+              },
+            ],
+          };
+        }
+
         const result = await client.identify(userId, traits as Record<string, unknown>, context as Record<string, unknown>, anonymousId);
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify({ success: true, message: 'Identify call sent', result }, null, 2),
+              text: JSON.stringify({ success: true, message: 'Identify call sent', result, ...(validation && { validation }) }, null, 2),
             },
           ],
         };
@@ -70,24 +117,55 @@ Args:
   - properties: Object of event properties
   - anonymousId: Anonymous ID if userId is not available
   - context: Additional context (ip, userAgent, etc.)
+  - validateAgainstTrackingPlanId: Tracking plan whose rules the event is checked against
+  - validateOnly: Return the validation result without sending the event (default: false)
 
 Returns:
-  Confirmation that the track call was sent.`,
+  Confirmation that the track call was sent, plus any tracking plan violations
+  (missing required properties, wrong types, unplanned events).`,
     {
       userId: z.string().describe('Unique user identifier'),
       event: z.string().describe('Name of the event being tracked'),
       properties: z.record(z.string(), z.unknown()).optional().describe('Event properties'),
       anonymousId: z.string().optional().describe('Anonymous ID if userId is not available'),
       context: z.record(z.string(), z.unknown()).optional().describe('Additional context'),
+      validateAgainstTrackingPlanId: z.string().optional().describe('Tracking plan ID to validate against before sending'),
+      validateOnly: z.boolean().default(false).describe('Only validate; do not send the event'),
     },
-    async ({ userId, event, properties, anonymousId, context }) => {
+    async ({ userId, event, properties, anonymousId, context, validateAgainstTrackingPlanId, validateOnly }) => {
       try {
+        if (validateOnly && !validateAgainstTrackingPlanId) {
+          throw new ValidationError('validateOnly requires validateAgainstTrackingPlanId');
+        }
+
+        const validation = validateAgainstTrackingPlanId
+          ? await validateTrackingPayload(client, validateAgainstTrackingPlanId, {
+              type: 'track',
+              userId,
+              event,
+              properties,
+              context,
+              anonymousId,
+            })
+          : undefined;
+
+        if (validation && validateOnly) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({ success: validation.valid, message: `Event "${event}" validated, not sent`, validation }, null, 2),
+              },
+            ],
+          };
+        }
+
         const result = await client.track(userId, event, properties as Record<string, unknown>, context as Record<string, unknown>, anonymousId);
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify({ success: true, message: `Event "${event}" tracked`, result }, null, 2),
+              text: JSON.stringify({ success: true, message: `Event "${event}" tracked`, result, ...(validation && { validation }) }, null, 2),
             },
           ],
         };
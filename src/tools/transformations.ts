@@ -7,12 +7,94 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { SegmentClient } from '../client.js';
+import type { HashPropertyConfiguration } from '../types/entities.js';
+import type { ToolConfig } from '../types/env.js';
+import { type DryRunPlan, formatDryRun, planCreate, planDelete, planUpdate } from '../utils/dry-run.js';
+import { ValidationError } from '../utils/errors.js';
 import { formatError, formatResponse } from '../utils/formatters.js';
+import { assertValidFql } from '../utils/fql.js';
+import { previewTransformation } from '../utils/transformation-preview.js';
+import { REDACTED } from '../utils/workspace-config.js';
+
+/**
+ * Property hashing settings of a transformation
+ */
+const hashPropertiesSchema = z.object({
+  algorithm: z.enum(['MD5', 'SHA1', 'SHA256', 'SHA384', 'SHA512']).describe('Hash algorithm'),
+  encoding: z.enum(['BASE64', 'HEX']).describe('Encoding of the hash'),
+  key: z.string().min(1).optional().describe('HMAC key; without it a plain digest is used'),
+  properties: z.array(z.string()).min(1).describe('Properties to hash'),
+});
+
+/**
+ * FQL expressions of a transformation, keyed by the argument they came from
+ */
+function fqlFields(
+  ifClause: string | undefined,
+  fqlDefinedProperties: Array<{ fql: string; propertyName: string }> | undefined
+): Record<string, string | undefined> {
+  return {
+    ifClause,
+    ...Object.fromEntries((fqlDefinedProperties ?? []).map((property, index) => [`fqlDefinedProperties[${index}].fql`, property.fql])),
+  };
+}
+
+/**
+ * Warnings about a hashing configuration that is valid but weak
+ */
+function hashingWarnings(configuration: HashPropertyConfiguration | null | undefined): string[] {
+  if (!configuration || configuration.key) return [];
+  return [
+    `No HMAC key set: ${configuration.properties.join(', ')} will be hashed with a plain ${configuration.algorithm} digest, ` +
+      'which can be reversed for guessable values such as email addresses by hashing candidates. Set key to use an HMAC.',
+  ];
+}
+
+/**
+ * Mask the HMAC key of a hashing configuration
+ */
+function redactHashing(configuration: unknown): unknown {
+  if (typeof configuration !== 'object' || configuration === null) return configuration;
+  const { key } = configuration as Partial<HashPropertyConfiguration>;
+  return key ? { ...configuration, key: REDACTED } : configuration;
+}
+
+/**
+ * Mask the HMAC key of a transformation
+ */
+function redactTransformation<T>(transformation: T): T {
+  if (typeof transformation !== 'object' || transformation === null || !('hashPropertiesConfiguration' in transformation)) {
+    return transformation;
+  }
+  return { ...transformation, hashPropertiesConfiguration: redactHashing(transformation.hashPropertiesConfiguration) };
+}
+
+/**
+ * Mask the HMAC key in a dry-run plan computed from the real values, so an
+ * unchanged key is not reported as a change
+ */
+function redactTransformationPlan(plan: DryRunPlan): DryRunPlan {
+  return {
+    ...plan,
+    before: redactTransformation(plan.before),
+    after: redactTransformation(plan.after),
+    changes: plan.changes.map((change) => {
+      if (change.path === 'hashPropertiesConfiguration') {
+        return { path: change.path, before: redactHashing(change.before), after: redactHashing(change.after) };
+      }
+      if (change.path === 'hashPropertiesConfiguration.key') {
+        const mask = (value: unknown) => (value === undefined || value === null ? value : REDACTED);
+        return { path: change.path, before: mask(change.before), after: mask(change.after) };
+      }
+      return change;
+    }),
+  };
+}
 
 /**
  * Register all Transformations tools
  */
-export function registerTransformationsTools(server: McpServer, client: SegmentClient): void {
+export function registerTransformationsTools(server: McpServer, client: SegmentClient, config: ToolConfig): void {
   // ===========================================================================
   // List Transformations
   // ===========================================================================
@@ -23,21 +105,28 @@ export function registerTransformationsTools(server: McpServer, client: SegmentC
 Transformations modify events as they flow through Segment.
 
 Args:
-  - count: Number of transformations to return (default: 20)
+  - count: Number of transformations to return (default: ${config.defaultPageSize}, max: ${config.maxPageSize})
   - cursor: Pagination cursor from previous response
+  - all: Fetch every page by following pagination cursors (default: false)
+  - maxItems: Stop after collecting this many items across pages
   - format: Response format ('json' or 'markdown')
 
 Returns:
-  Paginated list of transformations.`,
+  Paginated list of transformations (HMAC keys redacted).`,
     {
-      count: z.number().int().min(1).max(100).default(20),
+      count: z.number().int().min(1).max(config.maxPageSize).default(config.defaultPageSize),
       cursor: z.string().optional(),
+      all: z.boolean().default(false).describe('Fetch every page by following pagination cursors'),
+      maxItems: z.number().int().min(1).optional().describe('Stop after collecting this many items across pages'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ count, cursor, format }) => {
+    async ({ count, cursor, all, maxItems, format }) => {
       try {
-        const result = await client.listTransformations({ count, cursor });
-        return formatResponse(result, format, 'transformations');
+        const result =
+          all || maxItems
+            ? await client.listAll((page) => client.listTransformations(page), { count, cursor, maxItems })
+            : await client.listTransformations({ count, cursor });
+        return formatResponse({ ...result, data: result.data.map(redactTransformation) }, format, 'transformations', config.characterLimit);
       } catch (error) {
         return formatError(error);
       }
@@ -56,7 +145,7 @@ Args:
   - format: Response format ('json' or 'markdown')
 
 Returns:
-  Transformation details including rules and configuration.`,
+  Transformation details including rules and configuration (HMAC key redacted).`,
     {
       transformationId: z.string().describe('Transformation ID'),
       format: z.enum(['json', 'markdown']).default('json'),
@@ -64,7 +153,7 @@ Returns:
     async ({ transformationId, format }) => {
       try {
         const transformation = await client.getTransformation(transformationId);
-        return formatResponse(transformation, format, 'transformation');
+        return formatResponse(redactTransformation(transformation), format, 'transformation', config.characterLimit);
       } catch (error) {
         return formatError(error);
       }
@@ -87,9 +176,12 @@ Args:
   - destinationMetadataId: Apply to specific destination
   - propertyRenames: Array of {oldName, newName} for renaming properties
   - fqlDefinedProperties: Array of {fql, propertyName} for computed properties
+  - hashPropertiesConfiguration: Hash properties before delivery: {algorithm (MD5, SHA1, SHA256, SHA384
+    or SHA512), encoding (BASE64 or HEX), key (HMAC key, recommended), properties}
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
 
 Returns:
-  The created transformation.`,
+  The created transformation (HMAC key redacted), with warnings when hashing has no HMAC key.`,
     {
       sourceId: z.string().describe('Source ID'),
       name: z.string().describe('Transformation name'),
@@ -105,9 +197,40 @@ Returns:
         fql: z.string(),
         propertyName: z.string(),
       })).optional(),
+      hashPropertiesConfiguration: hashPropertiesSchema.optional().describe('Property hashing'),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ sourceId, name, ifClause, newEventName, enabled, destinationMetadataId, propertyRenames, fqlDefinedProperties }) => {
+    async ({
+      sourceId,
+      name,
+      ifClause,
+      newEventName,
+      enabled,
+      destinationMetadataId,
+      propertyRenames,
+      fqlDefinedProperties,
+      hashPropertiesConfiguration,
+      dryRun,
+    }) => {
       try {
+        assertValidFql(fqlFields(ifClause, fqlDefinedProperties));
+        const warnings = hashingWarnings(hashPropertiesConfiguration);
+
+        if (dryRun) {
+          const plan = planCreate('transformation', {
+            sourceId,
+            name,
+            if: ifClause,
+            newEventName,
+            enabled,
+            destinationMetadataId,
+            propertyRenames,
+            fqlDefinedProperties,
+            hashPropertiesConfiguration,
+          });
+          return formatDryRun(redactTransformationPlan(warnings.length > 0 ? Object.assign(plan, { warnings }) : plan));
+        }
+
         const transformation = await client.createTransformation(
           sourceId,
           name,
@@ -116,13 +239,23 @@ Returns:
           enabled,
           destinationMetadataId,
           propertyRenames,
-          fqlDefinedProperties
+          fqlDefinedProperties,
+          hashPropertiesConfiguration
         );
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify({ success: true, message: 'Transformation created', transformation }, null, 2),
+              text: JSON.stringify(
+                {
+                  success: true,
+                  message: 'Transformation created',
+                  transformation: redactTransformation(transformation),
+                  ...(warnings.length > 0 && { warnings }),
+                },
+                null,
+                2
+              ),
             },
           ],
         };
@@ -147,9 +280,11 @@ Args:
   - enabled: Enable or disable
   - propertyRenames: Updated property renames
   - fqlDefinedProperties: Updated computed properties
+  - hashPropertiesConfiguration: Updated property hashing ({algorithm, encoding, key, properties}); null removes it
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
 
 Returns:
-  The updated transformation.`,
+  The updated transformation (HMAC key redacted), with warnings when hashing has no HMAC key.`,
     {
       transformationId: z.string().describe('Transformation ID'),
       name: z.string().optional(),
@@ -164,9 +299,38 @@ Returns:
         fql: z.string(),
         propertyName: z.string(),
       })).optional(),
+      hashPropertiesConfiguration: hashPropertiesSchema.nullable().optional().describe('Property hashing; null removes it'),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ transformationId, name, ifClause, newEventName, enabled, propertyRenames, fqlDefinedProperties }) => {
+    async ({
+      transformationId,
+      name,
+      ifClause,
+      newEventName,
+      enabled,
+      propertyRenames,
+      fqlDefinedProperties,
+      hashPropertiesConfiguration,
+      dryRun,
+    }) => {
       try {
+        assertValidFql(fqlFields(ifClause, fqlDefinedProperties));
+        const warnings = hashingWarnings(hashPropertiesConfiguration);
+
+        if (dryRun) {
+          const before = await client.getTransformation(transformationId);
+          const plan = planUpdate('transformation', transformationId, before, {
+            name,
+            if: ifClause,
+            newEventName,
+            enabled,
+            propertyRenames,
+            fqlDefinedProperties,
+            hashPropertiesConfiguration,
+          });
+          return formatDryRun(redactTransformationPlan(warnings.length > 0 ? Object.assign(plan, { warnings }) : plan));
+        }
+
         const transformation = await client.updateTransformation(
           transformationId,
           name,
@@ -174,13 +338,23 @@ Returns:
           newEventName,
           enabled,
           propertyRenames,
-          fqlDefinedProperties
+          fqlDefinedProperties,
+          hashPropertiesConfiguration
         );
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify({ success: true, message: 'Transformation updated', transformation }, null, 2),
+              text: JSON.stringify(
+                {
+                  success: true,
+                  message: 'Transformation updated',
+                  transformation: redactTransformation(transformation),
+                  ...(warnings.length > 0 && { warnings }),
+                },
+                null,
+                2
+              ),
             },
           ],
         };
@@ -201,14 +375,21 @@ WARNING: This action is irreversible.
 
 Args:
   - transformationId: The transformation ID (required)
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
 
 Returns:
   Confirmation of deletion.`,
     {
       transformationId: z.string().describe('Transformation ID'),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ transformationId }) => {
+    async ({ transformationId, dryRun }) => {
       try {
+        if (dryRun) {
+          const before = await client.getTransformation(transformationId);
+          return formatDryRun(redactTransformationPlan(planDelete('transformation', transformationId, before)));
+        }
+
         await client.deleteTransformation(transformationId);
         return {
           content: [
@@ -223,4 +404,82 @@ Returns:
       }
     }
   );
+
+  // ===========================================================================
+  // Preview Transformation
+  // ===========================================================================
+  server.tool(
+    'segment_preview_transformation',
+    `Apply a transformation to sample events locally and show each event before and after.
+
+Runs the if condition, then the event rename (track events), property renames, FQL-defined
+properties (computed from the incoming event) and property hashing with the configured
+algorithm, encoding and HMAC key. Property names without a properties., traits. or context.
+prefix are relative to traits for identify and group events and to properties otherwise.
+Nothing is saved.
+
+Args:
+  - transformationId: Saved transformation to preview (or pass ifClause)
+  - ifClause: FQL condition; overrides the saved one
+  - newEventName: New event name; overrides the saved one
+  - propertyRenames: Array of {oldName, newName}; overrides the saved ones
+  - fqlDefinedProperties: Array of {fql, propertyName}; overrides the saved ones
+  - hashPropertiesConfiguration: {algorithm, encoding, key, properties}; overrides the saved one
+  - events: Sample Segment events (required)
+  - format: Response format ('json' or 'markdown')
+
+Returns:
+  For each event whether the condition matched, the event before and after, and the changed fields.`,
+    {
+      transformationId: z.string().optional().describe('Transformation ID'),
+      ifClause: z.string().optional().describe('FQL condition'),
+      newEventName: z.string().optional(),
+      propertyRenames: z.array(z.object({
+        oldName: z.string(),
+        newName: z.string(),
+      })).optional(),
+      fqlDefinedProperties: z.array(z.object({
+        fql: z.string(),
+        propertyName: z.string(),
+      })).optional(),
+      hashPropertiesConfiguration: hashPropertiesSchema.optional(),
+      events: z.array(z.record(z.string(), z.unknown())).min(1).describe('Sample events'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ transformationId, events, format, ...overrides }) => {
+      try {
+        if (!transformationId && overrides.ifClause === undefined) {
+          throw new ValidationError('Provide transformationId or ifClause', {
+            transformationId: ['Required when ifClause is not given'],
+          });
+        }
+
+        const saved = transformationId ? await client.getTransformation(transformationId) : undefined;
+        const results = previewTransformation(
+          {
+            if: overrides.ifClause ?? saved?.if ?? '',
+            newEventName: overrides.newEventName ?? saved?.newEventName,
+            propertyRenames: overrides.propertyRenames ?? saved?.propertyRenames,
+            fqlDefinedProperties: overrides.fqlDefinedProperties ?? saved?.fqlDefinedProperties,
+            hashPropertiesConfiguration: overrides.hashPropertiesConfiguration ?? saved?.hashPropertiesConfiguration,
+          },
+          events
+        );
+        const matched = results.filter((result) => result.matched).length;
+
+        return formatResponse(
+          {
+            success: true,
+            message: `${matched} of ${results.length} event${results.length === 1 ? '' : 's'} matched the condition`,
+            results,
+          },
+          format,
+          'transformation-preview',
+          config.characterLimit
+        );
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
 }
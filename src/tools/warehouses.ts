@@ -7,12 +7,14 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { SegmentClient } from '../client.js';
+import type { ToolConfig } from '../types/env.js';
+import { formatDryRun, planChange, planCreate, planDelete, planUpdate } from '../utils/dry-run.js';
 import { formatError, formatResponse } from '../utils/formatters.js';
 
 /**
  * Register all Warehouses tools
  */
-export function registerWarehousesTools(server: McpServer, client: SegmentClient): void {
+export function registerWarehousesTools(server: McpServer, client: SegmentClient, config: ToolConfig): void {
   // ===========================================================================
   // List Warehouses
   // ===========================================================================
@@ -23,21 +25,28 @@ export function registerWarehousesTools(server: McpServer, client: SegmentClient
 Returns a paginated list of data warehouses (Snowflake, BigQuery, Redshift, etc.).
 
 Args:
-  - count: Number of warehouses to return (default: 20)
+  - count: Number of warehouses to return (default: ${config.defaultPageSize}, max: ${config.maxPageSize})
   - cursor: Pagination cursor from previous response
+  - all: Fetch every page by following pagination cursors (default: false)
+  - maxItems: Stop after collecting this many items across pages
   - format: Response format ('json' or 'markdown')
 
 Returns:
   Paginated list of warehouses with their IDs, names, types, and enabled status.`,
     {
-      count: z.number().int().min(1).max(100).default(20).describe('Number of warehouses to return'),
+      count: z.number().int().min(1).max(config.maxPageSize).default(config.defaultPageSize).describe('Number of warehouses to return'),
       cursor: z.string().optional().describe('Pagination cursor'),
+      all: z.boolean().default(false).describe('Fetch every page by following pagination cursors'),
+      maxItems: z.number().int().min(1).optional().describe('Stop after collecting this many items across pages'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ count, cursor, format }) => {
+    async ({ count, cursor, all, maxItems, format }) => {
       try {
-        const result = await client.listWarehouses({ count, cursor });
-        return formatResponse(result, format, 'warehouses');
+        const result =
+          all || maxItems
+            ? await client.listAll((page) => client.listWarehouses(page), { count, cursor, maxItems })
+            : await client.listWarehouses({ count, cursor });
+        return formatResponse(result, format, 'warehouses', config.characterLimit);
       } catch (error) {
         return formatError(error);
       }
@@ -64,7 +73,7 @@ Returns:
     async ({ warehouseId, format }) => {
       try {
         const warehouse = await client.getWarehouse(warehouseId);
-        return formatResponse(warehouse, format, 'warehouse');
+        return formatResponse(warehouse, format, 'warehouse', config.characterLimit);
       } catch (error) {
         return formatError(error);
       }
@@ -83,6 +92,7 @@ Args:
   - settings: Warehouse-specific settings (credentials, database, schema, etc.)
   - name: Display name for the warehouse
   - enabled: Whether the warehouse is enabled (default: true)
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
 
 Returns:
   The created warehouse object.`,
@@ -91,9 +101,14 @@ Returns:
       settings: z.record(z.string(), z.unknown()).describe('Warehouse-specific settings'),
       name: z.string().optional().describe('Display name'),
       enabled: z.boolean().default(true).describe('Whether enabled'),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ metadataId, settings, name, enabled }) => {
+    async ({ metadataId, settings, name, enabled, dryRun }) => {
       try {
+        if (dryRun) {
+          return formatDryRun(planCreate('warehouse', { metadataId, settings, name, enabled }));
+        }
+
         const warehouse = await client.createWarehouse(metadataId, settings as Record<string, unknown>, name, enabled);
         return {
           content: [
@@ -121,6 +136,7 @@ Args:
   - name: New display name
   - enabled: Enable or disable the warehouse
   - settings: Updated warehouse-specific settings
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
 
 Returns:
   The updated warehouse object.`,
@@ -129,9 +145,15 @@ Returns:
       name: z.string().optional().describe('New display name'),
       enabled: z.boolean().optional().describe('Enable or disable'),
       settings: z.record(z.string(), z.unknown()).optional().describe('Updated settings'),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ warehouseId, name, enabled, settings }) => {
+    async ({ warehouseId, name, enabled, settings, dryRun }) => {
       try {
+        if (dryRun) {
+          const before = await client.getWarehouse(warehouseId);
+          return formatDryRun(planUpdate('warehouse', warehouseId, before, { name, enabled, settings }));
+        }
+
         const warehouse = await client.updateWarehouse(warehouseId, name, enabled, settings as Record<string, unknown>);
         return {
           content: [
@@ -158,14 +180,21 @@ WARNING: This action is irreversible.
 
 Args:
   - warehouseId: The warehouse ID to delete (required)
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
 
 Returns:
   Confirmation of deletion.`,
     {
       warehouseId: z.string().describe('Warehouse ID to delete'),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ warehouseId }) => {
+    async ({ warehouseId, dryRun }) => {
       try {
+        if (dryRun) {
+          const before = await client.getWarehouse(warehouseId);
+          return formatDryRun(planDelete('warehouse', warehouseId, before));
+        }
+
         await client.deleteWarehouse(warehouseId);
         return {
           content: [
@@ -193,15 +222,27 @@ This enables data from the source to be synced to the warehouse.
 Args:
   - warehouseId: The warehouse ID (required)
   - sourceId: The source ID to connect (required)
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
 
 Returns:
   Confirmation of connection.`,
     {
       warehouseId: z.string().describe('Warehouse ID'),
       sourceId: z.string().describe('Source ID to connect'),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ warehouseId, sourceId }) => {
+    async ({ warehouseId, sourceId, dryRun }) => {
       try {
+        if (dryRun) {
+          const connected = await client.listAll((page) => client.listConnectedSourcesFromWarehouse(warehouseId, page));
+          const sourceIds = connected.data.map((source) => source.id);
+          return formatDryRun(
+            planChange('update', 'warehouse connections', warehouseId, { sourceIds }, {
+              sourceIds: sourceIds.includes(sourceId) ? sourceIds : [...sourceIds, sourceId],
+            })
+          );
+        }
+
         await client.addConnectionFromSourceToWarehouse(warehouseId, sourceId);
         return {
           content: [
@@ -227,15 +268,27 @@ Returns:
 Args:
   - warehouseId: The warehouse ID (required)
   - sourceId: The source ID to disconnect (required)
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
 
 Returns:
   Confirmation of disconnection.`,
     {
       warehouseId: z.string().describe('Warehouse ID'),
       sourceId: z.string().describe('Source ID to disconnect'),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
     },
-    async ({ warehouseId, sourceId }) => {
+    async ({ warehouseId, sourceId, dryRun }) => {
       try {
+        if (dryRun) {
+          const connected = await client.listAll((page) => client.listConnectedSourcesFromWarehouse(warehouseId, page));
+          const sourceIds = connected.data.map((source) => source.id);
+          return formatDryRun(
+            planChange('update', 'warehouse connections', warehouseId, { sourceIds }, {
+              sourceIds: sourceIds.filter((id) => id !== sourceId),
+            })
+          );
+        }
+
         await client.removeSourceConnectionFromWarehouse(warehouseId, sourceId);
         return {
           content: [
@@ -260,18 +313,29 @@ Returns:
 
 Args:
   - warehouseId: The warehouse ID (required)
+  - count: Number to return (default: ${config.defaultPageSize}, max: ${config.maxPageSize})
+  - cursor: Pagination cursor
+  - all: Fetch every page by following pagination cursors (default: false)
+  - maxItems: Stop after collecting this many items across pages
   - format: Response format ('json' or 'markdown')
 
 Returns:
-  List of sources connected to the warehouse.`,
+  Paginated list of sources connected to the warehouse.`,
     {
       warehouseId: z.string().describe('Warehouse ID'),
+      count: z.number().int().min(1).max(config.maxPageSize).default(config.defaultPageSize),
+      cursor: z.string().optional(),
+      all: z.boolean().default(false).describe('Fetch every page by following pagination cursors'),
+      maxItems: z.number().int().min(1).optional().describe('Stop after collecting this many items across pages'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ warehouseId, format }) => {
+    async ({ warehouseId, count, cursor, all, maxItems, format }) => {
       try {
-        const result = await client.listConnectedSourcesFromWarehouse(warehouseId);
-        return formatResponse(result, format, 'sources');
+        const result =
+          all || maxItems
+            ? await client.listAll((page) => client.listConnectedSourcesFromWarehouse(warehouseId, page), { count, cursor, maxItems })
+            : await client.listConnectedSourcesFromWarehouse(warehouseId, { count, cursor });
+        return formatResponse(result, format, 'sources', config.characterLimit);
       } catch (error) {
         return formatError(error);
       }
@@ -0,0 +1,363 @@
+/**
+ * Segment Workspace Configuration Tools
+ *
+ * Tools for exporting a workspace as a declarative configuration document and
+ * reconciling the workspace against one.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { createSegmentClient, isSegmentApiUrl, type SegmentClient } from '../client.js';
+import type { TenantCredentials, ToolConfig } from '../types/env.js';
+import {
+  type DesiredWorkspaceConfig,
+  WORKSPACE_CONFIG_SECTIONS,
+  WORKSPACE_CONFIG_VERSION,
+} from '../types/workspace-config.js';
+import { MissingCredentialsError, ValidationError } from '../utils/errors.js';
+import { formatError, formatResponse } from '../utils/formatters.js';
+import type { RuleHistory } from '../utils/rule-history.js';
+import { exportWorkspaceConfig } from '../utils/workspace-config.js';
+import { COMPARED_WORKSPACE_SECTIONS, compareWorkspaceConfigs } from '../utils/workspace-diff.js';
+import { applyWorkspacePlan, planWorkspaceChanges, type WorkspacePlan } from '../utils/workspace-plan.js';
+import { toYaml } from '../utils/yaml.js';
+
+const labelSchema = z.object({ key: z.string(), value: z.string(), description: z.string().optional() });
+
+/**
+ * Desired-state document accepted by plan/apply. Only the reconciled sections
+ * are checked; other sections and informational fields pass through.
+ */
+const workspaceConfigSchema = z.looseObject({
+  version: z.literal(WORKSPACE_CONFIG_VERSION),
+  sources: z
+    .array(
+      z.looseObject({
+        slug: z.string(),
+        name: z.string().optional(),
+        metadataId: z.string().optional(),
+        enabled: z.boolean().optional(),
+        labels: z.array(labelSchema).optional(),
+        settings: z.record(z.string(), z.unknown()).optional(),
+      })
+    )
+    .optional(),
+  destinations: z
+    .array(
+      z.looseObject({
+        name: z.string(),
+        source: z.string(),
+        metadataId: z.string().optional(),
+        enabled: z.boolean().optional(),
+        settings: z.record(z.string(), z.unknown()).optional(),
+        subscriptions: z
+          .array(
+            z.looseObject({
+              name: z.string(),
+              actionId: z.string().optional(),
+              trigger: z.string().optional(),
+              enabled: z.boolean().optional(),
+              settings: z.record(z.string(), z.unknown()).optional(),
+            })
+          )
+          .optional(),
+        filters: z
+          .array(
+            z.looseObject({
+              title: z.string(),
+              description: z.string().optional(),
+              if: z.string().optional(),
+              actions: z
+                .array(
+                  z.object({
+                    type: z.enum(['drop_event', 'sample_event', 'allow_properties', 'drop_properties']),
+                    fields: z.record(z.string(), z.unknown()).optional(),
+                    percent: z.number().optional(),
+                  })
+                )
+                .optional(),
+              enabled: z.boolean().optional(),
+            })
+          )
+          .optional(),
+      })
+    )
+    .optional(),
+  trackingPlans: z
+    .array(
+      z.looseObject({
+        name: z.string(),
+        type: z.enum(['ENGAGE', 'LIVE', 'PROPERTY_LIBRARY', 'RULE_LIBRARY', 'TEMPLATE']).optional(),
+        description: z.string().optional(),
+        rules: z
+          .array(
+            z.object({
+              key: z.string(),
+              type: z.enum(['COMMON', 'GROUP', 'IDENTIFY', 'PAGE', 'SCREEN', 'TRACK']),
+              jsonSchema: z.record(z.string(), z.unknown()),
+              version: z.number().optional(),
+            })
+          )
+          .optional(),
+        sources: z.array(z.string()).optional(),
+      })
+    )
+    .optional(),
+}) satisfies z.ZodType<DesiredWorkspaceConfig>;
+
+function formatPlan(plan: WorkspacePlan) {
+  const { create, update, delete: remove } = plan.summary;
+  return {
+    message:
+      plan.steps.length === 0
+        ? 'Workspace matches the configuration. No changes needed.'
+        : `Plan: ${create} to create, ${update} to update, ${remove} to delete.`,
+    summary: plan.summary,
+    unmanagedSections: plan.unmanagedSections,
+    // Desired state carries unredacted settings, so only the redacted changes are returned
+    steps: plan.steps.map(({ desired: _desired, ...step }) => step),
+  };
+}
+
+/**
+ * Register all Workspace Configuration tools
+ */
+export function registerWorkspaceConfigTools(
+  server: McpServer,
+  client: SegmentClient,
+  config: ToolConfig,
+  credentials: TenantCredentials,
+  history?: RuleHistory
+): void {
+  // ===========================================================================
+  // Export Workspace Config
+  // ===========================================================================
+  server.tool(
+    'segment_export_workspace_config',
+    `Export the workspace as a declarative configuration document.
+
+Walks sources, destinations (with subscriptions and filters), warehouses, tracking plans
+(with rules), transformations, functions, Reverse ETL models and labels. Resources reference
+each other by slug or name, arrays and keys are sorted, and secret-looking settings are redacted,
+so two exports can be diffed directly.
+
+Args:
+  - include: Sections to export (default: all)
+  - includeFunctionCode: Include function source code (default: false)
+  - format: Document format ('json' or 'yaml')
+
+Returns:
+  The workspace configuration document. If it exceeds the response limit, a summary of
+  section sizes is returned instead so you can narrow the export with 'include'.`,
+    {
+      include: z.array(z.enum(WORKSPACE_CONFIG_SECTIONS)).optional().describe('Sections to export (default: all)'),
+      includeFunctionCode: z.boolean().default(false).describe('Include function source code'),
+      format: z.enum(['json', 'yaml']).default('json').describe('Document format'),
+    },
+    async ({ include, includeFunctionCode, format }) => {
+      try {
+        const document = await exportWorkspaceConfig(client, { include, includeFunctionCode });
+        const text = format === 'yaml' ? toYaml(document) : JSON.stringify(document, null, 2);
+
+        if (text.length > config.characterLimit) {
+          // A truncated config is unusable for diffing or applying, so report sizes instead
+          const sections = Object.fromEntries(
+            WORKSPACE_CONFIG_SECTIONS.filter((section) => document[section] !== undefined).map((section) => [
+              section,
+              { items: document[section]?.length ?? 0, characters: JSON.stringify(document[section]).length },
+            ])
+          );
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(
+                  {
+                    success: false,
+                    message: `Workspace configuration is ${text.length} characters, over the ${config.characterLimit} character limit. Export fewer sections at a time with 'include'.`,
+                    sections,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        return {
+          content: [{ type: 'text', text }],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+  // ===========================================================================
+  // Plan Workspace Config
+  // ===========================================================================
+  server.tool(
+    'segment_plan_workspace_config',
+    `Compare a desired-state configuration document with the workspace and list the changes needed.
+
+Reconciles sources (by slug), destinations (by source slug and name) with their subscriptions
+(by name) and filters (by title), and tracking plans (by name) with their rules (by type and key)
+and connected sources. Fields omitted from the document, and '[REDACTED]' values from an export,
+keep their current value. Nothing is changed.
+
+Args:
+  - config: Desired configuration, in the shape returned by segment_export_workspace_config
+  - prune: Also plan deletion of resources missing from the document (default: false)
+
+Returns:
+  Ordered create/update/delete steps with field-level changes and a summary.`,
+    {
+      config: workspaceConfigSchema.describe('Desired workspace configuration'),
+      prune: z.boolean().default(false).describe('Delete resources missing from the document'),
+    },
+    async ({ config: desired, prune }) => {
+      try {
+        const { plan } = await planWorkspaceChanges(client, desired, { prune });
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ success: true, ...formatPlan(plan) }, null, 2) }],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Apply Workspace Config
+  // ===========================================================================
+  server.tool(
+    'segment_apply_workspace_config',
+    `Reconcile the workspace with a desired-state configuration document.
+
+Computes the same plan as segment_plan_workspace_config and applies it in dependency order:
+sources, destinations, subscriptions and filters, tracking plans, rules and source connections,
+then deletions child-first. Stops at the first failed step; later steps are reported as skipped.
+Rule writes are recorded in the tracking plan rule history when it is enabled.
+
+WARNING: With prune enabled, resources missing from the document are deleted.
+
+Args:
+  - config: Desired configuration, in the shape returned by segment_export_workspace_config
+  - prune: Delete resources missing from the document (default: false)
+  - dryRun: Preview the change as a before/after diff without applying it (default: false)
+
+Returns:
+  Per-step results (applied, failed or skipped).`,
+    {
+      config: workspaceConfigSchema.describe('Desired workspace configuration'),
+      prune: z.boolean().default(false).describe('Delete resources missing from the document'),
+      dryRun: z.boolean().default(false).describe('Preview the change without applying it'),
+    },
+    async ({ config: desired, prune, dryRun }) => {
+      try {
+        const { plan, current } = await planWorkspaceChanges(client, desired, { prune });
+        if (dryRun) {
+          return {
+            content: [{ type: 'text', text: JSON.stringify({ dryRun: true, ...formatPlan(plan) }, null, 2) }],
+          };
+        }
+
+        const steps = await applyWorkspacePlan(client, plan, current, history);
+        const failed = steps.find((step) => step.status === 'failed');
+        const applied = steps.filter((step) => step.status === 'applied').length;
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: !failed,
+                  message: failed
+                    ? `Applied ${applied} of ${steps.length} steps; ${failed.address} failed: ${failed.error}`
+                    : `Applied ${applied} steps`,
+                  summary: plan.summary,
+                  steps,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+          ...(failed && { isError: true }),
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+  // ===========================================================================
+  // Diff Workspaces
+  // ===========================================================================
+  server.tool(
+    'segment_diff_workspaces',
+    `Compare this workspace with a second workspace, e.g. dev against prod.
+
+The second workspace is read with compareAccessToken, or with the X-Segment-Compare-Access-Token
+(and optional X-Segment-Compare-API-URL) header. compareApiUrl is only used with an explicit
+compareAccessToken and must be a Segment Public API host; the header token is only sent to the
+header URL (or this workspace's). Sources are matched by slug, destinations and
+transformations by source slug and name, and tracking plans by name, so IDs never need to match.
+Destination settings, subscriptions, filters and tracking plan rules are compared field by field.
+
+Args:
+  - compareAccessToken: Public API token of the workspace to compare against (default: from header)
+  - compareApiUrl: Public API base URL of that workspace; requires compareAccessToken (default: from header, then this workspace's)
+  - sections: Sections to compare (default: sources, destinations, trackingPlans, transformations)
+  - format: Response format ('json' or 'markdown')
+
+Returns:
+  Summary counts and the resources that were added (only in the compared workspace),
+  removed (only in this workspace) or changed, with field-level differences. Secret values are redacted.`,
+    {
+      compareAccessToken: z.string().optional().describe('Public API token of the workspace to compare against'),
+      compareApiUrl: z.string().url().optional().describe('Public API base URL of the workspace to compare against'),
+      sections: z.array(z.enum(COMPARED_WORKSPACE_SECTIONS)).optional().describe('Sections to compare (default: all)'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ compareAccessToken, compareApiUrl, sections, format }) => {
+      try {
+        if (compareApiUrl && !compareAccessToken) {
+          throw new ValidationError('compareApiUrl requires compareAccessToken', {
+            compareApiUrl: ['The header token is only sent to the X-Segment-Compare-API-URL header URL'],
+          });
+        }
+        if (compareApiUrl && !isSegmentApiUrl(compareApiUrl)) {
+          throw new ValidationError('compareApiUrl must be a Segment Public API URL', {
+            compareApiUrl: ['Use https://api.segmentapis.com or a regional host such as https://eu1.api.segmentapis.com'],
+          });
+        }
+
+        const accessToken = compareAccessToken ?? credentials.compareAccessToken;
+        if (!accessToken) {
+          throw new MissingCredentialsError('X-Segment-Compare-Access-Token (or compareAccessToken)');
+        }
+
+        // compareApiUrl is only set alongside compareAccessToken, so the header token keeps its header URL
+        const compareClient = createSegmentClient({
+          accessToken,
+          publicApiBaseUrl: compareApiUrl ?? credentials.comparePublicApiBaseUrl ?? credentials.publicApiBaseUrl,
+        });
+        // Secrets are compared unredacted; differences redact them per field
+        const options = { include: sections ?? [...COMPARED_WORKSPACE_SECTIONS], redactSecrets: false };
+        const base = await exportWorkspaceConfig(client, options);
+        const compare = await exportWorkspaceConfig(compareClient, options);
+
+        const comparison = compareWorkspaceConfigs(base, compare);
+        return formatResponse(
+          { base: base.workspace, compare: compare.workspace, ...comparison },
+          format,
+          'workspace differences',
+          config.characterLimit
+        );
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+}
@@ -29,6 +29,12 @@ export interface PaginatedResponse<T> {
   };
 }
 
+/** Result of following pagination cursors across several pages */
+export interface AllPagesResponse<T> extends PaginatedResponse<T> {
+  /** Number of pages requested to build this result */
+  pagesFetched: number;
+}
+
 // =============================================================================
 // Tracking API Types
 // =============================================================================
@@ -352,6 +358,11 @@ export interface TrackingPlanRule {
   updatedAt: string;
 }
 
+/**
+ * A rule as sent to the Public API, which upserts rules by type and key
+ */
+export type TrackingPlanRuleInput = Pick<TrackingPlanRule, 'key' | 'type' | 'jsonSchema'> & { version?: number };
+
 // =============================================================================
 // Public API Types - Functions
 // =============================================================================
@@ -380,6 +391,35 @@ export interface FunctionSetting {
   sensitive?: boolean;
 }
 
+/**
+ * A saved version of a function's code
+ */
+export interface FunctionVersion {
+  id: string;
+  functionId?: string;
+  /** Code of the version (included when fetching a single version) */
+  code?: string;
+  isDeployed?: boolean;
+  deployedAt?: string;
+  createdAt?: string;
+  createdBy?: string;
+}
+
+/**
+ * An insert function attached to a destination, with its setting values
+ */
+export interface InsertFunctionInstance {
+  id: string;
+  functionId: string;
+  /** Destination the function runs in front of */
+  integrationId: string;
+  name?: string;
+  enabled: boolean;
+  settings?: Record<string, unknown>;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
 // =============================================================================
 // Public API Types - Audiences (Engage)
 // =============================================================================
@@ -569,6 +609,24 @@ export interface CatalogItem {
     alt?: string;
   };
   categories?: string[];
+  /** Settings the integration accepts */
+  options?: CatalogOption[];
+}
+
+/**
+ * A setting of a catalog integration
+ */
+export interface CatalogOption {
+  name: string;
+  /** Setting type, e.g. string, boolean, number, array, map, select or password */
+  type: string;
+  label?: string;
+  description?: string;
+  required?: boolean;
+  defaultValue?: unknown;
+  /** Allowed values of select settings */
+  choices?: Array<string | { value: string; label?: string }>;
+  sensitive?: boolean;
 }
 
 // =============================================================================
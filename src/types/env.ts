@@ -8,6 +8,7 @@
  * Request Headers:
  * - X-Segment-Write-Key: Write key for Tracking API (identify, track, etc.)
  * - X-Segment-Access-Token: Bearer token for Public API (sources, destinations, etc.)
+ * - X-Segment-Compare-Access-Token: Optional second workspace for cross-workspace diffs
  */
 
 // =============================================================================
@@ -26,6 +27,12 @@ export interface TenantCredentials {
 
   /** Override Public API base URL (from X-Segment-API-URL header) */
   publicApiBaseUrl?: string;
+
+  /** Access Token of a second workspace to compare against (from X-Segment-Compare-Access-Token header) */
+  compareAccessToken?: string;
+
+  /** Public API base URL of the second workspace (from X-Segment-Compare-API-URL header) */
+  comparePublicApiBaseUrl?: string;
 }
 
 /**
@@ -39,6 +46,8 @@ export function parseTenantCredentials(request: Request): TenantCredentials {
     accessToken: headers.get('X-Segment-Access-Token') || undefined,
     trackingBaseUrl: headers.get('X-Segment-Tracking-URL') || undefined,
     publicApiBaseUrl: headers.get('X-Segment-API-URL') || undefined,
+    compareAccessToken: headers.get('X-Segment-Compare-Access-Token') || undefined,
+    comparePublicApiBaseUrl: headers.get('X-Segment-Compare-API-URL') || undefined,
   };
 }
 
@@ -78,6 +87,12 @@ export interface Env {
   /** KV namespace for OAuth token storage */
   OAUTH_KV?: KVNamespace;
 
+  /** KV namespace for tracking plan rule history (rule versioning is disabled when unbound) */
+  RULE_HISTORY_KV?: KVNamespace;
+
+  /** Worker Loader used to run function code in a sandbox (function testing is disabled when unbound) */
+  LOADER?: WorkerLoader;
+
   /** Durable Object namespace for MCP sessions */
   MCP_SESSIONS?: DurableObjectNamespace;
 
@@ -101,23 +116,55 @@ export function getEnvNumber(env: Env, key: keyof Env, defaultValue: number): nu
   return defaultValue;
 }
 
+export const DEFAULT_CHARACTER_LIMIT = 50000;
+export const DEFAULT_PAGE_SIZE = 20;
+export const DEFAULT_MAX_PAGE_SIZE = 100;
+
 /**
  * Get the character limit from environment
  */
 export function getCharacterLimit(env: Env): number {
-  return getEnvNumber(env, 'CHARACTER_LIMIT', 50000);
+  return getEnvNumber(env, 'CHARACTER_LIMIT', DEFAULT_CHARACTER_LIMIT);
 }
 
 /**
  * Get the default page size from environment
  */
 export function getDefaultPageSize(env: Env): number {
-  return getEnvNumber(env, 'DEFAULT_PAGE_SIZE', 20);
+  return getEnvNumber(env, 'DEFAULT_PAGE_SIZE', DEFAULT_PAGE_SIZE);
 }
 
 /**
  * Get the maximum page size from environment
  */
 export function getMaxPageSize(env: Env): number {
-  return getEnvNumber(env, 'MAX_PAGE_SIZE', 100);
+  return getEnvNumber(env, 'MAX_PAGE_SIZE', DEFAULT_MAX_PAGE_SIZE);
+}
+
+// ===========================================================================
+// Tool Configuration
+// ===========================================================================
+
+/**
+ * Deployment settings that shape tool schemas and responses
+ */
+export interface ToolConfig {
+  /** Maximum characters in a single tool response */
+  characterLimit: number;
+  /** Page size used when a list tool is called without `count` */
+  defaultPageSize: number;
+  /** Largest `count` a list tool accepts */
+  maxPageSize: number;
+}
+
+/**
+ * Build the tool configuration from environment variables
+ */
+export function getToolConfig(env: Env): ToolConfig {
+  const maxPageSize = Math.max(1, getMaxPageSize(env));
+  return {
+    characterLimit: Math.max(1000, getCharacterLimit(env)),
+    defaultPageSize: Math.min(Math.max(1, getDefaultPageSize(env)), maxPageSize),
+    maxPageSize,
+  };
 }
@@ -1,2 +1,3 @@
 export * from './entities.js';
 export * from './env.js';
+export * from './workspace-config.js';
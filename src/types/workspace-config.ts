@@ -0,0 +1,193 @@
+/**
+ * Workspace Configuration Types
+ *
+ * Declarative snapshot of a Segment workspace. Resources reference each
+ * other by slug or name rather than ID so a document exported from one
+ * workspace can be compared with, or applied to, another.
+ */
+
+import type {
+  DestinationFilterAction,
+  FQLDefinedProperty,
+  FunctionSetting,
+  HashPropertyConfiguration,
+  Label,
+  PropertyRename,
+  TrackingPlan,
+  TrackingPlanRule,
+} from './entities.js';
+
+// =============================================================================
+// Document
+// =============================================================================
+
+export const WORKSPACE_CONFIG_VERSION = 1;
+
+/** Top-level sections of a workspace configuration document */
+export const WORKSPACE_CONFIG_SECTIONS = [
+  'sources',
+  'destinations',
+  'warehouses',
+  'trackingPlans',
+  'transformations',
+  'functions',
+  'reverseEtlModels',
+  'labels',
+] as const;
+
+export type WorkspaceConfigSection = (typeof WORKSPACE_CONFIG_SECTIONS)[number];
+
+export interface WorkspaceConfig {
+  version: typeof WORKSPACE_CONFIG_VERSION;
+  workspace?: {
+    id: string;
+    slug: string;
+    name: string;
+  };
+  sources?: SourceConfig[];
+  destinations?: DestinationConfig[];
+  warehouses?: WarehouseConfig[];
+  trackingPlans?: TrackingPlanConfig[];
+  transformations?: TransformationConfig[];
+  functions?: FunctionConfig[];
+  reverseEtlModels?: ReverseETLModelConfig[];
+  labels?: Label[];
+}
+
+/**
+ * Desired-state document accepted by plan/apply. Resources are matched by
+ * their key (slug, name or title); other fields they omit keep their current
+ * value. Unmanaged sections and informational fields pass through.
+ */
+export interface DesiredWorkspaceConfig {
+  [field: string]: unknown;
+  version: typeof WORKSPACE_CONFIG_VERSION;
+  sources?: DesiredSourceConfig[];
+  destinations?: DesiredDestinationConfig[];
+  trackingPlans?: DesiredTrackingPlanConfig[];
+}
+
+/** A desired resource: only the fields it is matched by are required */
+type Desired<T, Key extends keyof T> = Partial<T> & Pick<T, Key>;
+
+export type DesiredSourceConfig = Desired<SourceConfig, 'slug'>;
+
+export type DesiredDestinationConfig = Desired<Omit<DestinationConfig, 'subscriptions' | 'filters'>, 'name' | 'source'> & {
+  subscriptions?: DesiredDestinationSubscriptionConfig[];
+  filters?: DesiredDestinationFilterConfig[];
+};
+
+export type DesiredDestinationSubscriptionConfig = Desired<DestinationSubscriptionConfig, 'name'>;
+
+export type DesiredDestinationFilterConfig = Desired<DestinationFilterConfig, 'title'>;
+
+export type DesiredTrackingPlanConfig = Desired<TrackingPlanConfig, 'name'>;
+
+// =============================================================================
+// Resources
+// =============================================================================
+
+export interface SourceConfig {
+  /** Informational; resources are matched by slug */
+  id?: string;
+  slug: string;
+  name: string;
+  /** Source catalog ID */
+  metadataId: string;
+  enabled: boolean;
+  labels?: Label[];
+  settings?: Record<string, unknown>;
+}
+
+export interface DestinationConfig {
+  id?: string;
+  name: string;
+  /** Slug of the source this destination is connected to */
+  source: string;
+  /** Destination catalog ID */
+  metadataId: string;
+  enabled: boolean;
+  settings?: Record<string, unknown>;
+  subscriptions?: DestinationSubscriptionConfig[];
+  filters?: DestinationFilterConfig[];
+}
+
+export interface DestinationSubscriptionConfig {
+  id?: string;
+  name: string;
+  actionId: string;
+  actionSlug?: string;
+  trigger: string;
+  enabled: boolean;
+  settings?: Record<string, unknown>;
+}
+
+export interface DestinationFilterConfig {
+  id?: string;
+  title: string;
+  description?: string;
+  if: string;
+  actions: DestinationFilterAction[];
+  enabled: boolean;
+}
+
+export interface WarehouseConfig {
+  id?: string;
+  name: string;
+  /** Warehouse catalog ID */
+  metadataId: string;
+  enabled: boolean;
+  settings?: Record<string, unknown>;
+  /** Slugs of connected sources */
+  sources?: string[];
+}
+
+export interface TrackingPlanConfig {
+  id?: string;
+  name: string;
+  type: TrackingPlan['type'];
+  description?: string;
+  rules?: TrackingPlanRuleConfig[];
+  /** Slugs of connected sources */
+  sources?: string[];
+}
+
+export type TrackingPlanRuleConfig = Pick<TrackingPlanRule, 'key' | 'type' | 'jsonSchema'> & {
+  version?: number;
+};
+
+export interface TransformationConfig {
+  id?: string;
+  name: string;
+  /** Slug of the source the transformation applies to */
+  source: string;
+  destinationMetadataId?: string;
+  enabled: boolean;
+  if: string;
+  newEventName?: string;
+  propertyRenames?: PropertyRename[];
+  fqlDefinedProperties?: FQLDefinedProperty[];
+  hashPropertiesConfiguration?: HashPropertyConfiguration;
+}
+
+export interface FunctionConfig {
+  id?: string;
+  displayName: string;
+  resourceType: 'DESTINATION' | 'INSERT_DESTINATION' | 'SOURCE';
+  description?: string;
+  settings?: FunctionSetting[];
+  code?: string;
+}
+
+export interface ReverseETLModelConfig {
+  id?: string;
+  name: string;
+  /** Slug of the warehouse source the model reads from */
+  source: string;
+  description?: string;
+  enabled: boolean;
+  scheduleStrategy: string;
+  scheduleConfig?: Record<string, unknown>;
+  query: string;
+  queryIdentifierColumn: string;
+}
@@ -0,0 +1,199 @@
+/**
+ * Destination Filter Simulation for Segment MCP Server
+ *
+ * Applies destination filters to sample events the way Segment does before
+ * delivery: enabled filters run in order, and when an event matches a
+ * filter's `if` clause the filter's actions drop it, sample it or remove
+ * properties from it.
+ */
+
+import type { DestinationFilter, DestinationFilterAction } from '../types/entities.js';
+import { diffValues } from './diff.js';
+import { evaluateFql, type FqlExpression, parseFql } from './fql.js';
+
+/**
+ * How a filter took part in the simulation
+ */
+export interface SimulatedFilter {
+  id: string;
+  title: string;
+  status: 'applied' | 'disabled' | 'other_source' | 'invalid';
+  /** FQL error of an invalid `if` clause */
+  error?: string;
+}
+
+/**
+ * Outcome for one sample event
+ */
+export interface SimulatedEvent {
+  index: number;
+  delivered: boolean;
+  /** Filter and action that dropped the event */
+  droppedBy?: { filterId: string; title: string; action: DestinationFilterAction['type'] };
+  /** IDs of the filters whose condition matched, in order */
+  matchedFilters: string[];
+  /** Dotted paths of the fields removed by property filters */
+  removedFields: string[];
+  /** The event as it would be delivered */
+  event?: Record<string, unknown>;
+}
+
+export interface DestinationFilterSimulation {
+  summary: { events: number; delivered: number; dropped: number };
+  filters: SimulatedFilter[];
+  events: SimulatedEvent[];
+}
+
+export interface SimulateFiltersOptions {
+  /** Only apply filters attached to this source */
+  sourceId?: string;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Property paths of an allow/drop action, keyed by top-level object (`properties`, `traits`, `context`)
+ */
+function actionPaths(action: DestinationFilterAction): Array<[string, string[]]> {
+  return Object.entries(action.fields ?? {}).map(([key, paths]) => [
+    key,
+    (Array.isArray(paths) ? paths : [paths]).filter((path): path is string => typeof path === 'string'),
+  ]);
+}
+
+function pickPaths(object: Record<string, unknown>, paths: string[]): Record<string, unknown> {
+  const picked: Record<string, unknown> = {};
+  for (const path of paths) {
+    const segments = path.split('.');
+    let source: unknown = object;
+    for (const segment of segments) source = isPlainObject(source) ? source[segment] : undefined;
+    if (source === undefined) continue;
+
+    let target = picked;
+    for (const segment of segments.slice(0, -1)) {
+      if (!isPlainObject(target[segment])) target[segment] = {};
+      target = target[segment] as Record<string, unknown>;
+    }
+    target[segments[segments.length - 1]] = structuredClone(source);
+  }
+  return picked;
+}
+
+function dropPath(object: Record<string, unknown>, path: string): void {
+  const segments = path.split('.');
+  let target: unknown = object;
+  for (const segment of segments.slice(0, -1)) target = isPlainObject(target) ? target[segment] : undefined;
+  if (isPlainObject(target)) delete target[segments[segments.length - 1]];
+}
+
+/**
+ * Deterministic position of an event in [0, 1) for sampling (FNV-1a hash with a MurmurHash3 finalizer)
+ */
+function samplePosition(key: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  // Final avalanche so keys differing only in their last characters spread over the range
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return (hash >>> 0) / 0x100000000;
+}
+
+// =============================================================================
+// Entry Point
+// =============================================================================
+
+/**
+ * Apply destination filters, in order, to sample events.
+ *
+ * A filter whose `if` clause is `all` matches every event. Sampling keeps
+ * `percent` (0 to 1) of the matching events, chosen deterministically from the
+ * event's `messageId` (or the field named by the action's `fields.path`), so
+ * the same events are kept on every run.
+ */
+export function simulateDestinationFilters(
+  filters: DestinationFilter[],
+  events: Record<string, unknown>[],
+  options: SimulateFiltersOptions = {}
+): DestinationFilterSimulation {
+  const conditions = new Map<string, FqlExpression | 'all'>();
+  const simulatedFilters: SimulatedFilter[] = filters.map((filter) => {
+    const base = { id: filter.id, title: filter.title };
+    if (!filter.enabled) return { ...base, status: 'disabled' };
+    if (options.sourceId && filter.sourceId && filter.sourceId !== options.sourceId) {
+      return { ...base, status: 'other_source' };
+    }
+    if (filter.if.trim() === 'all') {
+      conditions.set(filter.id, 'all');
+      return { ...base, status: 'applied' };
+    }
+    const parsed = parseFql(filter.if);
+    if (!parsed.valid) {
+      return { ...base, status: 'invalid', error: `${parsed.error.message} (column ${parsed.error.column})` };
+    }
+    conditions.set(filter.id, parsed.expression);
+    return { ...base, status: 'applied' };
+  });
+
+  const results = events.map((original, index): SimulatedEvent => {
+    const event = structuredClone(original);
+    const matchedFilters: string[] = [];
+
+    for (const filter of filters) {
+      const condition = conditions.get(filter.id);
+      if (!condition) continue;
+      const value = condition === 'all' ? true : evaluateFql(condition, event);
+      if (value === false || value === null) continue;
+      matchedFilters.push(filter.id);
+
+      for (const action of filter.actions) {
+        const dropped = { filterId: filter.id, title: filter.title, action: action.type };
+        switch (action.type) {
+          case 'drop_event':
+            return { index, delivered: false, droppedBy: dropped, matchedFilters, removedFields: [] };
+          case 'sample_event': {
+            const path = typeof action.fields?.path === 'string' ? action.fields.path : 'messageId';
+            const key = path
+              .split('.')
+              .reduce<unknown>((value, segment) => (isPlainObject(value) ? value[segment] : undefined), event);
+            const position = samplePosition(key === undefined ? JSON.stringify(original) : String(key));
+            if (position >= (action.percent ?? 1)) {
+              return { index, delivered: false, droppedBy: dropped, matchedFilters, removedFields: [] };
+            }
+            break;
+          }
+          case 'allow_properties':
+            for (const [key, paths] of actionPaths(action)) {
+              if (isPlainObject(event[key])) event[key] = pickPaths(event[key], paths);
+            }
+            break;
+          case 'drop_properties':
+            for (const [key, paths] of actionPaths(action)) {
+              const target = event[key];
+              if (isPlainObject(target)) for (const path of paths) dropPath(target, path);
+            }
+            break;
+        }
+      }
+    }
+
+    const removedFields = diffValues(original, event)
+      .filter((change) => change.after === undefined)
+      .map((change) => change.path);
+    return { index, delivered: true, matchedFilters, removedFields, event };
+  });
+
+  const delivered = results.filter((result) => result.delivered).length;
+  return {
+    summary: { events: events.length, delivered, dropped: events.length - delivered },
+    filters: simulatedFilters,
+    events: results,
+  };
+}
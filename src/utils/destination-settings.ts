@@ -0,0 +1,189 @@
+/**
+ * Destination Settings for Segment MCP Server
+ *
+ * Checks destination setting values against the options declared in the
+ * destination's catalog metadata before they are sent, and masks sensitive
+ * values in previews.
+ */
+
+import type { CatalogOption } from '../types/entities.js';
+import type { DryRunPlan } from './dry-run.js';
+import { ValidationError } from './errors.js';
+import { REDACTED } from './workspace-config.js';
+
+type ValueKind = 'string' | 'boolean' | 'number' | 'array' | 'object';
+
+/** Value expected for each catalog option type; unlisted types are not type-checked */
+const OPTION_KINDS: Record<string, ValueKind> = {
+  string: 'string',
+  text: 'string',
+  password: 'string',
+  color: 'string',
+  select: 'string',
+  datetime: 'string',
+  boolean: 'boolean',
+  number: 'number',
+  integer: 'number',
+  array: 'array',
+  multiselect: 'array',
+  map: 'object',
+  object: 'object',
+};
+
+const KIND_LABELS: Record<ValueKind, string> = {
+  string: 'a string',
+  boolean: 'a boolean',
+  number: 'a number',
+  array: 'an array',
+  object: 'an object',
+};
+
+function matchesKind(kind: ValueKind, value: unknown): boolean {
+  switch (kind) {
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    default:
+      return typeof value === kind;
+  }
+}
+
+function choiceValues(option: CatalogOption): string[] {
+  return (option.choices ?? []).map((choice) => (typeof choice === 'string' ? choice : choice.value));
+}
+
+function isSensitive(option: CatalogOption): boolean {
+  return option.sensitive === true || option.type.toLowerCase() === 'password';
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Edit distance between two names, ignoring case
+ */
+function distance(a: string, b: string): number {
+  const left = a.toLowerCase();
+  const right = b.toLowerCase();
+  let previous = Array.from({ length: right.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= left.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= right.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (left[i - 1] === right[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[right.length];
+}
+
+/**
+ * The declared setting closest to a misspelled name, if any is close enough
+ */
+function closestName(name: string, names: string[]): string | undefined {
+  const limit = Math.max(2, Math.floor(name.length / 3));
+  let best: { name: string; distance: number } | undefined;
+  for (const candidate of names) {
+    const score = distance(name, candidate);
+    if (score <= limit && (!best || score < best.distance)) best = { name: candidate, distance: score };
+  }
+  return best?.name;
+}
+
+/**
+ * Check destination setting values against the catalog options: values have
+ * the declared type and one of the allowed choices, no unknown settings are
+ * given and required settings are present. Required settings are checked on
+ * `current` merged with `values`, so updates only need to send what changes.
+ * Throws a ValidationError listing every problem.
+ */
+export function validateDestinationSettings(
+  options: CatalogOption[],
+  values: Record<string, unknown>,
+  current: Record<string, unknown> = {}
+): void {
+  const details: Record<string, string[]> = {};
+  const fail = (name: string, message: string) => {
+    details[name] ??= [];
+    details[name].push(message);
+  };
+
+  const declared = new Map(options.map((option) => [option.name, option]));
+  for (const [name, value] of Object.entries(values)) {
+    const option = declared.get(name);
+    if (!option) {
+      const suggestion = closestName(name, [...declared.keys()]);
+      fail(name, suggestion ? `Unknown setting; did you mean "${suggestion}"?` : 'Unknown setting for this destination');
+      continue;
+    }
+    if (value === null || value === undefined) continue;
+
+    const kind = OPTION_KINDS[option.type.toLowerCase()];
+    if (kind && !matchesKind(kind, value)) {
+      fail(name, `Must be ${KIND_LABELS[kind]} (${option.type})`);
+      continue;
+    }
+    const choices = choiceValues(option);
+    const selected = Array.isArray(value) ? value : [value];
+    const invalid = selected.filter((item) => choices.length > 0 && !choices.includes(item as string));
+    if (invalid.length > 0) {
+      fail(name, `${invalid.map((item) => JSON.stringify(item)).join(', ')} is not allowed (allowed: ${choices.join(', ')})`);
+    }
+  }
+
+  const merged = { ...current, ...values };
+  for (const option of options) {
+    const value = merged[option.name];
+    if (option.required && (value === undefined || value === null || value === '')) {
+      fail(option.name, `"${option.label ?? option.name}" is required`);
+    }
+  }
+
+  if (Object.keys(details).length > 0) {
+    throw new ValidationError('Invalid destination settings', details);
+  }
+}
+
+/**
+ * Mask the values of settings declared as sensitive
+ */
+export function redactDestinationSettings(
+  options: CatalogOption[],
+  values: Record<string, unknown> | undefined
+): Record<string, unknown> | undefined {
+  if (!values) return values;
+  const sensitive = new Set(options.filter(isSensitive).map((option) => option.name));
+  return Object.fromEntries(
+    Object.entries(values).map(([name, value]) => [name, sensitive.has(name) && value !== undefined ? REDACTED : value])
+  );
+}
+
+/**
+ * Mask sensitive settings in a dry-run plan of a destination. The plan is
+ * computed from the real values, so unchanged secrets are not reported as
+ * changes; `before`, `after` and the changes are then masked together.
+ */
+export function redactDestinationPlan(options: CatalogOption[], plan: DryRunPlan): DryRunPlan {
+  const sensitive = new Set(options.filter(isSensitive).map((option) => option.name));
+  const maskState = (state: unknown) =>
+    isPlainObject(state) && isPlainObject(state.settings)
+      ? { ...state, settings: redactDestinationSettings(options, state.settings) }
+      : state;
+  const maskValue = (name: string | undefined, value: unknown) => {
+    if (value === undefined) return value;
+    if (name === undefined) return isPlainObject(value) ? redactDestinationSettings(options, value) : value;
+    return sensitive.has(name) ? REDACTED : value;
+  };
+
+  return {
+    ...plan,
+    before: maskState(plan.before),
+    after: maskState(plan.after),
+    changes: plan.changes.map((change) => {
+      const [root, name] = change.path.split('.');
+      if (root !== 'settings') return change;
+      return { path: change.path, before: maskValue(name, change.before), after: maskValue(name, change.after) };
+    }),
+  };
+}
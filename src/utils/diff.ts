@@ -0,0 +1,55 @@
+/**
+ * Structural Diff Utilities for Segment MCP Server
+ *
+ * Field-level comparison of Segment resources, used by dry runs and
+ * configuration comparisons.
+ */
+
+import { deepEqual } from './json-schema.js';
+
+/**
+ * A single changed field
+ */
+export interface FieldChange {
+  /** Dotted path of the field, e.g. `settings.apiKey` (empty for the root) */
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Compute field-level differences between two values.
+ *
+ * Objects are compared key by key; arrays and scalars are compared as a whole.
+ * Missing fields are reported as `undefined`.
+ */
+export function diffValues(before: unknown, after: unknown, path = ''): FieldChange[] {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+    return keys.flatMap((key) => diffValues(before[key], after[key], joinPath(path, key)));
+  }
+
+  if (before === undefined && after === undefined) return [];
+  return deepEqual(before, after) ? [] : [{ path, before, after }];
+}
+
+/**
+ * Apply a partial update, ignoring fields that are undefined in the patch
+ */
+export function applyPatch<T extends object>(current: T, patch: Record<string, unknown>): T {
+  const next: Record<string, unknown> = { ...(current as Record<string, unknown>) };
+  for (const [key, value] of Object.entries(patch)) {
+    if (value !== undefined) {
+      next[key] = value;
+    }
+  }
+  return next as T;
+}
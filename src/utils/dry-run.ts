@@ -0,0 +1,86 @@
+/**
+ * Dry-Run Utilities for Segment MCP Server
+ *
+ * Mutating tools accept `dryRun: true` to return the change they would make
+ * as a before/after diff instead of calling the write endpoint.
+ */
+
+import { applyPatch, diffValues, type FieldChange } from './diff.js';
+import type { ToolResponse } from './formatters.js';
+
+/**
+ * Preview of a change that was not applied
+ */
+export interface DryRunPlan {
+  dryRun: true;
+  action: 'create' | 'update' | 'delete' | 'deploy' | 'trigger';
+  resourceType: string;
+  resourceId?: string;
+  /** Current state (null when the resource does not exist yet) */
+  before: unknown;
+  /** State after the change (null when the resource would be deleted) */
+  after: unknown;
+  changes: FieldChange[];
+  message: string;
+}
+
+/**
+ * Build a dry-run plan for an arbitrary action
+ */
+export function planChange(
+  action: DryRunPlan['action'],
+  resourceType: string,
+  resourceId: string | undefined,
+  before: unknown,
+  after: unknown,
+  message?: string
+): DryRunPlan {
+  const changes = diffValues(before ?? {}, after ?? {});
+  return {
+    dryRun: true,
+    action,
+    resourceType,
+    ...(resourceId !== undefined && { resourceId }),
+    before: before ?? null,
+    after: after ?? null,
+    changes,
+    message:
+      message ??
+      `Would ${action} ${resourceType}${resourceId ? ` ${resourceId}` : ''} (${changes.length} field${changes.length === 1 ? '' : 's'} changed). No changes were applied.`,
+  };
+}
+
+/**
+ * Plan the creation of a resource
+ */
+export function planCreate(resourceType: string, after: Record<string, unknown>): DryRunPlan {
+  return planChange('create', resourceType, undefined, null, applyPatch({}, after));
+}
+
+/**
+ * Plan a partial update: supplied fields replace the current values
+ */
+export function planUpdate(
+  resourceType: string,
+  resourceId: string,
+  before: object,
+  patch: Record<string, unknown>
+): DryRunPlan {
+  return planChange('update', resourceType, resourceId, before, applyPatch(before, patch));
+}
+
+/**
+ * Plan the deletion of a resource
+ */
+export function planDelete(resourceType: string, resourceId: string, before: unknown): DryRunPlan {
+  return planChange('delete', resourceType, resourceId, before, null);
+}
+
+/**
+ * Format a dry-run plan as a tool response
+ */
+export function formatDryRun(plan: DryRunPlan): ToolResponse {
+  return {
+    content: [{ type: 'text', text: JSON.stringify(plan, null, 2) }],
+  };
+}
@@ -23,9 +23,10 @@ export class SegmentApiError extends Error {
  * Rate limit exceeded error
  */
 export class RateLimitError extends SegmentApiError {
-  public retryAfterSeconds: number;
+  /** Seconds to wait before retrying, when the server provided a Retry-After header */
+  public retryAfterSeconds?: number;
 
-  constructor(message: string, retryAfterSeconds: number) {
+  constructor(message: string, retryAfterSeconds?: number) {
     super(message, 429, 'RATE_LIMIT_EXCEEDED', true);
     this.name = 'RateLimitError';
     this.retryAfterSeconds = retryAfterSeconds;
@@ -65,6 +66,16 @@ export class ValidationError extends SegmentApiError {
   }
 }
 
+/**
+ * Network failure before a response was received
+ */
+export class NetworkError extends SegmentApiError {
+  constructor(message: string) {
+    super(message, undefined, 'NETWORK_ERROR', true);
+    this.name = 'NetworkError';
+  }
+}
+
 /**
  * Missing credentials error
  */
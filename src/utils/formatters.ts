@@ -3,6 +3,7 @@
  */
 
 import type {
+  AllPagesResponse,
   Audience,
   ComputedTrait,
   Destination,
@@ -14,6 +15,7 @@ import type {
   Transformation,
   Warehouse,
 } from '../types/entities.js';
+import { DEFAULT_CHARACTER_LIMIT } from '../types/env.js';
 import { SegmentApiError, formatErrorForLogging } from './errors.js';
 
 /**
@@ -26,23 +28,93 @@ export interface ToolResponse {
 }
 
 /**
- * Format a successful response
+ * Note attached to a list response whose trailing items were dropped to fit the character limit
+ */
+interface TruncationNotice {
+  returnedItems: number;
+  omittedItems: number;
+  message: string;
+}
+
+/**
+ * Format a successful response, truncating it to the character limit
  */
 export function formatResponse(
   data: unknown,
   format: ResponseFormat,
-  entityType: string
+  entityType: string,
+  characterLimit: number = DEFAULT_CHARACTER_LIMIT
 ): ToolResponse {
-  if (format === 'markdown') {
-    return {
-      content: [{ type: 'text', text: formatAsMarkdown(data, entityType) }],
-    };
+  const render = (value: unknown): string =>
+    format === 'markdown' ? formatAsMarkdown(value, entityType) : JSON.stringify(value, null, 2);
+
+  let text = render(data);
+  if (text.length > characterLimit) {
+    text = isPaginatedResponse(data)
+      ? truncatePaginated(data, characterLimit, render)
+      : truncateText(text, characterLimit);
   }
+
+  return {
+    content: [{ type: 'text', text }],
+  };
+}
+
+/**
+ * Format preformatted text (CSV, generated documents), truncating it to the character limit
+ */
+export function formatText(text: string, characterLimit: number = DEFAULT_CHARACTER_LIMIT): ToolResponse {
   return {
-    content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+    content: [{ type: 'text', text: text.length > characterLimit ? truncateText(text, characterLimit) : text }],
   };
 }
 
+/**
+ * Drop trailing items from a list response until it fits, keeping pagination intact
+ */
+function truncatePaginated(
+  data: PaginatedResponse<unknown>,
+  characterLimit: number,
+  render: (value: unknown) => string
+): string {
+  const total = data.data.length;
+
+  const build = (kept: number): string => {
+    const truncation: TruncationNotice = {
+      returnedItems: kept,
+      omittedItems: total - kept,
+      message:
+        `Response truncated to ${characterLimit} characters: ${total - kept} of ${total} items omitted. ` +
+        `The pagination cursor skips the omitted items, so re-run with count (or maxItems) set to ${Math.max(1, kept)} ` +
+        'and continue from the returned cursor to fetch the rest.',
+    };
+    return render({ ...data, data: data.data.slice(0, kept), truncation });
+  };
+
+  // Binary search for the largest number of items that still fits
+  let low = 0;
+  let high = total - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (build(mid).length <= characterLimit) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  const text = build(low);
+  return text.length <= characterLimit ? text : truncateText(text, characterLimit);
+}
+
+/**
+ * Hard-truncate text that cannot be reduced item by item
+ */
+function truncateText(text: string, characterLimit: number): string {
+  const notice = `\n\n[Truncated: response exceeded ${characterLimit} characters. Request a narrower result to see the rest.]`;
+  return text.slice(0, Math.max(0, characterLimit - notice.length)) + notice;
+}
+
 /**
  * Format an error response
  */
@@ -121,9 +193,17 @@ function formatPaginatedAsMarkdown(data: PaginatedResponse<unknown>, entityType:
     lines.push(`**Showing:** ${count}`);
   }
 
+  if ('pagesFetched' in data) {
+    lines.push(`**Pages fetched:** ${(data as AllPagesResponse<unknown>).pagesFetched}`);
+  }
+
   if (data.pagination?.next) {
     lines.push(`**More available:** Yes (cursor: \`${data.pagination.next}\`)`);
   }
+
+  if ('truncation' in data) {
+    lines.push(`**Truncated:** ${(data as { truncation: TruncationNotice }).truncation.message}`);
+  }
   lines.push('');
 
   if (data.data.length === 0) {
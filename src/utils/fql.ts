@@ -0,0 +1,431 @@
+/**
+ * FQL Utilities for Segment MCP Server
+ *
+ * Parser and evaluator for Segment's Filter Query Language, used by
+ * destination subscription triggers, destination filter `if` clauses and
+ * transformation conditions. Expressions are checked locally so syntax errors
+ * are reported with their position instead of as an opaque API error.
+ *
+ * Grammar:
+ *   expression := or
+ *   or         := and ("or" and)*
+ *   and        := not ("and" not)*
+ *   not        := "!" not | comparison
+ *   comparison := primary (("=" | "!=" | "<" | "<=" | ">" | ">=") primary)?
+ *   primary    := string | number | "true" | "false" | "null" | path | call | "(" expression ")"
+ *   path       := name ("." name)*      (escape other characters with "\")
+ *   call       := function "(" expression ("," expression)* ")"
+ */
+
+import { ValidationError } from './errors.js';
+
+/**
+ * Built-in functions and their argument counts
+ */
+export const FQL_FUNCTIONS: Record<string, number> = {
+  contains: 2,
+  match: 2,
+  length: 1,
+  lowercase: 1,
+  typeof: 1,
+};
+
+export type FqlComparison = '=' | '!=' | '<' | '<=' | '>' | '>=';
+
+/**
+ * Parsed FQL expression; `position` is the 0-based offset in the source
+ */
+export type FqlExpression =
+  | { kind: 'literal'; value: string | number | boolean | null; position: number }
+  | { kind: 'path'; path: string[]; position: number }
+  | { kind: 'not'; operand: FqlExpression; position: number }
+  | { kind: 'logical'; operator: 'and' | 'or'; left: FqlExpression; right: FqlExpression; position: number }
+  | { kind: 'comparison'; operator: FqlComparison; left: FqlExpression; right: FqlExpression; position: number }
+  | { kind: 'call'; name: string; args: FqlExpression[]; position: number };
+
+export interface FqlParseError {
+  message: string;
+  /** 0-based offset of the problem */
+  position: number;
+  /** 1-based column of the problem */
+  column: number;
+}
+
+export type FqlParseResult = { valid: true; expression: FqlExpression } | { valid: false; error: FqlParseError };
+
+// =============================================================================
+// Tokenizer
+// =============================================================================
+
+type Token =
+  | { type: 'string'; value: string; position: number }
+  | { type: 'number'; value: number; position: number }
+  | { type: 'path'; value: string[]; position: number }
+  | { type: 'punct'; value: string; position: number }
+  | { type: 'end'; value: ''; position: number };
+
+class FqlSyntaxError extends Error {
+  public position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = 'FqlSyntaxError';
+    this.position = position;
+  }
+}
+
+const NAME_CHAR = /[A-Za-z0-9_$]/;
+const OPERATORS = ['!=', '<=', '>=', '=', '<', '>', '!', '(', ')', ','];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const readName = (): string => {
+    let name = '';
+    while (i < source.length) {
+      if (source[i] === '\\') {
+        if (i + 1 >= source.length) throw new FqlSyntaxError('Expected a character after "\\"', i);
+        name += source[i + 1];
+        i += 2;
+      } else if (NAME_CHAR.test(source[i])) {
+        name += source[i++];
+      } else {
+        break;
+      }
+    }
+    return name;
+  };
+
+  while (i < source.length) {
+    const char = source[i];
+    const start = i;
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '"') {
+      let value = '';
+      i++;
+      while (i < source.length && source[i] !== '"') {
+        if (source[i] === '\\' && i + 1 < source.length) i++;
+        value += source[i++];
+      }
+      if (i >= source.length) throw new FqlSyntaxError('Unterminated string', start);
+      i++;
+      tokens.push({ type: 'string', value, position: start });
+    } else if (char === "'") {
+      throw new FqlSyntaxError('Strings must be in double quotes', start);
+    } else if (/[0-9]/.test(char) || (char === '-' && /[0-9]/.test(source[i + 1] ?? ''))) {
+      const match = /^-?[0-9]+(\.[0-9]+)?([eE][+-]?[0-9]+)?/.exec(source.slice(i)) as RegExpExecArray;
+      i += match[0].length;
+      if (i < source.length && NAME_CHAR.test(source[i])) throw new FqlSyntaxError('Invalid number', start);
+      tokens.push({ type: 'number', value: Number(match[0]), position: start });
+    } else if (/[A-Za-z_$\\]/.test(char)) {
+      const path = [readName()];
+      while (source[i] === '.') {
+        i++;
+        const segment = readName();
+        if (segment === '') throw new FqlSyntaxError('Expected a field name after "."', i);
+        path.push(segment);
+      }
+      tokens.push({ type: 'path', value: path, position: start });
+    } else if (source.startsWith('==', i)) {
+      throw new FqlSyntaxError('Use "=" to compare values, not "=="', start);
+    } else if (source.startsWith('&&', i) || source.startsWith('||', i)) {
+      throw new FqlSyntaxError(`Use "${char === '&' ? 'and' : 'or'}" instead of "${char}${char}"`, start);
+    } else {
+      const operator = OPERATORS.find((candidate) => source.startsWith(candidate, i));
+      if (!operator) throw new FqlSyntaxError(`Unexpected character "${char}"`, start);
+      i += operator.length;
+      tokens.push({ type: 'punct', value: operator, position: start });
+    }
+  }
+
+  tokens.push({ type: 'end', value: '', position: source.length });
+  return tokens;
+}
+
+// =============================================================================
+// Parser
+// =============================================================================
+
+const KEYWORDS: Record<string, string | number | boolean | null> = { true: true, false: false, null: null };
+const COMPARISONS = ['=', '!=', '<', '<=', '>', '>='];
+
+function describeToken(token: Token): string {
+  if (token.type === 'end') return 'end of expression';
+  if (token.type === 'string') return `"${token.value}"`;
+  if (token.type === 'path') return `"${token.value.join('.')}"`;
+  return `"${token.value}"`;
+}
+
+function isWord(token: Token, word: string): boolean {
+  return token.type === 'path' && token.value.length === 1 && token.value[0] === word;
+}
+
+function parse(source: string): FqlExpression {
+  const tokens = tokenize(source);
+  let index = 0;
+  const peek = () => tokens[index];
+  const next = () => tokens[index++];
+
+  const expect = (value: string, context: string) => {
+    const token = next();
+    if (token.type !== 'punct' || token.value !== value) {
+      throw new FqlSyntaxError(`Expected "${value}" ${context} but found ${describeToken(token)}`, token.position);
+    }
+  };
+
+  const parseOr = (): FqlExpression => {
+    let left = parseAnd();
+    while (isWord(peek(), 'or')) {
+      const { position } = next();
+      left = { kind: 'logical', operator: 'or', left, right: parseAnd(), position };
+    }
+    return left;
+  };
+
+  const parseAnd = (): FqlExpression => {
+    let left = parseNot();
+    while (isWord(peek(), 'and')) {
+      const { position } = next();
+      left = { kind: 'logical', operator: 'and', left, right: parseNot(), position };
+    }
+    return left;
+  };
+
+  const parseNot = (): FqlExpression => {
+    const token = peek();
+    if (token.type === 'punct' && token.value === '!') {
+      next();
+      return { kind: 'not', operand: parseNot(), position: token.position };
+    }
+    return parseComparison();
+  };
+
+  const parseComparison = (): FqlExpression => {
+    const left = parsePrimary();
+    const token = peek();
+    if (token.type === 'punct' && COMPARISONS.includes(token.value)) {
+      next();
+      const right = parsePrimary();
+      return { kind: 'comparison', operator: token.value as FqlComparison, left, right, position: token.position };
+    }
+    return left;
+  };
+
+  const parsePrimary = (): FqlExpression => {
+    const token = next();
+    switch (token.type) {
+      case 'string':
+      case 'number':
+        return { kind: 'literal', value: token.value, position: token.position };
+      case 'punct':
+        if (token.value === '(') {
+          const expression = parseOr();
+          expect(')', 'to close "("');
+          return expression;
+        }
+        break;
+      case 'path': {
+        const [name] = token.value;
+        if (token.value.length === 1 && name in KEYWORDS) {
+          return { kind: 'literal', value: KEYWORDS[name], position: token.position };
+        }
+        if (token.value.length === 1 && (name === 'and' || name === 'or')) break;
+
+        const open = peek();
+        if (open.type !== 'punct' || open.value !== '(') return { kind: 'path', path: token.value, position: token.position };
+
+        const arity = Object.hasOwn(FQL_FUNCTIONS, name) && token.value.length === 1 ? FQL_FUNCTIONS[name] : undefined;
+        if (arity === undefined) {
+          throw new FqlSyntaxError(
+            `Unknown function "${token.value.join('.')}" (functions: ${Object.keys(FQL_FUNCTIONS).join(', ')})`,
+            token.position
+          );
+        }
+        next();
+        const args: FqlExpression[] = [];
+        if (!(peek().type === 'punct' && peek().value === ')')) {
+          args.push(parseOr());
+          while (peek().type === 'punct' && peek().value === ',') {
+            next();
+            args.push(parseOr());
+          }
+        }
+        expect(')', `to close the arguments of ${name}()`);
+        if (args.length !== arity) {
+          throw new FqlSyntaxError(
+            `${name}() takes ${arity} argument${arity === 1 ? '' : 's'} but got ${args.length}`,
+            token.position
+          );
+        }
+        return { kind: 'call', name, args, position: token.position };
+      }
+    }
+    throw new FqlSyntaxError(`Expected a value but found ${describeToken(token)}`, token.position);
+  };
+
+  if (peek().type === 'end') throw new FqlSyntaxError('Expression is empty', 0);
+  const expression = parseOr();
+  const rest = peek();
+  if (rest.type !== 'end') {
+    throw new FqlSyntaxError(`Unexpected ${describeToken(rest)}; combine conditions with "and" or "or"`, rest.position);
+  }
+  return expression;
+}
+
+/**
+ * Parse an FQL expression, reporting the first syntax error and its position
+ */
+export function parseFql(source: string): FqlParseResult {
+  try {
+    return { valid: true, expression: parse(source) };
+  } catch (error) {
+    if (!(error instanceof FqlSyntaxError)) throw error;
+    return { valid: false, error: { message: error.message, position: error.position, column: error.position + 1 } };
+  }
+}
+
+/**
+ * Check FQL fields before they are sent to the API, keyed by field name.
+ * Undefined fields are skipped; throws a ValidationError listing every invalid field.
+ */
+export function assertValidFql(fields: Record<string, string | undefined>): void {
+  const details: Record<string, string[]> = {};
+  for (const [field, source] of Object.entries(fields)) {
+    if (source === undefined) continue;
+    const result = parseFql(source);
+    if (!result.valid) details[field] = [`${result.error.message} (column ${result.error.column})`];
+  }
+  if (Object.keys(details).length > 0) {
+    throw new ValidationError('Invalid FQL expression', details);
+  }
+}
+
+// =============================================================================
+// Evaluator
+// =============================================================================
+
+/**
+ * Read a field path from an event; only the event's own fields count, so
+ * inherited names such as `constructor` are missing
+ */
+function lookup(event: unknown, path: string[]): unknown {
+  let value = event;
+  for (const segment of path) {
+    if (value === null || typeof value !== 'object' || !Object.hasOwn(value, segment)) return null;
+    value = (value as Record<string, unknown>)[segment];
+  }
+  return value === undefined ? null : value;
+}
+
+/**
+ * A value counts as true unless it is false or null (missing fields are null)
+ */
+function isTruthy(value: unknown): boolean {
+  return value !== false && value !== null && value !== undefined;
+}
+
+function isEqual(left: unknown, right: unknown): boolean {
+  if (left === right) return true;
+  if (typeof left === 'object' && typeof right === 'object' && left !== null && right !== null) {
+    return JSON.stringify(left) === JSON.stringify(right);
+  }
+  return false;
+}
+
+function compare(operator: FqlComparison, left: unknown, right: unknown): boolean {
+  if (operator === '=') return isEqual(left, right);
+  if (operator === '!=') return !isEqual(left, right);
+  // Ordering only applies to two numbers or two strings
+  if (!((typeof left === 'number' && typeof right === 'number') || (typeof left === 'string' && typeof right === 'string'))) {
+    return false;
+  }
+  switch (operator) {
+    case '<':
+      return left < right;
+    case '<=':
+      return left <= right;
+    case '>':
+      return left > right;
+    case '>=':
+      return left >= right;
+  }
+}
+
+/**
+ * Glob match: `*` matches any run of characters, `?` a single character and `\` escapes
+ */
+function globMatch(value: string, pattern: string): boolean {
+  let regex = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*') regex += '.*';
+    else if (char === '?') regex += '.';
+    else if (char === '\\' && i + 1 < pattern.length) regex += pattern[++i].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    else regex += char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+  return new RegExp(`^${regex}$`, 's').test(value);
+}
+
+function typeName(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  if (Array.isArray(value)) return 'list';
+  if (typeof value === 'boolean') return 'bool';
+  return typeof value === 'number' || typeof value === 'string' ? typeof value : 'object';
+}
+
+function call(name: string, args: unknown[]): unknown {
+  const [value, argument] = args;
+  switch (name) {
+    case 'contains':
+      return typeof value === 'string' && typeof argument === 'string' && value.includes(argument);
+    case 'match':
+      return typeof value === 'string' && typeof argument === 'string' && globMatch(value, argument);
+    case 'length':
+      return typeof value === 'string' || Array.isArray(value) ? value.length : null;
+    case 'lowercase':
+      return typeof value === 'string' ? value.toLowerCase() : value;
+    case 'typeof':
+      return typeName(value);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Evaluate a parsed FQL expression against an event
+ */
+export function evaluateFql(expression: FqlExpression, event: Record<string, unknown>): unknown {
+  switch (expression.kind) {
+    case 'literal':
+      return expression.value;
+    case 'path':
+      return lookup(event, expression.path);
+    case 'not':
+      return !isTruthy(evaluateFql(expression.operand, event));
+    case 'logical': {
+      const left = isTruthy(evaluateFql(expression.left, event));
+      if (expression.operator === 'and' ? !left : left) return left;
+      return isTruthy(evaluateFql(expression.right, event));
+    }
+    case 'comparison':
+      return compare(expression.operator, evaluateFql(expression.left, event), evaluateFql(expression.right, event));
+    case 'call':
+      return call(expression.name, expression.args.map((arg) => evaluateFql(arg, event)));
+  }
+}
+
+/**
+ * Whether an event matches an FQL condition; throws a ValidationError when the expression is invalid
+ */
+export function matchesFql(source: string, event: Record<string, unknown>): boolean {
+  const result = parseFql(source);
+  if (!result.valid) {
+    throw new ValidationError('Invalid FQL expression', {
+      expression: [`${result.error.message} (column ${result.error.column})`],
+    });
+  }
+  return isTruthy(evaluateFql(result.expression, event));
+}
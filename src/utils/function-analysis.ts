@@ -0,0 +1,507 @@
+/**
+ * Function Code Analysis for Segment MCP Server
+ *
+ * Static checks run on Segment Function code before it is deployed. The code
+ * is parsed with acorn (no evaluation) to find syntax errors, then tokenized
+ * and checked for handlers that do not match the function type, `settings`
+ * keys the function does not declare, hardcoded secrets and loops that can
+ * never exit.
+ */
+
+import { parse } from 'acorn';
+import type { FunctionSetting, Function as SegmentFunction } from '../types/entities.js';
+import { isSecretKey } from './workspace-config.js';
+
+const EVENT_HANDLERS = ['onTrack', 'onIdentify', 'onPage', 'onScreen', 'onGroup', 'onAlias', 'onDelete', 'onBatch'];
+
+/**
+ * Handlers each function type may define
+ */
+export const FUNCTION_HANDLERS: Record<SegmentFunction['resourceType'], string[]> = {
+  DESTINATION: EVENT_HANDLERS,
+  INSERT_DESTINATION: EVENT_HANDLERS,
+  SOURCE: ['onRequest'],
+};
+
+export type FunctionDiagnosticCode =
+  | 'syntax_error'
+  | 'handler_mismatch'
+  | 'unknown_handler'
+  | 'missing_handler'
+  | 'undeclared_setting'
+  | 'hardcoded_secret'
+  | 'infinite_loop';
+
+/**
+ * A problem found in function code, with its 1-based position
+ */
+export interface FunctionDiagnostic {
+  severity: 'error' | 'warning';
+  code: FunctionDiagnosticCode;
+  message: string;
+  line: number;
+  column: number;
+}
+
+export interface AnalyzeFunctionOptions {
+  resourceType: SegmentFunction['resourceType'];
+  /** Declared settings; `settings.*` keys are only checked when given */
+  settings?: FunctionSetting[];
+}
+
+// =============================================================================
+// Tokenizer
+// =============================================================================
+
+interface Token {
+  type: 'name' | 'string' | 'template' | 'number' | 'regex' | 'punct';
+  value: string;
+  line: number;
+  column: number;
+  /** Index of the matching bracket token, for ( [ { and ) ] } */
+  match?: number;
+  /** Number of enclosing braces */
+  depth: number;
+}
+
+/** Multi-character punctuators, longest first */
+const PUNCTUATORS = [
+  '>>>=', '...', '===', '!==', '**=', '<<=', '>>=', '>>>', '&&=', '||=', '??=', '=>', '==', '!=', '<=', '>=', '&&',
+  '||', '??', '?.', '++', '--', '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=', '**', '<<', '>>',
+];
+
+/** Keywords after which `/` starts a regular expression rather than a division */
+const REGEX_PREFIX_KEYWORDS = new Set([
+  'return', 'typeof', 'instanceof', 'in', 'of', 'new', 'delete', 'void', 'throw', 'case', 'do', 'else', 'yield', 'await',
+]);
+
+const CLOSING: Record<string, string> = { ')': '(', ']': '[', '}': '{' };
+
+function isNameStart(char: string): boolean {
+  return /[A-Za-z_$]/.test(char) || char.charCodeAt(0) > 127;
+}
+
+function isNamePart(char: string): boolean {
+  return /[\w$]/.test(char) || char.charCodeAt(0) > 127;
+}
+
+/**
+ * Split code into tokens. Malformed code is tokenized as far as possible;
+ * syntax errors are reported by the parser.
+ */
+function tokenize(code: string): Token[] {
+  const tokens: Token[] = [];
+  const stack: Array<{ char: string; index: number; line: number; column: number; template?: boolean }> = [];
+  let i = 0;
+  let line = 1;
+  let column = 1;
+
+  const advance = (count: number) => {
+    for (let n = 0; n < count && i < code.length; n++, i++) {
+      if (code[i] === '\n') {
+        line++;
+        column = 1;
+      } else {
+        column++;
+      }
+    }
+  };
+
+  const push = (type: Token['type'], value: string, at: { line: number; column: number }) => {
+    tokens.push({ type, value, ...at, depth: stack.filter((entry) => entry.char === '{').length });
+  };
+
+  /** Read template characters up to the closing backtick or the next `${` */
+  const readTemplate = (start: { line: number; column: number }) => {
+    let value = '';
+    while (i < code.length) {
+      if (code[i] === '\\') {
+        value += code.slice(i, i + 2);
+        advance(2);
+      } else if (code[i] === '`') {
+        advance(1);
+        push('template', value, start);
+        return;
+      } else if (code[i] === '$' && code[i + 1] === '{') {
+        push('template', value, start);
+        stack.push({ char: '{', index: -1, line, column, template: true });
+        advance(2);
+        return;
+      } else {
+        value += code[i];
+        advance(1);
+      }
+    }
+    push('template', value, start);
+  };
+
+  const regexAllowed = () => {
+    const previous = tokens[tokens.length - 1];
+    if (!previous) return true;
+    if (previous.type === 'punct') return ![')', ']', '}'].includes(previous.value);
+    return previous.type === 'name' && REGEX_PREFIX_KEYWORDS.has(previous.value);
+  };
+
+  while (i < code.length) {
+    const char = code[i];
+    const start = { line, column };
+
+    if (/\s/.test(char)) {
+      advance(1);
+    } else if (char === '/' && code[i + 1] === '/') {
+      while (i < code.length && code[i] !== '\n') advance(1);
+    } else if (char === '/' && code[i + 1] === '*') {
+      const end = code.indexOf('*/', i + 2);
+      advance(end < 0 ? code.length - i : end + 2 - i);
+    } else if (char === '"' || char === "'") {
+      advance(1);
+      let value = '';
+      while (i < code.length && code[i] !== '\n') {
+        if (code[i] === '\\') {
+          value += code.slice(i, i + 2);
+          advance(2);
+        } else if (code[i] === char) {
+          advance(1);
+          break;
+        } else {
+          value += code[i];
+          advance(1);
+        }
+      }
+      push('string', value, start);
+    } else if (char === '`') {
+      advance(1);
+      readTemplate(start);
+    } else if (char === '/' && regexAllowed()) {
+      advance(1);
+      let inClass = false;
+      while (i < code.length && code[i] !== '\n') {
+        if (code[i] === '/' && !inClass) {
+          advance(1);
+          break;
+        }
+        if (code[i] === '[') inClass = true;
+        else if (code[i] === ']') inClass = false;
+        advance(code[i] === '\\' && code[i + 1] !== '\n' ? 2 : 1);
+      }
+      while (i < code.length && /[a-z]/i.test(code[i])) advance(1);
+      push('regex', '', start);
+    } else if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(code[i + 1] ?? ''))) {
+      let value = '';
+      while (i < code.length && /[\w.]/.test(code[i])) {
+        value += code[i];
+        advance(1);
+      }
+      push('number', value, start);
+    } else if (isNameStart(char)) {
+      let value = '';
+      while (i < code.length && isNamePart(code[i])) {
+        value += code[i];
+        advance(1);
+      }
+      push('name', value, start);
+    } else if (char === '(' || char === '[' || char === '{') {
+      stack.push({ char, index: tokens.length, ...start });
+      push('punct', char, start);
+      advance(1);
+    } else if (char === ')' || char === ']' || char === '}') {
+      const open = stack.pop();
+      if (!open || open.char !== CLOSING[char]) {
+        advance(1);
+      } else if (open.template) {
+        advance(1);
+        readTemplate(start);
+      } else {
+        tokens[open.index].match = tokens.length;
+        push('punct', char, start);
+        tokens[tokens.length - 1].match = open.index;
+        advance(1);
+      }
+    } else {
+      const value = PUNCTUATORS.find((punctuator) => code.startsWith(punctuator, i)) ?? char;
+      push('punct', value, start);
+      advance(value.length);
+    }
+  }
+
+  return tokens;
+}
+
+// =============================================================================
+// Checks
+// =============================================================================
+
+const SECRET_PATTERNS: Array<[RegExp, string]> = [
+  [/AKIA[0-9A-Z]{16}/, 'an AWS access key'],
+  [/\b[sr]k_live_[0-9A-Za-z]{10,}/, 'a Stripe live key'],
+  [/\bxox[abposr]-[0-9A-Za-z-]{10,}/, 'a Slack token'],
+  [/\bgh[pousr]_[A-Za-z0-9]{30,}/, 'a GitHub token'],
+  [/\bAIza[0-9A-Za-z_-]{35}/, 'a Google API key'],
+  [/-----BEGIN [A-Z ]*PRIVATE KEY-----/, 'a private key'],
+  [/\beyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/, 'a JSON Web Token'],
+  [/\bBearer [A-Za-z0-9._~+/-]{20,}/, 'a bearer token'],
+];
+
+/**
+ * Parse the code and report the first syntax error, if any
+ */
+function checkSyntax(code: string, diagnostics: FunctionDiagnostic[]): void {
+  try {
+    parse(code, { ecmaVersion: 'latest', sourceType: 'script', allowAwaitOutsideFunction: true });
+  } catch (error) {
+    if (!(error instanceof SyntaxError) || !('loc' in error)) throw error;
+    const { line, column } = error.loc as { line: number; column: number };
+    diagnostics.push({
+      severity: 'error',
+      code: 'syntax_error',
+      // acorn appends the position, which is reported separately
+      message: error.message.replace(/ \(\d+:\d+\)$/, ''),
+      line,
+      column: column + 1,
+    });
+  }
+}
+
+function checkHandlers(tokens: Token[], options: AnalyzeFunctionOptions, diagnostics: FunctionDiagnostic[]): void {
+  const allowed = FUNCTION_HANDLERS[options.resourceType];
+  const known = new Set([...EVENT_HANDLERS, 'onRequest']);
+  const defined: Token[] = [];
+
+  tokens.forEach((token, index) => {
+    if (token.type !== 'name' || token.depth !== 0 || !/^on[A-Z]/.test(token.value)) return;
+    const previous = tokens[index - 1];
+    const next = tokens[index + 1];
+    const declared =
+      (previous?.value === 'function' && previous.type === 'name') ||
+      (['const', 'let', 'var'].includes(previous?.value ?? '') && next?.value === '=');
+    if (declared) defined.push(token);
+  });
+
+  for (const handler of defined) {
+    if (allowed.includes(handler.value)) continue;
+    diagnostics.push(
+      known.has(handler.value)
+        ? {
+            severity: 'error',
+            code: 'handler_mismatch',
+            message: `${handler.value} is not called for ${options.resourceType} functions (expected ${allowed.join(', ')})`,
+            line: handler.line,
+            column: handler.column,
+          }
+        : {
+            severity: 'warning',
+            code: 'unknown_handler',
+            message: `${handler.value} is not a Segment handler and will never be called (handlers: ${allowed.join(', ')})`,
+            line: handler.line,
+            column: handler.column,
+          }
+    );
+  }
+
+  if (!defined.some((handler) => allowed.includes(handler.value))) {
+    diagnostics.push({
+      severity: 'error',
+      code: 'missing_handler',
+      message: `No handler defined; ${options.resourceType} functions must define ${allowed.length === 1 ? allowed[0] : `at least one of ${allowed.join(', ')}`}`,
+      line: 1,
+      column: 1,
+    });
+  }
+}
+
+function checkSettings(tokens: Token[], declared: FunctionSetting[], diagnostics: FunctionDiagnostic[]): void {
+  const names = new Set(declared.map((setting) => setting.name));
+  const report = (key: string, at: Token) => {
+    if (names.has(key)) return;
+    diagnostics.push({
+      severity: 'error',
+      code: 'undeclared_setting',
+      message: `settings.${key} is not a declared setting (declared: ${[...names].join(', ') || 'none'})`,
+      line: at.line,
+      column: at.column,
+    });
+  };
+
+  tokens.forEach((token, index) => {
+    if (token.type !== 'name' || token.value !== 'settings') return;
+    const next = tokens[index + 1];
+    const key = tokens[index + 2];
+    if (tokens[index - 1]?.value === '.' || tokens[index - 1]?.value === '?.') return;
+
+    if ((next?.value === '.' || next?.value === '?.') && key?.type === 'name') {
+      report(key.value, key);
+    } else if (next?.value === '[' && key?.type === 'string' && tokens[index + 3]?.value === ']') {
+      report(key.value, key);
+    } else if (tokens[index - 1]?.value === '=' && tokens[index - 2]?.value === '}' && tokens[index - 2].match !== undefined) {
+      // const { apiKey, endpoint: url = '' } = settings
+      const open = tokens[index - 2].match as number;
+      for (let n = open + 1; n < index - 2; n++) {
+        const candidate = tokens[n];
+        const before = tokens[n - 1];
+        const shorthand = before.value === '{' || before.value === ',';
+        if (candidate.type === 'name' && shorthand && candidate.depth === tokens[open].depth + 1) {
+          report(candidate.value, candidate);
+        }
+      }
+    }
+  });
+}
+
+function checkSecrets(tokens: Token[], diagnostics: FunctionDiagnostic[]): void {
+  tokens.forEach((token, index) => {
+    if (token.type !== 'string' && token.type !== 'template') return;
+
+    const known = SECRET_PATTERNS.find(([pattern]) => pattern.test(token.value));
+    if (known) {
+      diagnostics.push({
+        severity: 'error',
+        code: 'hardcoded_secret',
+        message: `String looks like ${known[1]}; store it in a sensitive setting instead`,
+        line: token.line,
+        column: token.column,
+      });
+      return;
+    }
+
+    // apiKey = '...', { token: '...' }, 'x-api-key': '...'
+    const operator = tokens[index - 1];
+    const name = tokens[index - 2];
+    if (
+      (operator?.value === '=' || operator?.value === ':') &&
+      (name?.type === 'name' || name?.type === 'string') &&
+      isSecretKey(name.value) &&
+      token.value.length >= 8 &&
+      !/\s/.test(token.value)
+    ) {
+      diagnostics.push({
+        severity: 'warning',
+        code: 'hardcoded_secret',
+        message: `"${name.value}" is set to a literal string; store secrets in a sensitive setting instead`,
+        line: token.line,
+        column: token.column,
+      });
+    }
+  });
+}
+
+function isAlwaysTrue(tokens: Token[], open: number, close: number): boolean {
+  const condition = tokens.slice(open + 1, close).map((token) => token.value);
+  return condition.length === 1 && (condition[0] === 'true' || condition[0] === '1');
+}
+
+/**
+ * Index of the last token of the statement starting at `start`: the matching
+ * `}` of a block, otherwise the next `;`
+ */
+function statementEnd(tokens: Token[], start: number): number {
+  if (tokens[start]?.value === '{' && tokens[start].match !== undefined) return tokens[start].match as number;
+  let end = start;
+  while (end < tokens.length && tokens[end].value !== ';') end++;
+  return end;
+}
+
+/**
+ * Check whether a loop body has a statement that leaves the loop: a `return`
+ * or `throw`, an unlabeled `break` outside nested loops and switches, or a
+ * `break` to a label declared outside the body. Statements inside nested
+ * functions never leave the loop.
+ */
+function leavesLoop(tokens: Token[], start: number, end: number): boolean {
+  const breakable: Array<[number, number]> = [];
+  const functions: Array<[number, number]> = [];
+  const innerLabels = new Set<string>();
+  for (let i = start; i <= end; i++) {
+    const token = tokens[i];
+    const next = tokens[i + 1];
+    if (token.value === '=>' && next?.value === '{') {
+      functions.push([i + 1, next.match as number]);
+      continue;
+    }
+    if (token.type !== 'name') continue;
+
+    const close = next?.value === '(' ? next.match : undefined;
+    if (['for', 'while', 'switch'].includes(token.value) && close !== undefined) {
+      breakable.push([close + 1, statementEnd(tokens, close + 1)]);
+    } else if (token.value === 'do' && next?.value === '{') {
+      breakable.push([i + 1, next.match as number]);
+    } else if (token.value === 'function') {
+      const params = tokens.findIndex((candidate, index) => index > i && candidate.value === '(');
+      const body = params === -1 ? undefined : tokens[(tokens[params].match as number) + 1];
+      if (body?.value === '{') functions.push([(tokens[params].match as number) + 1, body.match as number]);
+    } else if (next?.value === ':' && ['for', 'while', 'do', 'switch'].includes(tokens[i + 2]?.value)) {
+      innerLabels.add(token.value);
+    }
+  }
+
+  const within = (ranges: Array<[number, number]>, index: number) =>
+    ranges.some(([from, to]) => index >= from && index <= to);
+  for (let i = start; i <= end; i++) {
+    const token = tokens[i];
+    if (token.type !== 'name' || within(functions, i)) continue;
+    if (token.value === 'return' || token.value === 'throw') return true;
+    if (token.value !== 'break') continue;
+
+    // `break label` only takes a label on the same line
+    const label = tokens[i + 1]?.type === 'name' && tokens[i + 1].line === token.line ? tokens[i + 1].value : undefined;
+    if (label ? !innerLabels.has(label) : !within(breakable, i)) return true;
+  }
+  return false;
+}
+
+function checkLoops(tokens: Token[], diagnostics: FunctionDiagnostic[]): void {
+  const report = (loop: Token, bodyStart: number, end: number) => {
+    if (leavesLoop(tokens, bodyStart, end)) return;
+    const awaits = tokens.slice(bodyStart, end + 1).some((token) => token.type === 'name' && token.value === 'await');
+    diagnostics.push({
+      severity: awaits ? 'warning' : 'error',
+      code: 'infinite_loop',
+      message: awaits
+        ? 'Loop has no break, return or throw that leaves it; the function runs until it times out'
+        : 'Synchronous infinite loop: nothing in it leaves the loop, so it blocks the function until it times out',
+      line: loop.line,
+      column: loop.column,
+    });
+  };
+
+  tokens.forEach((token, index) => {
+    if (token.type !== 'name') return;
+    const open = index + 1;
+    const close = tokens[open]?.value === '(' ? tokens[open].match : undefined;
+    if (close === undefined && token.value !== 'do') return;
+
+    if (token.value === 'while' && close !== undefined && isAlwaysTrue(tokens, open, close)) {
+      // The `while` of a do-while is handled with its `do`
+      if (tokens[index - 1]?.value === '}' && tokens[(tokens[index - 1].match as number) - 1]?.value === 'do') return;
+      report(token, close + 1, statementEnd(tokens, close + 1));
+    } else if (token.value === 'for' && close !== undefined) {
+      const header = tokens.slice(open + 1, close).map((part) => part.value);
+      if (header.length === 2 && header[0] === ';' && header[1] === ';') report(token, close + 1, statementEnd(tokens, close + 1));
+    } else if (token.value === 'do' && tokens[open]?.value === '{') {
+      const end = tokens[open].match as number;
+      const condition = end + 2;
+      if (tokens[end + 1]?.value === 'while' && tokens[condition]?.value === '(') {
+        if (isAlwaysTrue(tokens, condition, tokens[condition].match as number)) report(token, open, end);
+      }
+    }
+  });
+}
+
+// =============================================================================
+// Entry Point
+// =============================================================================
+
+/**
+ * Statically check function code, returning diagnostics ordered by position
+ */
+export function analyzeFunctionCode(code: string, options: AnalyzeFunctionOptions): FunctionDiagnostic[] {
+  const diagnostics: FunctionDiagnostic[] = [];
+  const tokens = tokenize(code);
+
+  checkSyntax(code, diagnostics);
+  checkHandlers(tokens, options, diagnostics);
+  if (options.settings) checkSettings(tokens, options.settings, diagnostics);
+  checkSecrets(tokens, diagnostics);
+  checkLoops(tokens, diagnostics);
+
+  return diagnostics.sort((a, b) => a.line - b.line || a.column - b.column);
+}
@@ -0,0 +1,295 @@
+/**
+ * Function Test Harness for Segment MCP Server
+ *
+ * Runs Segment Function code against sample events in an isolated Worker
+ * created through a Worker Loader binding. The isolate has no network access:
+ * a harness module emulates the Segment Functions runtime around the code
+ * (handler dispatch, settings, a stubbed `fetch`, the `Segment` collector of
+ * source functions and the Segment error classes) and captures console output.
+ */
+
+import type { Function as SegmentFunction } from '../types/entities.js';
+import { ValidationError } from './errors.js';
+
+/** Handlers a destination or insert function can define, keyed by event type */
+const EVENT_HANDLERS: Record<string, string> = {
+  track: 'onTrack',
+  identify: 'onIdentify',
+  page: 'onPage',
+  screen: 'onScreen',
+  group: 'onGroup',
+  alias: 'onAlias',
+  delete: 'onDelete',
+};
+
+const HANDLER_NAMES = [...Object.values(EVENT_HANDLERS), 'onBatch', 'onRequest'];
+
+const HARNESS_COMPATIBILITY_DATE = '2025-12-01';
+
+/**
+ * Canned response for `fetch` calls made by the function
+ */
+export interface FunctionFetchStub {
+  /** Substring of the request URL to match */
+  url: string;
+  /** Only match this HTTP method */
+  method?: string;
+  status?: number;
+  headers?: Record<string, string>;
+  /** Response body; objects are sent as JSON */
+  body?: unknown;
+}
+
+export interface FunctionTestOptions {
+  resourceType: SegmentFunction['resourceType'];
+  /**
+   * Sample inputs: Segment events for destination and insert functions, or
+   * requests (`{ body, headers, url, method }`) for source functions
+   */
+  events: Record<string, unknown>[];
+  /** Settings object passed to every handler */
+  settings?: Record<string, unknown>;
+  /** Responses for `fetch`; unmatched calls get a 200 with an empty JSON object */
+  fetchResponses?: FunctionFetchStub[];
+  /** Call `onBatch` once with every event instead of one handler call per event */
+  batch?: boolean;
+  /** Time limit per handler call in milliseconds (default: 5000) */
+  timeoutMs?: number;
+}
+
+/**
+ * Outcome of one handler call
+ */
+export interface FunctionTestResult {
+  handler: string;
+  /** Value returned by the handler */
+  output?: unknown;
+  error?: { name: string; message: string; stack?: string };
+  logs: Array<{ level: string; message: string }>;
+  fetchCalls: Array<{ url: string; method: string; headers: Record<string, string>; body?: string; stubbed: boolean }>;
+  /** Messages a source function emitted through `Segment.track`, `Segment.identify`, ... */
+  segmentCalls?: Array<Record<string, unknown>>;
+  durationMs: number;
+}
+
+// =============================================================================
+// Harness Modules
+// =============================================================================
+
+/**
+ * Runtime globals, evaluated before the function code so top-level code can use them
+ */
+const GLOBALS_MODULE = `
+const state = { logs: [], fetchCalls: [], segmentCalls: [], fetchResponses: [] };
+globalThis.__harness = state;
+
+function stringify(value) {
+  if (typeof value === 'string') return value;
+  if (value instanceof Error) return value.stack || String(value);
+  try {
+    const text = JSON.stringify(value);
+    return text === undefined ? String(value) : text;
+  } catch {
+    return String(value);
+  }
+}
+
+for (const level of ['log', 'info', 'warn', 'error', 'debug']) {
+  console[level] = (...args) => state.logs.push({ level, message: args.map(stringify).join(' ') });
+}
+
+class SegmentFunctionError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+globalThis.EventNotSupported = class EventNotSupported extends SegmentFunctionError {};
+globalThis.InvalidEventPayload = class InvalidEventPayload extends SegmentFunctionError {};
+globalThis.ValidationError = class ValidationError extends SegmentFunctionError {};
+globalThis.RetryError = class RetryError extends SegmentFunctionError {};
+globalThis.DropEvent = class DropEvent extends SegmentFunctionError {};
+
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+globalThis.fetch = async (input, init) => {
+  const request = new Request(input, init);
+  const body = request.body === null ? undefined : await request.text();
+  const stub = state.fetchResponses.find(
+    (candidate) =>
+      request.url.includes(candidate.url) && (!candidate.method || candidate.method.toUpperCase() === request.method)
+  );
+  state.fetchCalls.push({
+    url: request.url,
+    method: request.method,
+    headers: Object.fromEntries(request.headers),
+    body,
+    stubbed: Boolean(stub),
+  });
+
+  const response = stub || { status: 200, body: {} };
+  const status = response.status || 200;
+  const text = typeof response.body === 'string' ? response.body : JSON.stringify(response.body ?? null);
+  return new Response(NULL_BODY_STATUSES.includes(status) ? null : text, {
+    status,
+    headers: response.headers || { 'content-type': 'application/json' },
+  });
+};
+
+const collect = (type) => (message) => {
+  state.segmentCalls.push({ type, ...message });
+};
+globalThis.Segment = {
+  identify: collect('identify'),
+  track: collect('track'),
+  page: collect('page'),
+  screen: collect('screen'),
+  group: collect('group'),
+  alias: collect('alias'),
+  set: collect('set'),
+};
+`;
+
+/**
+ * Entry point: dispatches each sample to its handler and reports what happened
+ */
+const HARNESS_MODULE = `
+import './globals.js';
+import { handlers } from './function.js';
+
+const state = globalThis.__harness;
+
+function serializeError(error) {
+  return error instanceof Error
+    ? { name: error.name, message: error.message, stack: error.stack }
+    : { name: 'Error', message: String(error) };
+}
+
+function toRequest(sample) {
+  const method = (sample.method || 'POST').toUpperCase();
+  const body =
+    sample.body === undefined || method === 'GET' || method === 'HEAD'
+      ? undefined
+      : typeof sample.body === 'string'
+        ? sample.body
+        : JSON.stringify(sample.body);
+  return new Request(sample.url || 'https://fn.segmentapis.com/', {
+    method,
+    headers: { 'content-type': 'application/json', ...sample.headers },
+    body,
+  });
+}
+
+async function invoke(name, args, timeoutMs) {
+  const handler = handlers[name];
+  if (typeof handler !== 'function') throw new EventNotSupported(name + ' is not defined');
+
+  let timer;
+  const timeout = new Promise((_, reject) => {
+    timer = setTimeout(() => reject(new Error(name + ' timed out after ' + timeoutMs + 'ms')), timeoutMs);
+  });
+  try {
+    return await Promise.race([handler(...args), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export default {
+  async fetch(request) {
+    const { mode, events, settings, fetchResponses, timeoutMs, eventHandlers } = await request.json();
+    state.fetchResponses = fetchResponses;
+
+    const calls =
+      mode === 'batch'
+        ? [{ handler: 'onBatch', args: [events, settings] }]
+        : events.map((event) =>
+            mode === 'source'
+              ? { handler: 'onRequest', args: [toRequest(event), settings] }
+              : { handler: eventHandlers[event.type] || 'on' + String(event.type), args: [event, settings] }
+          );
+
+    const results = [];
+    for (const call of calls) {
+      state.logs = [];
+      state.fetchCalls = [];
+      state.segmentCalls = [];
+      const started = Date.now();
+      const result = { handler: call.handler };
+      try {
+        const output = await invoke(call.handler, call.args, timeoutMs);
+        if (output !== undefined) result.output = output;
+      } catch (error) {
+        result.error = serializeError(error);
+      }
+      result.logs = state.logs;
+      result.fetchCalls = state.fetchCalls;
+      if (mode === 'source') result.segmentCalls = state.segmentCalls;
+      result.durationMs = Date.now() - started;
+      results.push(result);
+    }
+
+    return Response.json({ results });
+  },
+};
+`;
+
+/**
+ * Wrap function code as a module exporting whichever handlers it declares
+ */
+function functionModule(code: string): string {
+  const handlers = HANDLER_NAMES.map((name) => `  ${name}: typeof ${name} === 'function' ? ${name} : undefined,`);
+  return `${code}\n;\nexport const handlers = {\n${handlers.join('\n')}\n};\n`;
+}
+
+// =============================================================================
+// Entry Point
+// =============================================================================
+
+/**
+ * Run function code against sample inputs in an isolated Worker
+ */
+export async function runFunctionTest(
+  loader: WorkerLoader,
+  code: string,
+  options: FunctionTestOptions
+): Promise<FunctionTestResult[]> {
+  if (options.batch && options.resourceType === 'SOURCE') {
+    throw new ValidationError('Source functions have no onBatch handler', { batch: ['Only valid for destination functions'] });
+  }
+
+  const worker = loader.get(null, () => ({
+    compatibilityDate: HARNESS_COMPATIBILITY_DATE,
+    mainModule: 'harness.js',
+    modules: {
+      'harness.js': HARNESS_MODULE,
+      'globals.js': GLOBALS_MODULE,
+      'function.js': functionModule(code),
+    },
+    // No network: fetch is answered by the stubs
+    globalOutbound: null,
+  }));
+
+  let response: Response;
+  try {
+    response = await worker.getEntrypoint().fetch('https://harness.local/', {
+      method: 'POST',
+      body: JSON.stringify({
+        mode: options.resourceType === 'SOURCE' ? 'source' : options.batch ? 'batch' : 'event',
+        events: options.events,
+        settings: options.settings ?? {},
+        fetchResponses: options.fetchResponses ?? [],
+        timeoutMs: options.timeoutMs ?? 5000,
+        eventHandlers: EVENT_HANDLERS,
+      }),
+    });
+  } catch (error) {
+    throw new ValidationError(`Function code could not be loaded: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (!response.ok) {
+    throw new ValidationError(`Function code could not be loaded: ${await response.text()}`);
+  }
+  const { results } = (await response.json()) as { results: FunctionTestResult[] };
+  return results;
+}
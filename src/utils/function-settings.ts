@@ -0,0 +1,82 @@
+/**
+ * Function Settings for Segment MCP Server
+ *
+ * Checks the setting values of a function instance against the settings the
+ * function declares, and masks the sensitive ones in responses.
+ */
+
+import type { FunctionSetting } from '../types/entities.js';
+import { ValidationError } from './errors.js';
+import { REDACTED } from './workspace-config.js';
+
+function matchesType(type: FunctionSetting['type'], value: unknown): boolean {
+  switch (type) {
+    case 'STRING':
+      return typeof value === 'string';
+    case 'BOOLEAN':
+      return typeof value === 'boolean';
+    case 'ARRAY':
+      return Array.isArray(value) && value.every((item) => typeof item === 'string');
+    case 'TEXT_MAP':
+      return (
+        typeof value === 'object' &&
+        value !== null &&
+        !Array.isArray(value) &&
+        Object.values(value).every((item) => typeof item === 'string')
+      );
+  }
+}
+
+const TYPE_LABELS: Record<FunctionSetting['type'], string> = {
+  STRING: 'a string',
+  BOOLEAN: 'a boolean',
+  ARRAY: 'an array of strings',
+  TEXT_MAP: 'an object of string values',
+};
+
+/**
+ * Check setting values against a function's declared settings: required
+ * settings are present, values have the declared type and no undeclared
+ * settings are given. Throws a ValidationError listing every problem.
+ */
+export function validateFunctionSettings(declared: FunctionSetting[], values: Record<string, unknown>): void {
+  const details: Record<string, string[]> = {};
+  const fail = (name: string, message: string) => {
+    details[name] ??= [];
+    details[name].push(message);
+  };
+
+  for (const setting of declared) {
+    const value = values[setting.name];
+    if (value === undefined || value === null || value === '') {
+      if (setting.required) fail(setting.name, `"${setting.label}" is required`);
+    } else if (!matchesType(setting.type, value)) {
+      fail(setting.name, `Must be ${TYPE_LABELS[setting.type]} (${setting.type})`);
+    }
+  }
+
+  const names = new Set(declared.map((setting) => setting.name));
+  for (const name of Object.keys(values)) {
+    if (!names.has(name)) {
+      fail(name, `Not a declared setting of this function (declared: ${[...names].join(', ') || 'none'})`);
+    }
+  }
+
+  if (Object.keys(details).length > 0) {
+    throw new ValidationError('Invalid function settings', details);
+  }
+}
+
+/**
+ * Mask the values of settings declared as sensitive
+ */
+export function redactFunctionSettings(
+  declared: FunctionSetting[],
+  values: Record<string, unknown> | undefined
+): Record<string, unknown> | undefined {
+  if (!values) return values;
+  const sensitive = new Set(declared.filter((setting) => setting.sensitive).map((setting) => setting.name));
+  return Object.fromEntries(
+    Object.entries(values).map(([name, value]) => [name, sensitive.has(name) && value !== undefined ? REDACTED : value])
+  );
+}
@@ -1,2 +1,28 @@
+export * from './csv.js';
+export * from './destination-filters.js';
+export * from './destination-settings.js';
+export * from './diff.js';
+export * from './dry-run.js';
 export * from './errors.js';
 export * from './formatters.js';
+export * from './fql.js';
+export * from './function-analysis.js';
+export * from './function-harness.js';
+export * from './function-settings.js';
+export * from './json-schema.js';
+export * from './retry.js';
+export * from './rule-history.js';
+export * from './schema-compatibility.js';
+export * from './schema-inference.js';
+export * from './text-diff.js';
+export * from './tracking-plan-export.js';
+export * from './tracking-plan-import.js';
+export * from './tracking-plan-lint.js';
+export * from './tracking-plan-promotion.js';
+export * from './tracking-plan-validation.js';
+export * from './tracking-types.js';
+export * from './transformation-preview.js';
+export * from './workspace-config.js';
+export * from './workspace-diff.js';
+export * from './workspace-plan.js';
+export * from './yaml.js';
@@ -0,0 +1,206 @@
+/**
+ * JSON Schema Validation for Segment MCP Server
+ *
+ * A small interpreter for the JSON Schema keywords used by Segment tracking
+ * plan rules. It avoids code generation so it runs inside Workers, where
+ * `eval` and `new Function` are unavailable.
+ */
+
+/**
+ * A JSON Schema document or subschema
+ */
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * A single validation failure
+ */
+export interface SchemaViolation {
+  /** Location of the offending value, e.g. `$.properties.total` */
+  path: string;
+  /** JSON Schema keyword that failed */
+  keyword: string;
+  message: string;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Get the JSON Schema type name of a value
+ */
+export function getJsonType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = getJsonType(value);
+  if (type === 'number') return actual === 'number' || actual === 'integer';
+  return actual === type;
+}
+
+/**
+ * Check whether a value is a (sub)schema object
+ */
+export function isSchema(value: unknown): value is JsonSchema {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Append a property name or array index to a `$`-rooted path
+ */
+export function childPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
+
+/**
+ * Validate a value against a JSON Schema, returning every violation found
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path = '$'): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+  const fail = (keyword: string, message: string, at = path) => violations.push({ path: at, keyword, message });
+
+  // Type
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? (schema.type as string[]) : [schema.type as string];
+    if (!types.some((type) => matchesType(value, type))) {
+      fail('type', `Expected ${types.join(' or ')}, got ${getJsonType(value)}`);
+      // Further keywords would only produce noise for a value of the wrong type
+      return violations;
+    }
+  }
+
+  // Enum / const
+  if (Array.isArray(schema.enum) && !schema.enum.some((option) => deepEqual(option, value))) {
+    fail('enum', `Value ${JSON.stringify(value)} is not one of ${JSON.stringify(schema.enum)}`);
+  }
+  if ('const' in schema && !deepEqual(schema.const, value)) {
+    fail('const', `Value must equal ${JSON.stringify(schema.const)}`);
+  }
+
+  // Strings
+  if (typeof value === 'string') {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+      fail('minLength', `String is shorter than ${schema.minLength} characters`);
+    }
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+      fail('maxLength', `String is longer than ${schema.maxLength} characters`);
+    }
+    if (typeof schema.pattern === 'string') {
+      try {
+        if (!new RegExp(schema.pattern, 'u').test(value)) {
+          fail('pattern', `String does not match pattern ${schema.pattern}`);
+        }
+      } catch {
+        // Ignore patterns that JavaScript cannot compile
+      }
+    }
+    if (schema.format === 'date-time' && Number.isNaN(Date.parse(value))) {
+      fail('format', 'String is not a valid date-time');
+    }
+    if (schema.format === 'email' && !EMAIL_PATTERN.test(value)) {
+      fail('format', 'String is not a valid email address');
+    }
+  }
+
+  // Numbers
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) {
+      fail('minimum', `Value is less than ${schema.minimum}`);
+    }
+    if (typeof schema.maximum === 'number' && value > schema.maximum) {
+      fail('maximum', `Value is greater than ${schema.maximum}`);
+    }
+    if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) {
+      fail('exclusiveMinimum', `Value must be greater than ${schema.exclusiveMinimum}`);
+    }
+    if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) {
+      fail('exclusiveMaximum', `Value must be less than ${schema.exclusiveMaximum}`);
+    }
+  }
+
+  // Arrays
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      fail('minItems', `Array has fewer than ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      fail('maxItems', `Array has more than ${schema.maxItems} items`);
+    }
+    if (isSchema(schema.items)) {
+      const itemSchema = schema.items;
+      value.forEach((item, index) => {
+        violations.push(...validateJsonSchema(item, itemSchema, childPath(path, index)));
+      });
+    }
+  }
+
+  // Objects
+  if (isSchema(value)) {
+    const properties = isSchema(schema.properties) ? schema.properties : {};
+
+    if (Array.isArray(schema.required)) {
+      for (const key of schema.required as string[]) {
+        if (!(key in value) || value[key] === undefined) {
+          fail('required', `Missing required property "${key}"`, childPath(path, key));
+        }
+      }
+    }
+
+    for (const [key, propertyValue] of Object.entries(value)) {
+      if (propertyValue === undefined) continue;
+      const propertySchema = properties[key];
+      if (isSchema(propertySchema)) {
+        violations.push(...validateJsonSchema(propertyValue, propertySchema, childPath(path, key)));
+      } else if (schema.additionalProperties === false) {
+        fail('additionalProperties', `Property "${key}" is not allowed`, childPath(path, key));
+      } else if (isSchema(schema.additionalProperties)) {
+        violations.push(...validateJsonSchema(propertyValue, schema.additionalProperties, childPath(path, key)));
+      }
+    }
+  }
+
+  // Combinators
+  if (Array.isArray(schema.allOf)) {
+    for (const subschema of schema.allOf.filter(isSchema)) {
+      violations.push(...validateJsonSchema(value, subschema, path));
+    }
+  }
+  if (Array.isArray(schema.anyOf)) {
+    const branches = schema.anyOf.filter(isSchema);
+    if (branches.length > 0 && !branches.some((subschema) => validateJsonSchema(value, subschema, path).length === 0)) {
+      fail('anyOf', 'Value does not match any of the allowed schemas');
+    }
+  }
+  if (Array.isArray(schema.oneOf)) {
+    const matches = schema.oneOf
+      .filter(isSchema)
+      .filter((subschema) => validateJsonSchema(value, subschema, path).length === 0).length;
+    if (matches !== 1) {
+      fail('oneOf', `Value matches ${matches} schemas, expected exactly one`);
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Structural equality for JSON values
+ */
+export function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== typeof b || a === null || b === null || typeof a !== 'object') return false;
+
+  if (Array.isArray(a) || Array.isArray(b)) {
+    if (!Array.isArray(a) || !Array.isArray(b) || a.length !== b.length) return false;
+    return a.every((item, index) => deepEqual(item, b[index]));
+  }
+
+  const aRecord = a as Record<string, unknown>;
+  const bRecord = b as Record<string, unknown>;
+  const aKeys = Object.keys(aRecord);
+  if (aKeys.length !== Object.keys(bRecord).length) return false;
+  return aKeys.every((key) => key in bRecord && deepEqual(aRecord[key], bRecord[key]));
+}
@@ -0,0 +1,116 @@
+/**
+ * Retry Utilities for Segment MCP Server
+ *
+ * Jittered exponential backoff for rate-limited (429), server (5xx) and
+ * network failures, honoring the Retry-After header when Segment sends one.
+ */
+
+import { isRetryableError, RateLimitError } from './errors.js';
+
+/**
+ * Retry configuration
+ */
+export interface RetryOptions {
+  /** Maximum number of retries after the initial attempt */
+  maxRetries: number;
+  /** Base delay for exponential backoff in milliseconds */
+  baseDelayMs: number;
+  /** Upper bound for a single backoff delay in milliseconds */
+  maxDelayMs: number;
+  /** Maximum total time spent waiting between retries, shared by all requests of a tool call */
+  maxTotalWaitMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10_000,
+  maxTotalWaitMs: 30_000,
+};
+
+/**
+ * Remaining wait time that retries may still consume
+ */
+export interface RetryBudget {
+  remainingMs: number;
+}
+
+/**
+ * Create a fresh retry budget
+ */
+export function createRetryBudget(options: RetryOptions = DEFAULT_RETRY_OPTIONS): RetryBudget {
+  return { remainingMs: options.maxTotalWaitMs };
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into seconds
+ */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, Math.ceil((date - now) / 1000));
+  }
+
+  return undefined;
+}
+
+/**
+ * Compute a full-jitter exponential backoff delay for the given attempt (0-based)
+ */
+export function computeBackoffDelay(attempt: number, options: RetryOptions = DEFAULT_RETRY_OPTIONS): number {
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  return Math.floor(Math.random() * ceiling);
+}
+
+/**
+ * Compute how long to wait before retrying after an error
+ */
+export function getRetryDelay(error: unknown, attempt: number, options: RetryOptions = DEFAULT_RETRY_OPTIONS): number {
+  const backoff = computeBackoffDelay(attempt, options);
+  if (error instanceof RateLimitError && error.retryAfterSeconds !== undefined) {
+    return Math.max(error.retryAfterSeconds * 1000, backoff);
+  }
+  return backoff;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Run an operation, retrying retryable failures with backoff.
+ *
+ * Non-idempotent operations are never retried. A retry is abandoned (and the
+ * last error rethrown) once its delay would exceed the remaining budget.
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  config: { idempotent: boolean; budget: RetryBudget; options?: RetryOptions }
+): Promise<T> {
+  const options = config.options ?? DEFAULT_RETRY_OPTIONS;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (!config.idempotent || attempt >= options.maxRetries || !isRetryableError(error)) {
+        throw error;
+      }
+
+      const delay = getRetryDelay(error, attempt, options);
+      if (delay > config.budget.remainingMs) {
+        throw error;
+      }
+
+      config.budget.remainingMs -= delay;
+      await sleep(delay);
+    }
+  }
+}
@@ -0,0 +1,230 @@
+/**
+ * Tracking Plan Rule History for Segment MCP Server
+ *
+ * Records every rule set written through the server as a numbered version in
+ * a KV namespace, keyed by workspace and tracking plan, so rule changes can
+ * be audited, diffed and rolled back. The first recorded change also stores
+ * the rule set it replaced as a baseline version.
+ *
+ * KV is eventually consistent and has no transactions: two writes to the same
+ * plan at the same moment can both claim the next version number.
+ */
+
+import type { SegmentClient } from '../client.js';
+import type { TrackingPlanRule } from '../types/entities.js';
+import type { TenantCredentials } from '../types/env.js';
+import { NotFoundError } from './errors.js';
+import { diffRuleSets, ruleId } from './schema-compatibility.js';
+
+/**
+ * The parts of a rule kept in history
+ */
+export type RuleSnapshot = Pick<TrackingPlanRule, 'type' | 'key' | 'jsonSchema'> & { version?: number };
+
+/**
+ * Summary of one recorded version of a tracking plan's rules
+ */
+export interface RuleHistoryEntry {
+  version: number;
+  trackingPlanId: string;
+  recordedAt: string;
+  /** `baseline`: the rules found before the first recorded change */
+  action: 'baseline' | RuleChangeDetails['action'];
+  /** Who made the change, as given by the caller */
+  changedBy?: string;
+  reason?: string;
+  /** Short SHA-256 fingerprint of the access token that made the change */
+  tokenFingerprint?: string;
+  /** Version restored by a rollback */
+  rolledBackTo?: number;
+  /** Rules (`TYPE:key`) added, changed or removed relative to the previous version */
+  changedRules: string[];
+  ruleCount: number;
+}
+
+/**
+ * A recorded version with its full rule set
+ */
+export interface RuleHistoryVersion extends RuleHistoryEntry {
+  rules: RuleSnapshot[];
+}
+
+/**
+ * Details of a change, supplied by the tool that wrote the rules
+ */
+export interface RuleChangeDetails {
+  /** Tool that wrote the rules: direct updates, rollbacks, imports, promotions or workspace config applies */
+  action: 'update' | 'rollback' | 'import' | 'promote' | 'apply';
+  changedBy?: string;
+  reason?: string;
+  rolledBackTo?: number;
+}
+
+/**
+ * Rule history of the tenant's workspace
+ */
+export interface RuleHistory {
+  /** List recorded versions of a plan, newest first */
+  list(trackingPlanId: string): Promise<RuleHistoryEntry[]>;
+  /** Get one recorded version with its rules */
+  get(trackingPlanId: string, version: number): Promise<RuleHistoryVersion>;
+  /** Record the rule set a write produced, given the rule set it replaced */
+  record(
+    trackingPlanId: string,
+    before: RuleSnapshot[],
+    after: RuleSnapshot[],
+    details: RuleChangeDetails
+  ): Promise<RuleHistoryEntry>;
+}
+
+function snapshot(rules: RuleSnapshot[]): RuleSnapshot[] {
+  return rules
+    .map(({ type, key, jsonSchema, version }) => ({ type, key, jsonSchema, ...(version !== undefined && { version }) }))
+    .sort((a, b) => ruleId(a).localeCompare(ruleId(b)));
+}
+
+async function fingerprint(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return [...new Uint8Array(digest)]
+    .slice(0, 6)
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+// =============================================================================
+// KV Implementation
+// =============================================================================
+
+class KvRuleHistory implements RuleHistory {
+  private kv: KVNamespace;
+  private client: SegmentClient;
+  private credentials: TenantCredentials;
+  private workspaceId?: Promise<string>;
+
+  constructor(kv: KVNamespace, client: SegmentClient, credentials: TenantCredentials) {
+    this.kv = kv;
+    this.client = client;
+    this.credentials = credentials;
+  }
+
+  /**
+   * Keys are scoped to the workspace, so tenants sharing a deployment never see each other's history
+   */
+  private async prefix(trackingPlanId: string): Promise<string> {
+    this.workspaceId ??= this.client.getWorkspace().then((workspace) => workspace.id);
+    return `rule-history:${await this.workspaceId}:${trackingPlanId}`;
+  }
+
+  async list(trackingPlanId: string): Promise<RuleHistoryEntry[]> {
+    const entries = await this.kv.get<RuleHistoryEntry[]>(`${await this.prefix(trackingPlanId)}:index`, 'json');
+    return [...(entries ?? [])].reverse();
+  }
+
+  async get(trackingPlanId: string, version: number): Promise<RuleHistoryVersion> {
+    const entry = await this.kv.get<RuleHistoryVersion>(`${await this.prefix(trackingPlanId)}:${version}`, 'json');
+    if (!entry) throw new NotFoundError('Tracking plan rule version', `${trackingPlanId}@${version}`);
+    return entry;
+  }
+
+  async record(
+    trackingPlanId: string,
+    before: RuleSnapshot[],
+    after: RuleSnapshot[],
+    details: RuleChangeDetails
+  ): Promise<RuleHistoryEntry> {
+    const prefix = await this.prefix(trackingPlanId);
+    const entries = (await this.kv.get<RuleHistoryEntry[]>(`${prefix}:index`, 'json')) ?? [];
+    const recordedAt = new Date().toISOString();
+
+    const versions: RuleHistoryVersion[] = [];
+    if (entries.length === 0) {
+      versions.push({
+        version: 1,
+        trackingPlanId,
+        recordedAt,
+        action: 'baseline',
+        changedRules: [],
+        ruleCount: before.length,
+        rules: snapshot(before),
+      });
+    }
+    const version = (entries.at(-1)?.version ?? versions.length) + 1;
+    versions.push({
+      version,
+      trackingPlanId,
+      recordedAt,
+      action: details.action,
+      ...(details.changedBy && { changedBy: details.changedBy }),
+      ...(details.reason && { reason: details.reason }),
+      ...(this.credentials.accessToken && { tokenFingerprint: await fingerprint(this.credentials.accessToken) }),
+      ...(details.rolledBackTo !== undefined && { rolledBackTo: details.rolledBackTo }),
+      changedRules: diffRuleSets(before, after).map((change) => change.rule),
+      ruleCount: after.length,
+      rules: snapshot(after),
+    });
+
+    // Write the versions before the index so a listed version can always be read
+    for (const entry of versions) {
+      await this.kv.put(`${prefix}:${entry.version}`, JSON.stringify(entry));
+    }
+    const summaries = versions.map(({ rules: _rules, ...summary }) => summary);
+    await this.kv.put(`${prefix}:index`, JSON.stringify([...entries, ...summaries]));
+
+    return summaries[summaries.length - 1];
+  }
+}
+
+/**
+ * Version recorded for a rule write, or why it was not recorded
+ */
+export interface RuleHistoryResult {
+  historyVersion?: number;
+  historyError?: string;
+}
+
+/**
+ * Record the rules a write produced, read back from the tracking plan. The
+ * write has already succeeded, so a history failure is reported alongside the
+ * result instead of as an error.
+ */
+export async function recordRuleChange(
+  history: RuleHistory,
+  client: SegmentClient,
+  trackingPlanId: string,
+  before: RuleSnapshot[],
+  details: RuleChangeDetails
+): Promise<RuleHistoryResult> {
+  try {
+    const after = await client.listAll((page) => client.listTrackingPlanRules(trackingPlanId, page));
+    const entry = await history.record(trackingPlanId, before, after.data, details);
+    return { historyVersion: entry.version };
+  } catch (error) {
+    return { historyError: `Rules were saved but not recorded in the rule history: ${error instanceof Error ? error.message : String(error)}` };
+  }
+}
+
+/**
+ * Upsert rules into a tracking plan, recording the change when rule history is enabled
+ */
+export async function updateRulesWithHistory(
+  client: SegmentClient,
+  history: RuleHistory | undefined,
+  trackingPlanId: string,
+  rules: RuleSnapshot[],
+  details: RuleChangeDetails
+): Promise<RuleHistoryResult> {
+  const before = history ? (await client.listAll((page) => client.listTrackingPlanRules(trackingPlanId, page))).data : [];
+  await client.updateTrackingPlanRules(trackingPlanId, rules);
+  return history ? recordRuleChange(history, client, trackingPlanId, before, details) : {};
+}
+
+/**
+ * Create the rule history for a tenant, or undefined when no KV namespace is bound
+ */
+export function createRuleHistory(
+  kv: KVNamespace | undefined,
+  client: SegmentClient,
+  credentials: TenantCredentials
+): RuleHistory | undefined {
+  return kv ? new KvRuleHistory(kv, client, credentials) : undefined;
+}
@@ -0,0 +1,260 @@
+/**
+ * JSON Schema Compatibility for Segment MCP Server
+ *
+ * Compares two versions of a tracking plan rule schema, or two whole rule
+ * sets, and classifies each difference as breaking (events or consumers that
+ * worked before may fail) or compatible.
+ */
+
+import type { TrackingPlanRule } from '../types/entities.js';
+import { childPath, deepEqual, isSchema, type JsonSchema } from './json-schema.js';
+
+export type SchemaChangeKind =
+  | 'property_added'
+  | 'property_removed'
+  | 'required_added'
+  | 'required_removed'
+  | 'type_narrowed'
+  | 'type_widened'
+  | 'enum_narrowed'
+  | 'enum_widened'
+  | 'additional_properties_disallowed'
+  | 'constraint_tightened'
+  | 'constraint_loosened';
+
+/**
+ * A single difference between two schema versions
+ */
+export interface SchemaChange {
+  /** Location of the affected value, e.g. `$.properties.total` */
+  path: string;
+  kind: SchemaChangeKind;
+  breaking: boolean;
+  message: string;
+}
+
+const BREAKING_KINDS = new Set<SchemaChangeKind>([
+  'property_removed',
+  'required_added',
+  'required_removed',
+  'type_narrowed',
+  'enum_narrowed',
+  'additional_properties_disallowed',
+  'constraint_tightened',
+]);
+
+/** Lower bounds: raising them tightens the schema */
+const MINIMUM_KEYWORDS = ['minimum', 'exclusiveMinimum', 'minLength', 'minItems'];
+/** Upper bounds: lowering them tightens the schema */
+const MAXIMUM_KEYWORDS = ['maximum', 'exclusiveMaximum', 'maxLength', 'maxItems'];
+
+function typesOf(schema: JsonSchema): string[] | undefined {
+  if (schema.type === undefined) return undefined;
+  return Array.isArray(schema.type) ? (schema.type as string[]) : [schema.type as string];
+}
+
+function coversType(types: string[], type: string): boolean {
+  return types.includes(type) || (type === 'integer' && types.includes('number'));
+}
+
+/**
+ * Compare two schema versions, returning every difference found
+ */
+export function compareSchemas(before: JsonSchema, after: JsonSchema, path = '$'): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+  const record = (kind: SchemaChangeKind, message: string, at = path) =>
+    changes.push({ path: at, kind, breaking: BREAKING_KINDS.has(kind), message });
+
+  // Type
+  const beforeTypes = typesOf(before);
+  const afterTypes = typesOf(after);
+  if (afterTypes && (!beforeTypes || beforeTypes.some((type) => !coversType(afterTypes, type)))) {
+    record('type_narrowed', `Type narrowed from ${beforeTypes?.join(' | ') ?? 'any'} to ${afterTypes.join(' | ')}`);
+  } else if (beforeTypes && (!afterTypes || afterTypes.some((type) => !coversType(beforeTypes, type)))) {
+    record('type_widened', `Type widened from ${beforeTypes.join(' | ')} to ${afterTypes?.join(' | ') ?? 'any'}`);
+  }
+
+  // Enum
+  const beforeEnum = Array.isArray(before.enum) ? before.enum : undefined;
+  const afterEnum = Array.isArray(after.enum) ? after.enum : undefined;
+  if (afterEnum) {
+    const removed = beforeEnum
+      ? beforeEnum.filter((value) => !afterEnum.some((option) => deepEqual(option, value)))
+      : undefined;
+    if (!removed || removed.length > 0) {
+      record('enum_narrowed', removed ? `Allowed values removed: ${JSON.stringify(removed)}` : 'Values restricted to an enum');
+    } else if (beforeEnum && afterEnum.length > beforeEnum.length) {
+      record('enum_widened', 'Allowed values added');
+    }
+  } else if (beforeEnum) {
+    record('enum_widened', 'Enum restriction removed');
+  }
+
+  // Bounds and patterns
+  for (const keyword of [...MINIMUM_KEYWORDS, ...MAXIMUM_KEYWORDS]) {
+    const from = before[keyword];
+    const to = after[keyword];
+    if (from === to) continue;
+    const isMinimum = MINIMUM_KEYWORDS.includes(keyword);
+    const tightened =
+      typeof to === 'number' && (typeof from !== 'number' || (isMinimum ? to > from : to < from));
+    record(
+      tightened ? 'constraint_tightened' : 'constraint_loosened',
+      `${keyword} changed from ${from ?? 'unset'} to ${to ?? 'unset'}`
+    );
+  }
+  for (const keyword of ['pattern', 'format', 'const']) {
+    if (deepEqual(before[keyword], after[keyword])) continue;
+    record(
+      after[keyword] === undefined ? 'constraint_loosened' : 'constraint_tightened',
+      `${keyword} changed from ${JSON.stringify(before[keyword]) ?? 'unset'} to ${JSON.stringify(after[keyword]) ?? 'unset'}`
+    );
+  }
+
+  // Required properties
+  const beforeRequired = new Set(Array.isArray(before.required) ? (before.required as string[]) : []);
+  const afterRequired = new Set(Array.isArray(after.required) ? (after.required as string[]) : []);
+  for (const key of afterRequired) {
+    if (!beforeRequired.has(key)) record('required_added', `Property "${key}" is now required`, childPath(path, key));
+  }
+  for (const key of beforeRequired) {
+    if (!afterRequired.has(key)) record('required_removed', `Property "${key}" is no longer required`, childPath(path, key));
+  }
+
+  // Properties
+  const beforeProperties = isSchema(before.properties) ? before.properties : {};
+  const afterProperties = isSchema(after.properties) ? after.properties : {};
+  for (const key of Object.keys(beforeProperties)) {
+    if (!(key in afterProperties)) {
+      record('property_removed', `Property "${key}" was removed`, childPath(path, key));
+    }
+  }
+  for (const [key, schema] of Object.entries(afterProperties)) {
+    const previous = beforeProperties[key];
+    if (previous === undefined) {
+      record('property_added', `Property "${key}" was added`, childPath(path, key));
+    } else if (isSchema(previous) && isSchema(schema)) {
+      changes.push(...compareSchemas(previous, schema, childPath(path, key)));
+    }
+  }
+
+  if (after.additionalProperties === false && before.additionalProperties !== false) {
+    record('additional_properties_disallowed', 'Properties not in the schema are no longer allowed');
+  }
+
+  // Array items
+  if (isSchema(before.items) && isSchema(after.items)) {
+    changes.push(...compareSchemas(before.items, after.items, `${path}[]`));
+  }
+
+  return changes;
+}
+
+/**
+ * Keep only the breaking changes
+ */
+export function findBreakingChanges(before: JsonSchema, after: JsonSchema): SchemaChange[] {
+  return compareSchemas(before, after).filter((change) => change.breaking);
+}
+
+// =============================================================================
+// Rule Sets
+// =============================================================================
+
+/**
+ * Build the `TYPE:key` identifier of a rule
+ */
+export function ruleId(rule: Pick<TrackingPlanRule, 'type' | 'key'>): string {
+  return `${rule.type}:${rule.key}`;
+}
+
+/**
+ * The parts of a rule that affect compatibility
+ */
+type RuleSchema = Pick<TrackingPlanRule, 'type' | 'key' | 'jsonSchema'>;
+
+/**
+ * How one rule differs between two rule sets
+ */
+export interface RuleSetChange {
+  /** Rule identifier, `TYPE:key` */
+  rule: string;
+  type: TrackingPlanRule['type'];
+  key: string;
+  status: 'added' | 'removed' | 'changed';
+  breaking: boolean;
+  schemaChanges: SchemaChange[];
+}
+
+/**
+ * Result of checking proposed rules against the current ones
+ */
+export interface RuleCompatibilityReport {
+  /** True when no change is breaking */
+  compatible: boolean;
+  summary: { added: number; changed: number; removed: number; unchanged: number; breaking: number };
+  changes: RuleSetChange[];
+}
+
+/**
+ * Compare two rule sets rule by rule
+ */
+export function diffRuleSets(before: RuleSchema[], after: RuleSchema[]): RuleSetChange[] {
+  const previous = new Map(before.map((rule) => [ruleId(rule), rule]));
+  const next = new Map(after.map((rule) => [ruleId(rule), rule]));
+  const changes: RuleSetChange[] = [];
+
+  for (const [id, rule] of next) {
+    const old = previous.get(id);
+    if (old && deepEqual(old.jsonSchema, rule.jsonSchema)) continue;
+    const schemaChanges = old ? compareSchemas(old.jsonSchema, rule.jsonSchema) : [];
+    changes.push({
+      rule: id,
+      type: rule.type,
+      key: rule.key,
+      status: old ? 'changed' : 'added',
+      breaking: schemaChanges.some((change) => change.breaking),
+      schemaChanges,
+    });
+  }
+
+  for (const [id, rule] of previous) {
+    if (next.has(id)) continue;
+    // Removing a rule stops validating its events, which breaks consumers relying on it
+    changes.push({ rule: id, type: rule.type, key: rule.key, status: 'removed', breaking: true, schemaChanges: [] });
+  }
+
+  return changes.sort((a, b) => a.rule.localeCompare(b.rule));
+}
+
+/**
+ * Check proposed rules against the current ones.
+ *
+ * Proposed rules are upserted by type and key, as `updateTrackingPlanRules`
+ * does; with `replace`, they are the complete new rule set and current rules
+ * missing from it count as removed.
+ */
+export function checkRuleCompatibility(
+  current: RuleSchema[],
+  proposed: RuleSchema[],
+  options: { replace?: boolean } = {}
+): RuleCompatibilityReport {
+  const after = options.replace
+    ? proposed
+    : [...new Map([...current, ...proposed].map((rule) => [ruleId(rule), rule])).values()];
+  const changes = diffRuleSets(current, after);
+  const count = (status: RuleSetChange['status']) => changes.filter((change) => change.status === status).length;
+  const breaking = changes.filter((change) => change.breaking).length;
+
+  return {
+    compatible: breaking === 0,
+    summary: {
+      added: count('added'),
+      changed: count('changed'),
+      removed: count('removed'),
+      unchanged: after.length - count('added') - count('changed'),
+      breaking,
+    },
+    changes,
+  };
+}
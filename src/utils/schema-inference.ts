@@ -0,0 +1,200 @@
+/**
+ * Tracking Plan Inference for Segment MCP Server
+ *
+ * Infers draft tracking plan rules from sample Segment messages: property
+ * types, required vs optional by frequency, enum candidates for
+ * low-cardinality strings, string formats and nested object schemas.
+ */
+
+import type { TrackingPlanRule } from '../types/entities.js';
+import { getJsonType, type JsonSchema } from './json-schema.js';
+import { buildRuleSchema, type ImportedRule, rulePayloadField } from './tracking-plan-import.js';
+import type { ValidatableTrackingPayload } from './tracking-plan-validation.js';
+
+export interface InferTrackingPlanOptions {
+  /** Share of samples a property must appear in to be required, 0-1 (default: 1) */
+  requiredThreshold?: number;
+  /** Largest number of distinct string values to propose as an enum; 0 disables enums (default: 10) */
+  maxEnumValues?: number;
+  /** Fewest string samples needed before proposing an enum (default: 5) */
+  minEnumSamples?: number;
+}
+
+/**
+ * A draft rule plus how many samples it was inferred from
+ */
+export interface InferredRule extends ImportedRule {
+  sampleCount: number;
+}
+
+export interface TrackingPlanInference {
+  rules: InferredRule[];
+  /** Messages that could not be mapped to a rule, e.g. alias calls or track calls without an event */
+  skipped: number;
+}
+
+const DATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Observations for one value position (a property, or the items of an array)
+ */
+interface ValueStats {
+  /** Number of times a value was seen here */
+  count: number;
+  types: Map<string, number>;
+  /** Distinct string values, capped once the enum limit is exceeded */
+  strings: Map<string, number>;
+  stringCount: number;
+  dateTimes: number;
+  emails: number;
+  /** Number of object values seen, the denominator for child frequency */
+  objectCount: number;
+  properties: Map<string, ValueStats>;
+  items?: ValueStats;
+}
+
+function createStats(): ValueStats {
+  return {
+    count: 0,
+    types: new Map(),
+    strings: new Map(),
+    stringCount: 0,
+    dateTimes: 0,
+    emails: 0,
+    objectCount: 0,
+    properties: new Map(),
+  };
+}
+
+function observe(stats: ValueStats, value: unknown, enumLimit: number): void {
+  const type = getJsonType(value);
+  stats.count++;
+  stats.types.set(type, (stats.types.get(type) ?? 0) + 1);
+
+  if (typeof value === 'string') {
+    stats.stringCount++;
+    if (DATE_TIME_PATTERN.test(value)) stats.dateTimes++;
+    if (EMAIL_PATTERN.test(value)) stats.emails++;
+    if (stats.strings.has(value) || stats.strings.size <= enumLimit) {
+      stats.strings.set(value, (stats.strings.get(value) ?? 0) + 1);
+    }
+  } else if (Array.isArray(value)) {
+    stats.items ??= createStats();
+    for (const item of value) observe(stats.items, item, enumLimit);
+  } else if (type === 'object') {
+    stats.objectCount++;
+    for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+      if (child === undefined) continue;
+      let childStats = stats.properties.get(key);
+      if (!childStats) {
+        childStats = createStats();
+        stats.properties.set(key, childStats);
+      }
+      observe(childStats, child, enumLimit);
+    }
+  }
+}
+
+function toSchema(stats: ValueStats, options: Required<InferTrackingPlanOptions>): JsonSchema {
+  const types = new Set(stats.types.keys());
+  // Integers seen alongside fractional numbers are just numbers
+  if (types.has('integer') && types.has('number')) types.delete('integer');
+  const typeList = [...types].sort();
+  const schema: JsonSchema = { type: typeList.length === 1 ? typeList[0] : typeList };
+
+  if (types.has('string')) {
+    const distinct = stats.strings.size;
+    if (stats.dateTimes === stats.stringCount) {
+      schema.format = 'date-time';
+    } else if (stats.emails === stats.stringCount) {
+      schema.format = 'email';
+    } else if (
+      types.size === 1 &&
+      options.maxEnumValues > 0 &&
+      distinct >= 2 &&
+      distinct <= options.maxEnumValues &&
+      stats.stringCount >= options.minEnumSamples &&
+      distinct < stats.stringCount
+    ) {
+      schema.enum = [...stats.strings.keys()].sort();
+    }
+  }
+
+  if (types.has('object')) {
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+    for (const [key, child] of [...stats.properties].sort(([a], [b]) => a.localeCompare(b))) {
+      properties[key] = toSchema(child, options);
+      if (child.count / stats.objectCount >= options.requiredThreshold) required.push(key);
+    }
+    schema.properties = properties;
+    if (required.length > 0) schema.required = required;
+  }
+
+  if (types.has('array') && stats.items) {
+    schema.items = toSchema(stats.items, options);
+  }
+
+  return schema;
+}
+
+function ruleFor(message: ValidatableTrackingPayload): Pick<TrackingPlanRule, 'type' | 'key'> | undefined {
+  switch (message.type) {
+    case 'track':
+      return typeof message.event === 'string' && message.event ? { type: 'TRACK', key: message.event } : undefined;
+    case 'identify':
+      return { type: 'IDENTIFY', key: '' };
+    case 'group':
+      return { type: 'GROUP', key: '' };
+    case 'page':
+      return { type: 'PAGE', key: '' };
+    case 'screen':
+      return { type: 'SCREEN', key: '' };
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Infer draft tracking plan rules from sample messages
+ */
+export function inferTrackingPlanRules(
+  messages: ValidatableTrackingPayload[],
+  options: InferTrackingPlanOptions = {}
+): TrackingPlanInference {
+  const resolved: Required<InferTrackingPlanOptions> = {
+    requiredThreshold: options.requiredThreshold ?? 1,
+    maxEnumValues: options.maxEnumValues ?? 10,
+    minEnumSamples: options.minEnumSamples ?? 5,
+  };
+  const groups = new Map<string, { rule: Pick<TrackingPlanRule, 'type' | 'key'>; stats: ValueStats }>();
+  let skipped = 0;
+
+  for (const message of messages) {
+    const rule = ruleFor(message);
+    if (!rule) {
+      skipped++;
+      continue;
+    }
+
+    const id = `${rule.type}:${rule.key}`;
+    let group = groups.get(id);
+    if (!group) {
+      group = { rule, stats: createStats() };
+      groups.set(id, group);
+    }
+    const payload = message[rulePayloadField(rule.type)];
+    observe(group.stats, typeof payload === 'object' && payload !== null ? payload : {}, resolved.maxEnumValues);
+  }
+
+  const rules = [...groups.values()]
+    .sort((a, b) => a.rule.type.localeCompare(b.rule.type) || a.rule.key.localeCompare(b.rule.key))
+    .map(({ rule, stats }) => ({
+      ...rule,
+      jsonSchema: buildRuleSchema(rule.type, toSchema(stats, resolved)),
+      sampleCount: stats.count,
+    }));
+
+  return { rules, skipped };
+}
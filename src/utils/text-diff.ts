@@ -0,0 +1,176 @@
+/**
+ * Line Diff Utilities for Segment MCP Server
+ *
+ * Myers line diff and unified diff rendering, used to compare versions of
+ * function and transformation code.
+ */
+
+/**
+ * One line of a line diff
+ */
+export interface LineEdit {
+  op: 'equal' | 'insert' | 'delete';
+  line: string;
+  /** 1-based line number in the old text (equal and delete) */
+  oldLine?: number;
+  /** 1-based line number in the new text (equal and insert) */
+  newLine?: number;
+}
+
+export interface UnifiedDiff {
+  /** Unified diff text, empty when the texts are identical */
+  diff: string;
+  additions: number;
+  deletions: number;
+}
+
+function splitLines(text: string): string[] {
+  if (text === '') return [];
+  return text.replace(/\r\n/g, '\n').replace(/\n$/, '').split('\n');
+}
+
+/**
+ * Find a point on a shortest edit path between `a[aLo..aHi)` and
+ * `b[bLo..bHi)` by running Myers' algorithm from both ends until the paths
+ * meet, returning it relative to `(aLo, bLo)`. Uses linear space.
+ */
+function middlePoint(a: string[], b: string[], aLo: number, aHi: number, bLo: number, bHi: number): [number, number] {
+  const n = aHi - aLo;
+  const m = bHi - bLo;
+  const maxD = Math.ceil((n + m) / 2);
+  const offset = maxD;
+  // Furthest x reached on each diagonal, forward from the start and backward from the end
+  const forward = new Int32Array(2 * maxD + 2).fill(-1);
+  const backward = new Int32Array(2 * maxD + 2).fill(-1);
+  forward[offset + 1] = 0;
+  backward[offset + 1] = 0;
+  const delta = n - m;
+  // With an odd delta the paths meet during a forward step, otherwise during a backward step
+  const odd = delta % 2 !== 0;
+  // Diagonals that left the grid are skipped on later steps
+  let forwardStart = 0;
+  let forwardEnd = 0;
+  let backwardStart = 0;
+  let backwardEnd = 0;
+
+  for (let d = 0; d < maxD; d++) {
+    for (let k = -d + forwardStart; k <= d - forwardEnd; k += 2) {
+      const i = offset + k;
+      let x = k === -d || (k !== d && forward[i - 1] < forward[i + 1]) ? forward[i + 1] : forward[i - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[aLo + x] === b[bLo + y]) {
+        x++;
+        y++;
+      }
+      forward[i] = x;
+      if (x > n) {
+        forwardEnd += 2;
+      } else if (y > m) {
+        forwardStart += 2;
+      } else if (odd) {
+        const j = offset + delta - k;
+        if (j >= 0 && j < backward.length && backward[j] !== -1 && x >= n - backward[j]) return [x, y];
+      }
+    }
+
+    for (let k = -d + backwardStart; k <= d - backwardEnd; k += 2) {
+      const i = offset + k;
+      let x = k === -d || (k !== d && backward[i - 1] < backward[i + 1]) ? backward[i + 1] : backward[i - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[aHi - 1 - x] === b[bHi - 1 - y]) {
+        x++;
+        y++;
+      }
+      backward[i] = x;
+      if (x > n) {
+        backwardEnd += 2;
+      } else if (y > m) {
+        backwardStart += 2;
+      } else if (!odd) {
+        const j = offset + delta - k;
+        if (j >= 0 && j < forward.length && forward[j] !== -1 && forward[j] >= n - x) {
+          return [forward[j], forward[j] - (j - offset)];
+        }
+      }
+    }
+  }
+
+  // No line in common: delete everything, then insert everything
+  return [n, 0];
+}
+
+/**
+ * Append the edits turning `a[aLo..aHi)` into `b[bLo..bHi)`, splitting the
+ * ranges at a point on a shortest edit path until one side is empty
+ */
+function diffRange(a: string[], b: string[], aLo: number, aHi: number, bLo: number, bHi: number, edits: LineEdit[]): void {
+  while (aLo < aHi && bLo < bHi && a[aLo] === b[bLo]) {
+    edits.push({ op: 'equal', line: a[aLo], oldLine: aLo + 1, newLine: bLo + 1 });
+    aLo++;
+    bLo++;
+  }
+  let suffix = 0;
+  while (aHi - suffix > aLo && bHi - suffix > bLo && a[aHi - suffix - 1] === b[bHi - suffix - 1]) suffix++;
+
+  if (aLo === aHi - suffix || bLo === bHi - suffix) {
+    for (let x = aLo; x < aHi - suffix; x++) edits.push({ op: 'delete', line: a[x], oldLine: x + 1 });
+    for (let y = bLo; y < bHi - suffix; y++) edits.push({ op: 'insert', line: b[y], newLine: y + 1 });
+  } else {
+    const [x, y] = middlePoint(a, b, aLo, aHi - suffix, bLo, bHi - suffix);
+    diffRange(a, b, aLo, aLo + x, bLo, bLo + y, edits);
+    diffRange(a, b, aLo + x, aHi - suffix, bLo + y, bHi - suffix, edits);
+  }
+
+  for (let n = suffix; n > 0; n--) {
+    edits.push({ op: 'equal', line: a[aHi - n], oldLine: aHi - n + 1, newLine: bHi - n + 1 });
+  }
+}
+
+/**
+ * Compute the shortest line edit script between two texts (Myers' algorithm
+ * in its linear-space form, so memory stays proportional to the line count)
+ */
+export function diffLines(before: string, after: string): LineEdit[] {
+  const a = splitLines(before);
+  const b = splitLines(after);
+  const edits: LineEdit[] = [];
+  diffRange(a, b, 0, a.length, 0, b.length, edits);
+  return edits;
+}
+
+/**
+ * Render a unified diff (`---`/`+++` headers and `@@` hunks) between two texts
+ */
+export function unifiedDiff(before: string, after: string, fromLabel = 'before', toLabel = 'after', context = 3): UnifiedDiff {
+  const edits = diffLines(before, after);
+  const additions = edits.filter((edit) => edit.op === 'insert').length;
+  const deletions = edits.filter((edit) => edit.op === 'delete').length;
+  if (additions === 0 && deletions === 0) return { diff: '', additions, deletions };
+
+  // Group changed lines, with their surrounding context, into hunks
+  const hunks: Array<[number, number]> = [];
+  edits.forEach((edit, index) => {
+    if (edit.op === 'equal') return;
+    const start = Math.max(0, index - context);
+    const end = Math.min(edits.length, index + context + 1);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last[1]) last[1] = Math.max(last[1], end);
+    else hunks.push([start, end]);
+  });
+
+  const lines = [`--- ${fromLabel}`, `+++ ${toLabel}`];
+  for (const [start, end] of hunks) {
+    const hunk = edits.slice(start, end);
+    const oldLines = hunk.filter((edit) => edit.op !== 'insert');
+    const newLines = hunk.filter((edit) => edit.op !== 'delete');
+    // Line numbers of an empty side point at the line before the hunk
+    const oldStart = oldLines[0]?.oldLine ?? (edits.slice(0, start).filter((edit) => edit.op !== 'insert').length);
+    const newStart = newLines[0]?.newLine ?? (edits.slice(0, start).filter((edit) => edit.op !== 'delete').length);
+    lines.push(`@@ -${oldStart},${oldLines.length} +${newStart},${newLines.length} @@`);
+    for (const edit of hunk) {
+      lines.push(`${edit.op === 'insert' ? '+' : edit.op === 'delete' ? '-' : ' '}${edit.line}`);
+    }
+  }
+
+  return { diff: `${lines.join('\n')}\n`, additions, deletions };
+}
@@ -0,0 +1,206 @@
+/**
+ * Tracking Plan Export for Segment MCP Server
+ *
+ * Renders tracking plan rules for use outside Segment: a flat CSV data
+ * dictionary, a Markdown data dictionary and a JSON Schema bundle. The CSV
+ * and bundle layouts match what the tracking plan import accepts.
+ */
+
+import type { TrackingPlanRule } from '../types/entities.js';
+import { toCsv } from './csv.js';
+import { isSchema, type JsonSchema } from './json-schema.js';
+import { rulePayloadField } from './tracking-plan-import.js';
+
+export const TRACKING_PLAN_EXPORT_FORMATS = ['csv', 'dictionary', 'json_schema'] as const;
+
+export type TrackingPlanExportFormat = (typeof TRACKING_PLAN_EXPORT_FORMATS)[number];
+
+/**
+ * One documented property of a rule, with nested properties flattened to dotted paths
+ */
+export interface DictionaryProperty {
+  path: string;
+  type: string;
+  required: boolean;
+  enum?: unknown[];
+  description?: string;
+}
+
+const RULE_ORDER: TrackingPlanRule['type'][] = ['IDENTIFY', 'GROUP', 'TRACK', 'PAGE', 'SCREEN', 'COMMON'];
+
+function sortRules(rules: TrackingPlanRule[]): TrackingPlanRule[] {
+  return [...rules].sort(
+    (a, b) => RULE_ORDER.indexOf(a.type) - RULE_ORDER.indexOf(b.type) || a.key.localeCompare(b.key)
+  );
+}
+
+/**
+ * Describe a schema's type the way a spreadsheet would (`string | null`, `string[]`, `date-time`)
+ */
+export function describeType(schema: JsonSchema): string {
+  if (Array.isArray(schema.anyOf) || Array.isArray(schema.oneOf)) {
+    const branches = [...((schema.anyOf as unknown[]) ?? []), ...((schema.oneOf as unknown[]) ?? [])].filter(isSchema);
+    return branches.map(describeType).join(' | ');
+  }
+  if (schema.type === undefined) return isSchema(schema.properties) ? 'object' : 'any';
+
+  const types = Array.isArray(schema.type) ? (schema.type as string[]) : [schema.type as string];
+  return types
+    .map((type) => {
+      if (type === 'array') return isSchema(schema.items) ? `${describeType(schema.items)}[]` : 'array';
+      if (type === 'string' && (schema.format === 'date-time' || schema.format === 'email')) return schema.format;
+      return type;
+    })
+    .join(' | ');
+}
+
+/**
+ * Flatten a payload schema into one entry per property, depth-first
+ */
+export function flattenProperties(schema: JsonSchema, prefix = ''): DictionaryProperty[] {
+  const properties = isSchema(schema.properties) ? schema.properties : {};
+  const required = new Set(Array.isArray(schema.required) ? (schema.required as string[]) : []);
+
+  return Object.entries(properties).flatMap(([name, property]) => {
+    if (!isSchema(property)) return [];
+    const path = prefix ? `${prefix}.${name}` : name;
+    return [
+      {
+        path,
+        type: describeType(property),
+        required: required.has(name),
+        ...(Array.isArray(property.enum) && { enum: property.enum }),
+        ...(typeof property.description === 'string' && { description: property.description }),
+      },
+      ...flattenProperties(property, path),
+    ];
+  });
+}
+
+/**
+ * Get a rule's payload schema (its event properties or traits)
+ */
+export function rulePayloadSchema(rule: TrackingPlanRule): JsonSchema {
+  const properties = isSchema(rule.jsonSchema.properties) ? rule.jsonSchema.properties : {};
+  const schema = properties[rulePayloadField(rule.type)];
+  return isSchema(schema) ? schema : {};
+}
+
+function eventName(rule: TrackingPlanRule): string {
+  return rule.key || rule.type.toLowerCase();
+}
+
+/**
+ * Get a rule's description, set on the rule schema or on its payload schema
+ */
+export function ruleDescription(rule: TrackingPlanRule): string | undefined {
+  const description = rule.jsonSchema.description ?? rulePayloadSchema(rule).description;
+  return typeof description === 'string' ? description : undefined;
+}
+
+// =============================================================================
+// Formats
+// =============================================================================
+
+/**
+ * Flat CSV data dictionary: one row per event property
+ */
+export function toCsvDataDictionary(rules: TrackingPlanRule[]): string {
+  const rows: unknown[][] = [['event', 'rule type', 'property', 'type', 'required', 'enum', 'description']];
+
+  for (const rule of sortRules(rules)) {
+    const properties = flattenProperties(rulePayloadSchema(rule));
+    const description = ruleDescription(rule);
+    // Events without properties still get a row so they survive a round trip
+    if (description || properties.length === 0) {
+      rows.push([eventName(rule), rule.type, '', '', '', '', description]);
+    }
+    for (const property of properties) {
+      rows.push([
+        eventName(rule),
+        rule.type,
+        property.path,
+        property.type,
+        property.required ? 'yes' : 'no',
+        // JSON keeps value types and values containing `|` intact on re-import
+        property.enum && JSON.stringify(property.enum),
+        property.description,
+      ]);
+    }
+  }
+
+  return toCsv(rows);
+}
+
+function escapeMarkdown(value: unknown): string {
+  return String(value ?? '')
+    .replace(/\|/g, '\\|')
+    .replace(/\r?\n/g, ' ');
+}
+
+/**
+ * Human-readable Markdown data dictionary with a section per event
+ */
+export function toMarkdownDataDictionary(rules: TrackingPlanRule[], title = 'Tracking Plan'): string {
+  const lines = [`# ${title} Data Dictionary`, ''];
+  const sorted = sortRules(rules);
+
+  lines.push(`${sorted.length} rule${sorted.length === 1 ? '' : 's'}`, '');
+
+  for (const rule of sorted) {
+    const heading = rule.type === 'TRACK' ? rule.key : `${rule.type[0]}${rule.type.slice(1).toLowerCase()}${rule.key ? `: ${rule.key}` : ''}`;
+    lines.push(`## ${heading}`, '');
+
+    const description = ruleDescription(rule);
+    if (description) lines.push(description, '');
+
+    const properties = flattenProperties(rulePayloadSchema(rule));
+    if (properties.length === 0) {
+      lines.push(`_No ${rulePayloadField(rule.type)} defined._`, '');
+      continue;
+    }
+
+    lines.push('| Property | Type | Required | Allowed Values | Description |', '|---|---|---|---|---|');
+    for (const property of properties) {
+      lines.push(
+        `| \`${escapeMarkdown(property.path)}\` | ${escapeMarkdown(property.type)} | ${property.required ? 'Yes' : 'No'} | ${escapeMarkdown(
+          property.enum?.map((value) => JSON.stringify(value)).join(', ')
+        )} | ${escapeMarkdown(property.description)} |`
+      );
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * JSON Schema bundle keyed by file path, e.g. `track/Order Completed.json` or `identify.json`
+ */
+export function toJsonSchemaBundle(rules: TrackingPlanRule[]): Record<string, JsonSchema> {
+  return Object.fromEntries(
+    sortRules(rules).map((rule) => {
+      const directory = rule.type.toLowerCase();
+      const path = rule.key ? `${directory}/${rule.key.replace(/\//g, '_')}.json` : `${directory}.json`;
+      return [path, rule.key ? { title: rule.key, ...rule.jsonSchema } : rule.jsonSchema];
+    })
+  );
+}
+
+/**
+ * Render rules in one of the export formats
+ */
+export function exportTrackingPlanRules(
+  rules: TrackingPlanRule[],
+  format: TrackingPlanExportFormat,
+  title?: string
+): string {
+  switch (format) {
+    case 'csv':
+      return toCsvDataDictionary(rules);
+    case 'dictionary':
+      return toMarkdownDataDictionary(rules, title);
+    case 'json_schema':
+      return JSON.stringify(toJsonSchemaBundle(rules), null, 2);
+  }
+}
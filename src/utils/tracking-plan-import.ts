@@ -0,0 +1,459 @@
+/**
+ * Tracking Plan Import for Segment MCP Server
+ *
+ * Converts tracking plans maintained outside Segment into tracking plan
+ * rules: CSV spreadsheets, bundles of JSON Schema files and Avo-style JSON
+ * exports.
+ */
+
+import type { TrackingPlanRule } from '../types/entities.js';
+import { parseCsv } from './csv.js';
+import { ValidationError } from './errors.js';
+import { isSchema, type JsonSchema } from './json-schema.js';
+
+export const TRACKING_PLAN_IMPORT_FORMATS = ['csv', 'json_schema', 'avo'] as const;
+
+export type TrackingPlanImportFormat = (typeof TRACKING_PLAN_IMPORT_FORMATS)[number];
+
+/**
+ * A rule ready to be sent to updateTrackingPlanRules
+ */
+export type ImportedRule = Pick<TrackingPlanRule, 'key' | 'type' | 'jsonSchema'>;
+
+export const RULE_SCHEMA_DRAFT = 'http://json-schema.org/draft-07/schema#';
+
+const RULE_TYPES: TrackingPlanRule['type'][] = ['TRACK', 'IDENTIFY', 'GROUP', 'PAGE', 'SCREEN', 'COMMON'];
+
+/** Event names that stand for a whole call type rather than a track event */
+const CALL_NAMES: Record<string, TrackingPlanRule['type']> = {
+  identify: 'IDENTIFY',
+  group: 'GROUP',
+  page: 'PAGE',
+  screen: 'SCREEN',
+  common: 'COMMON',
+};
+
+const TRUE_VALUES = new Set(['yes', 'y', 'true', '1', 'x', 'required', 'always']);
+
+// =============================================================================
+// Rule Schemas
+// =============================================================================
+
+/**
+ * Field of a Segment message that a rule's payload schema describes
+ */
+export function rulePayloadField(type: TrackingPlanRule['type']): 'traits' | 'properties' {
+  return type === 'IDENTIFY' || type === 'GROUP' ? 'traits' : 'properties';
+}
+
+/**
+ * Wrap a payload schema (event properties or traits) in a Segment rule schema
+ */
+export function buildRuleSchema(type: TrackingPlanRule['type'], payload: JsonSchema, description?: string): JsonSchema {
+  const field = rulePayloadField(type);
+  const required = Array.isArray(payload.required) && payload.required.length > 0;
+  return {
+    $schema: RULE_SCHEMA_DRAFT,
+    type: 'object',
+    ...(description && { description }),
+    properties: { [field]: { type: 'object', ...payload } },
+    ...(required && { required: [field] }),
+  };
+}
+
+function parseRuleType(value: string): TrackingPlanRule['type'] | undefined {
+  const type = value.trim().toUpperCase();
+  return (RULE_TYPES as string[]).includes(type) ? (type as TrackingPlanRule['type']) : undefined;
+}
+
+/**
+ * Parse a spreadsheet-style type name into a JSON Schema.
+ *
+ * Accepts JSON Schema type names plus common aliases (int, float, bool,
+ * date, list), unions (`string | null`) and arrays (`string[]`, `array<string>`).
+ */
+export function parsePropertyType(value: string): JsonSchema {
+  const text = value.trim().toLowerCase();
+  if (!text || text === 'any') return {};
+
+  const union = text.split(/\s*[|,]\s*|\s+or\s+/).filter(Boolean);
+  if (union.length > 1) {
+    const schemas = union.map(parsePropertyType);
+    const simple = schemas.every((schema) => Object.keys(schema).length === 1 && typeof schema.type === 'string');
+    return simple ? { type: [...new Set(schemas.map((schema) => schema.type as string))] } : { anyOf: schemas };
+  }
+
+  const array = text.match(/^(?:(.+)\[\]|(?:array|list)\s*<(.+)>|(?:array|list) of (.+))$/);
+  if (array) {
+    return { type: 'array', items: parsePropertyType(array[1] ?? array[2] ?? array[3]) };
+  }
+
+  switch (text) {
+    case 'string':
+    case 'text':
+      return { type: 'string' };
+    case 'number':
+    case 'float':
+    case 'double':
+    case 'decimal':
+      return { type: 'number' };
+    case 'integer':
+    case 'int':
+    case 'long':
+      return { type: 'integer' };
+    case 'boolean':
+    case 'bool':
+      return { type: 'boolean' };
+    case 'object':
+    case 'map':
+      return { type: 'object' };
+    case 'array':
+    case 'list':
+      return { type: 'array' };
+    case 'null':
+      return { type: 'null' };
+    case 'date':
+    case 'datetime':
+    case 'date-time':
+    case 'timestamp':
+      return { type: 'string', format: 'date-time' };
+    case 'email':
+      return { type: 'string', format: 'email' };
+    default:
+      throw new ValidationError(`Unknown property type "${value}"`);
+  }
+}
+
+/**
+ * Convert a spreadsheet enum value to the property's declared type
+ */
+function parseEnumValue(value: string, schema: JsonSchema): unknown {
+  const types: unknown[] = Array.isArray(schema.type) ? schema.type : schema.type === undefined ? [] : [schema.type];
+  if (types.includes('null') && value === 'null') return null;
+  if (types.includes('boolean') && (value === 'true' || value === 'false')) return value === 'true';
+  if ((types.includes('number') || types.includes('integer')) && value !== '' && Number.isFinite(Number(value))) {
+    const number = Number(value);
+    if (types.includes('number') || Number.isInteger(number)) return number;
+  }
+  if (types.length === 0 || types.includes('string')) return value;
+  throw new ValidationError(`Enum value "${value}" is not a valid ${types.join(' | ')}`);
+}
+
+/**
+ * Parse an enum cell: a JSON array (as exported), or values separated by `|`
+ * and converted to the declared type
+ */
+function parseEnum(value: string | undefined, schema: JsonSchema): unknown[] | undefined {
+  if (!value?.trim()) return undefined;
+  if (value.trim().startsWith('[')) {
+    try {
+      const values: unknown = JSON.parse(value);
+      if (Array.isArray(values)) return values;
+    } catch {
+      // Not JSON: a `|`-separated list that happens to start with [
+    }
+  }
+  return value
+    .split('|')
+    .map((option) => option.trim())
+    .filter(Boolean)
+    .map((option) => parseEnumValue(option, schema));
+}
+
+interface PropertyDefinition {
+  /** Dotted path for nested properties, e.g. `product.sku` */
+  path: string;
+  schema: JsonSchema;
+  required: boolean;
+  description?: string;
+}
+
+/**
+ * Build an object schema from flat property definitions, nesting dotted paths
+ */
+function buildPayloadSchema(properties: PropertyDefinition[]): JsonSchema {
+  const root: JsonSchema = { type: 'object', properties: {} };
+
+  for (const property of properties) {
+    const parts = property.path.split('.');
+    let parent = root;
+    for (const part of parts.slice(0, -1)) {
+      const children = parent.properties as Record<string, JsonSchema>;
+      children[part] ??= { type: 'object', properties: {} };
+      children[part].properties ??= {};
+      parent = children[part];
+    }
+
+    const name = parts[parts.length - 1];
+    const children = parent.properties as Record<string, JsonSchema>;
+    children[name] = {
+      ...children[name],
+      ...property.schema,
+      ...(property.description && { description: property.description }),
+    };
+    if (property.required) {
+      parent.required = [...new Set([...((parent.required as string[]) ?? []), name])];
+    }
+  }
+
+  return root;
+}
+
+function sortRules(rules: ImportedRule[]): ImportedRule[] {
+  return rules.sort(
+    (a, b) => RULE_TYPES.indexOf(a.type) - RULE_TYPES.indexOf(b.type) || a.key.localeCompare(b.key)
+  );
+}
+
+// =============================================================================
+// CSV
+// =============================================================================
+
+const CSV_COLUMNS = {
+  event: ['event', 'event name', 'name'],
+  property: ['property', 'property name'],
+  type: ['type', 'property type', 'data type'],
+  required: ['required', 'is required', 'presence'],
+  description: ['description', 'property description'],
+  enum: ['enum', 'allowed values', 'values'],
+  ruleType: ['rule type', 'call', 'call type', 'segment call'],
+  eventDescription: ['event description'],
+} as const;
+
+/**
+ * Import rules from a CSV spreadsheet with one row per event property.
+ *
+ * Required column: event. Optional columns: property, type, required,
+ * description, enum (a JSON array, or values separated by `|` and converted to
+ * the property type), rule type (TRACK, IDENTIFY, ...) and event description. Rows without a property describe the event itself.
+ */
+export function importRulesFromCsv(text: string): ImportedRule[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) throw new ValidationError('CSV is empty');
+
+  const normalized = header.map((name) => name.trim().toLowerCase().replace(/[_-]+/g, ' '));
+  const column = (aliases: readonly string[]) => normalized.findIndex((name) => aliases.includes(name));
+  const indexes = Object.fromEntries(
+    Object.entries(CSV_COLUMNS).map(([key, aliases]) => [key, column(aliases)])
+  ) as Record<keyof typeof CSV_COLUMNS, number>;
+  if (indexes.event < 0) {
+    throw new ValidationError('CSV is missing an "event" column', { columns: header });
+  }
+
+  const events = new Map<string, { type: TrackingPlanRule['type']; key: string; description?: string; properties: PropertyDefinition[] }>();
+  const errors: string[] = [];
+
+  rows.forEach((row, index) => {
+    const cell = (name: keyof typeof CSV_COLUMNS) => (indexes[name] >= 0 ? (row[indexes[name]] ?? '').trim() : '');
+    const line = index + 2;
+    const event = cell('event');
+    if (!event) {
+      errors.push(`Row ${line}: missing event name`);
+      return;
+    }
+
+    let type: TrackingPlanRule['type'] = CALL_NAMES[event.toLowerCase()] ?? 'TRACK';
+    if (cell('ruleType')) {
+      const parsed = parseRuleType(cell('ruleType'));
+      if (!parsed) {
+        errors.push(`Row ${line}: unknown rule type "${cell('ruleType')}"`);
+        return;
+      }
+      type = parsed;
+    }
+    const key = type === 'TRACK' || ((type === 'PAGE' || type === 'SCREEN') && !CALL_NAMES[event.toLowerCase()]) ? event : '';
+
+    const id = `${type}:${key}`;
+    const entry = events.get(id) ?? { type, key, properties: [] };
+    events.set(id, entry);
+    if (cell('eventDescription')) entry.description = cell('eventDescription');
+
+    const property = cell('property');
+    if (!property) {
+      if (cell('description')) entry.description = cell('description');
+      return;
+    }
+
+    try {
+      const schema = parsePropertyType(cell('type'));
+      const options = parseEnum(cell('enum'), schema);
+      entry.properties.push({
+        path: property,
+        schema: options ? { ...schema, enum: options } : schema,
+        required: TRUE_VALUES.has(cell('required').toLowerCase()),
+        description: cell('description') || undefined,
+      });
+    } catch (error) {
+      errors.push(`Row ${line}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+
+  if (errors.length > 0) {
+    throw new ValidationError('CSV contains invalid rows', { rows: errors });
+  }
+
+  return sortRules(
+    [...events.values()].map((event) => ({
+      type: event.type,
+      key: event.key,
+      jsonSchema: buildRuleSchema(event.type, buildPayloadSchema(event.properties), event.description),
+    }))
+  );
+}
+
+// =============================================================================
+// JSON Schema Bundle
+// =============================================================================
+
+/**
+ * Import rules from a bundle of JSON Schema files keyed by path.
+ *
+ * The rule type comes from the first directory (`track/`, `identify/`, ...)
+ * or a file named after the call (`identify.json`), defaulting to TRACK.
+ * The event name comes from the schema's `title`, else the file name. Files may
+ * hold a full Segment rule schema or just the properties/traits schema.
+ */
+export function importRulesFromJsonSchemaBundle(files: Record<string, unknown>): ImportedRule[] {
+  const rules = new Map<string, ImportedRule>();
+  const errors: string[] = [];
+
+  for (const [path, content] of Object.entries(files)) {
+    let schema: unknown = content;
+    if (typeof content === 'string') {
+      try {
+        schema = JSON.parse(content);
+      } catch {
+        errors.push(`${path}: not valid JSON`);
+        continue;
+      }
+    }
+    if (!isSchema(schema)) {
+      errors.push(`${path}: expected a JSON Schema object`);
+      continue;
+    }
+
+    const segments = path.split('/').filter(Boolean);
+    const base = (segments[segments.length - 1] ?? '').replace(/(\.schema)?\.json$/i, '');
+    const directoryType = segments.length > 1 ? parseRuleType(segments[0]) : undefined;
+    const type = directoryType ?? CALL_NAMES[base.toLowerCase()] ?? parseRuleType(base) ?? 'TRACK';
+    const named = type === 'TRACK' || ((type === 'PAGE' || type === 'SCREEN') && directoryType !== undefined);
+    const key = named ? (typeof schema.title === 'string' && schema.title) || base : '';
+
+    const payloadField = rulePayloadField(type);
+    const properties = isSchema(schema.properties) ? schema.properties : {};
+    const isRuleSchema = isSchema(properties[payloadField]) && isSchema((properties[payloadField] as JsonSchema).properties);
+    const jsonSchema = isRuleSchema
+      ? { $schema: RULE_SCHEMA_DRAFT, ...schema }
+      : buildRuleSchema(type, schema, typeof schema.description === 'string' ? schema.description : undefined);
+
+    const id = `${type}:${key}`;
+    if (rules.has(id)) {
+      errors.push(`${path}: duplicate rule ${id}`);
+      continue;
+    }
+    rules.set(id, { type, key, jsonSchema });
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError('JSON Schema bundle contains invalid files', { files: errors });
+  }
+  return sortRules([...rules.values()]);
+}
+
+// =============================================================================
+// Avo-Style Export
+// =============================================================================
+
+interface AvoProperty {
+  name: string;
+  type?: string;
+  description?: string;
+  required?: boolean;
+  optional?: boolean;
+  presence?: string;
+  list?: boolean;
+  allowedValues?: unknown[];
+  enum?: unknown[];
+}
+
+function avoProperties(properties: unknown, context: string, errors: string[]): PropertyDefinition[] {
+  if (properties === undefined) return [];
+  if (!Array.isArray(properties)) {
+    errors.push(`${context}: properties must be an array`);
+    return [];
+  }
+
+  return properties.flatMap((item: AvoProperty, index) => {
+    if (!item || typeof item.name !== 'string') {
+      errors.push(`${context}: property ${index} has no name`);
+      return [];
+    }
+    try {
+      const base = parsePropertyType(item.type ?? '');
+      const options = item.allowedValues ?? item.enum;
+      const schema = Array.isArray(options) && options.length > 0 ? { ...base, enum: options } : base;
+      return [
+        {
+          path: item.name,
+          schema: item.list ? { type: 'array', items: schema } : schema,
+          required:
+            item.required ?? (item.optional !== undefined ? !item.optional : TRUE_VALUES.has((item.presence ?? '').toLowerCase())),
+          description: item.description,
+        },
+      ];
+    } catch (error) {
+      errors.push(`${context}.${item.name}: ${error instanceof Error ? error.message : String(error)}`);
+      return [];
+    }
+  });
+}
+
+/**
+ * Import rules from an Avo-style tracking plan export.
+ *
+ * Expects `{ events: [{ name, description?, type?, properties: [...] }], userProperties?, groupProperties? }`
+ * where each property is `{ name, type, description?, required? | optional? | presence?, list?, allowedValues? }`.
+ * User and group properties become the IDENTIFY and GROUP rules.
+ */
+export function importRulesFromAvo(text: string): ImportedRule[] {
+  let document: unknown;
+  try {
+    document = JSON.parse(text);
+  } catch {
+    throw new ValidationError('Avo export is not valid JSON');
+  }
+  if (!isSchema(document) || !Array.isArray(document.events)) {
+    throw new ValidationError('Avo export must be an object with an "events" array');
+  }
+
+  const errors: string[] = [];
+  const rules: ImportedRule[] = [];
+
+  document.events.forEach((event: { name?: unknown; description?: string; type?: string; properties?: unknown }, index) => {
+    if (typeof event?.name !== 'string' || !event.name) {
+      errors.push(`events[${index}]: missing name`);
+      return;
+    }
+    const type = (event.type && parseRuleType(event.type)) || 'TRACK';
+    const properties = avoProperties(event.properties, event.name, errors);
+    rules.push({
+      type,
+      key: type === 'TRACK' || type === 'PAGE' || type === 'SCREEN' ? event.name : '',
+      jsonSchema: buildRuleSchema(type, buildPayloadSchema(properties), event.description),
+    });
+  });
+
+  for (const [field, type] of [
+    ['userProperties', 'IDENTIFY'],
+    ['groupProperties', 'GROUP'],
+  ] as const) {
+    if (document[field] === undefined) continue;
+    const properties = avoProperties(document[field], field, errors);
+    rules.push({ type, key: '', jsonSchema: buildRuleSchema(type, buildPayloadSchema(properties)) });
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError('Avo export contains invalid entries', { events: errors });
+  }
+  return sortRules(rules);
+}
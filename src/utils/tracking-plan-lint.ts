@@ -0,0 +1,273 @@
+/**
+ * Tracking Plan Linting for Segment MCP Server
+ *
+ * Checks tracking plan rules against naming and documentation conventions:
+ * event and property name casing, properties whose type differs between
+ * events, missing descriptions and PII-looking properties that are not
+ * labelled as PII.
+ */
+
+import type { TrackingPlanRule } from '../types/entities.js';
+import { isSchema, type JsonSchema } from './json-schema.js';
+import { ruleId } from './schema-compatibility.js';
+import { describeType, ruleDescription, rulePayloadSchema } from './tracking-plan-export.js';
+
+export const EVENT_NAMING_CONVENTIONS = ['object_action', 'snake_case', 'camel_case', 'off'] as const;
+export const PROPERTY_NAMING_CONVENTIONS = ['snake_case', 'camel_case', 'off'] as const;
+export const LINT_SEVERITIES = ['info', 'warning', 'error'] as const;
+
+export type EventNamingConvention = (typeof EVENT_NAMING_CONVENTIONS)[number];
+export type PropertyNamingConvention = (typeof PROPERTY_NAMING_CONVENTIONS)[number];
+export type LintSeverity = (typeof LINT_SEVERITIES)[number];
+
+export type LintCheck = 'event_name' | 'property_name' | 'property_type_conflict' | 'missing_description' | 'unlabeled_pii';
+
+/**
+ * Default name fragments that suggest personal data
+ */
+export const DEFAULT_PII_TERMS = [
+  'email',
+  'phone',
+  'mobile',
+  'ssn',
+  'social_security',
+  'password',
+  'passport',
+  'credit_card',
+  'card_number',
+  'date_of_birth',
+  'birthdate',
+  'dob',
+  'ip_address',
+  'street',
+  'address',
+  'postal_code',
+  'zip',
+  'first_name',
+  'last_name',
+  'full_name',
+  'tax_id',
+];
+
+export interface TrackingPlanLintOptions {
+  /** Event names: "Object Action" Title Case, snake_case or camelCase (default: object_action) */
+  eventNaming?: EventNamingConvention;
+  /** Property and trait names (default: snake_case) */
+  propertyNaming?: PropertyNamingConvention;
+  /** Which descriptions must be present (default: all) */
+  descriptions?: 'all' | 'events' | 'off';
+  /** Name fragments that mark a property as PII-looking; an empty list disables the check (default: DEFAULT_PII_TERMS) */
+  piiTerms?: string[];
+}
+
+/**
+ * A single convention violation
+ */
+export interface LintFinding {
+  severity: LintSeverity;
+  check: LintCheck;
+  /** Rule identifier, `TYPE:key` */
+  rule: string;
+  /** Dotted path of the offending property, when the finding is about a property */
+  property?: string;
+  message: string;
+  /** A name that follows the convention */
+  suggestion?: string;
+}
+
+// =============================================================================
+// Naming
+// =============================================================================
+
+function words(name: string): string[] {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word.toLowerCase());
+}
+
+function capitalize(word: string): string {
+  return word[0].toUpperCase() + word.slice(1);
+}
+
+const CONVENTIONS: Record<Exclude<EventNamingConvention, 'off'>, { pattern: RegExp; convert: (name: string) => string; label: string }> = {
+  object_action: {
+    pattern: /^[A-Z0-9][A-Za-z0-9]*( [A-Z0-9][A-Za-z0-9]*)+$/,
+    convert: (name) => words(name).map(capitalize).join(' '),
+    label: '"Object Action" Title Case',
+  },
+  snake_case: {
+    pattern: /^[a-z][a-z0-9]*(_[a-z0-9]+)*$/,
+    convert: (name) => words(name).join('_'),
+    label: 'snake_case',
+  },
+  camel_case: {
+    pattern: /^[a-z][a-z0-9]*([A-Z][a-z0-9]*)*$/,
+    convert: (name) =>
+      words(name)
+        .map((word, index) => (index === 0 ? word : capitalize(word)))
+        .join(''),
+    label: 'camelCase',
+  },
+};
+
+/**
+ * A property of a rule's payload, at any depth
+ */
+interface RuleProperty {
+  name: string;
+  path: string;
+  schema: JsonSchema;
+}
+
+function collectProperties(schema: JsonSchema, prefix = ''): RuleProperty[] {
+  const properties = isSchema(schema.properties) ? schema.properties : {};
+  return Object.entries(properties).flatMap(([name, property]) => {
+    if (!isSchema(property)) return [];
+    const path = prefix ? `${prefix}.${name}` : name;
+    const nested = isSchema(property.items) ? property.items : property;
+    return [{ name, path, schema: property }, ...collectProperties(nested, path)];
+  });
+}
+
+/**
+ * Type used to compare a property across events; nullability and integer vs number are not conflicts
+ */
+function comparableType(schema: JsonSchema): string {
+  const types = describeType(schema)
+    .split(' | ')
+    .filter((type) => type !== 'null')
+    .map((type) => type.replace(/\binteger\b/g, 'number'));
+  return [...new Set(types)].sort().join(' | ') || 'null';
+}
+
+/**
+ * A property counts as labelled PII when its schema sets `pii`, or lists "pii" in `labels`
+ */
+function isLabelledPii(schema: JsonSchema): boolean {
+  if (schema.pii === true) return true;
+  const labels = schema.labels;
+  if (Array.isArray(labels)) return labels.some((label) => String(label).toLowerCase() === 'pii');
+  return isSchema(labels) && Object.keys(labels).some((label) => label.toLowerCase() === 'pii');
+}
+
+function hasDescription(schema: JsonSchema): boolean {
+  return typeof schema.description === 'string' && schema.description.trim() !== '';
+}
+
+// =============================================================================
+// Entry Point
+// =============================================================================
+
+/**
+ * Lint tracking plan rules against naming and documentation conventions
+ */
+export function lintTrackingPlanRules(rules: TrackingPlanRule[], options: TrackingPlanLintOptions = {}): LintFinding[] {
+  const eventNaming = options.eventNaming ?? 'object_action';
+  const propertyNaming = options.propertyNaming ?? 'snake_case';
+  const descriptions = options.descriptions ?? 'all';
+  const piiTerms = (options.piiTerms ?? DEFAULT_PII_TERMS).map((term) => words(term).join('_')).filter(Boolean);
+  const findings: LintFinding[] = [];
+  /** Property path → rule → comparable type, for cross-event type conflicts */
+  const propertyTypes = new Map<string, Map<string, string>>();
+
+  for (const rule of rules) {
+    const id = ruleId(rule);
+
+    if (rule.type === 'TRACK' && eventNaming !== 'off') {
+      const convention = CONVENTIONS[eventNaming];
+      if (!convention.pattern.test(rule.key)) {
+        findings.push({
+          severity: 'warning',
+          check: 'event_name',
+          rule: id,
+          message: `Event name "${rule.key}" is not ${convention.label}`,
+          suggestion: convention.convert(rule.key),
+        });
+      }
+    }
+
+    if (descriptions !== 'off' && rule.type !== 'COMMON' && !ruleDescription(rule)?.trim()) {
+      findings.push({
+        severity: 'warning',
+        check: 'missing_description',
+        rule: id,
+        message: `${rule.type === 'TRACK' ? `Event "${rule.key}"` : `${capitalize(rule.type.toLowerCase())} rule`} has no description`,
+      });
+    }
+
+    for (const property of collectProperties(rulePayloadSchema(rule))) {
+      if (propertyNaming !== 'off') {
+        const convention = CONVENTIONS[propertyNaming];
+        if (!convention.pattern.test(property.name)) {
+          findings.push({
+            severity: 'warning',
+            check: 'property_name',
+            rule: id,
+            property: property.path,
+            message: `Property "${property.name}" is not ${convention.label}`,
+            suggestion: convention.convert(property.name),
+          });
+        }
+      }
+
+      if (descriptions === 'all' && !hasDescription(property.schema)) {
+        findings.push({
+          severity: 'info',
+          check: 'missing_description',
+          rule: id,
+          property: property.path,
+          message: `Property "${property.path}" has no description`,
+        });
+      }
+
+      const normalized = `_${words(property.name).join('_')}_`;
+      const term = piiTerms.find((candidate) => normalized.includes(`_${candidate}_`));
+      if (term && !isLabelledPii(property.schema)) {
+        findings.push({
+          severity: 'error',
+          check: 'unlabeled_pii',
+          rule: id,
+          property: property.path,
+          message: `Property "${property.path}" looks like PII (${term}) but is not labelled; set "pii": true or add "pii" to its labels`,
+        });
+      }
+
+      let types = propertyTypes.get(property.path);
+      if (!types) {
+        types = new Map();
+        propertyTypes.set(property.path, types);
+      }
+      types.set(id, comparableType(property.schema));
+    }
+  }
+
+  // Flag the events that disagree with the type most events use
+  for (const [path, types] of propertyTypes) {
+    const counts = new Map<string, number>();
+    for (const type of types.values()) counts.set(type, (counts.get(type) ?? 0) + 1);
+    if (counts.size < 2) continue;
+
+    const [majority] = [...counts].sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))[0];
+    const majorityRules = [...types].filter(([, type]) => type === majority).map(([id]) => id);
+    for (const [id, type] of types) {
+      if (type === majority) continue;
+      findings.push({
+        severity: 'error',
+        check: 'property_type_conflict',
+        rule: id,
+        property: path,
+        message: `Property "${path}" is ${type} here but ${majority} in ${majorityRules.join(', ')}`,
+      });
+    }
+  }
+
+  const order = [...LINT_SEVERITIES].reverse();
+  return findings.sort(
+    (a, b) =>
+      order.indexOf(a.severity) - order.indexOf(b.severity) ||
+      a.rule.localeCompare(b.rule) ||
+      (a.property ?? '').localeCompare(b.property ?? '')
+  );
+}
@@ -0,0 +1,77 @@
+/**
+ * Tracking Plan Rule Promotion for Segment MCP Server
+ *
+ * Diffs the rules of a source tracking plan against a target plan by type,
+ * key, version and schema so they can be promoted (e.g. staging → production) one
+ * approved rule at a time.
+ */
+
+import type { TrackingPlanRule } from '../types/entities.js';
+import { deepEqual } from './json-schema.js';
+import { compareSchemas, ruleId, type SchemaChange } from './schema-compatibility.js';
+
+/**
+ * How one rule compares between the source and target plans
+ */
+export interface RulePromotion {
+  /** Rule identifier, `TYPE:key` */
+  rule: string;
+  type: TrackingPlanRule['type'];
+  key: string;
+  /** `new`: only in the source; `changed`: schemas differ; `target_only`: never promoted or deleted */
+  status: 'new' | 'changed' | 'unchanged' | 'target_only';
+  sourceVersion?: number;
+  targetVersion?: number;
+  /**
+   * Promoting would lose target edits: the target rule has a newer version
+   * than the source, or its schema has properties the source's lacks
+   */
+  conflict: boolean;
+  breaking: boolean;
+  schemaChanges: SchemaChange[];
+}
+
+/**
+ * Compare source plan rules with target plan rules
+ */
+export function planRulePromotion(sourceRules: TrackingPlanRule[], targetRules: TrackingPlanRule[]): RulePromotion[] {
+  const targets = new Map(targetRules.map((rule) => [ruleId(rule), rule]));
+  const sources = new Map(sourceRules.map((rule) => [ruleId(rule), rule]));
+  const promotions: RulePromotion[] = [];
+
+  for (const [id, source] of sources) {
+    const target = targets.get(id);
+    const unchanged = target !== undefined && deepEqual(source.jsonSchema, target.jsonSchema);
+    const schemaChanges = target && !unchanged ? compareSchemas(target.jsonSchema, source.jsonSchema) : [];
+
+    promotions.push({
+      rule: id,
+      type: source.type,
+      key: source.key,
+      status: !target ? 'new' : unchanged ? 'unchanged' : 'changed',
+      sourceVersion: source.version,
+      targetVersion: target?.version,
+      conflict:
+        (!unchanged && target !== undefined && (target.version ?? 0) > (source.version ?? 0)) ||
+        schemaChanges.some((change) => change.kind === 'property_removed'),
+      breaking: schemaChanges.some((change) => change.breaking),
+      schemaChanges,
+    });
+  }
+
+  for (const [id, target] of targets) {
+    if (sources.has(id)) continue;
+    promotions.push({
+      rule: id,
+      type: target.type,
+      key: target.key,
+      status: 'target_only',
+      targetVersion: target.version,
+      conflict: false,
+      breaking: false,
+      schemaChanges: [],
+    });
+  }
+
+  return promotions.sort((a, b) => a.rule.localeCompare(b.rule));
+}
@@ -0,0 +1,85 @@
+/**
+ * Tracking Plan Validation for Segment MCP Server
+ *
+ * Checks tracking payloads against the JSON Schema rules of a tracking plan,
+ * mirroring the violations Protocols would report for the same event.
+ */
+
+import type { TrackingPlanRule } from '../types/entities.js';
+import { type SchemaViolation, validateJsonSchema } from './json-schema.js';
+
+/**
+ * A violation tied to the tracking plan rule that produced it
+ */
+export interface TrackingPlanViolation extends SchemaViolation {
+  ruleKey?: string;
+  ruleType?: TrackingPlanRule['type'];
+}
+
+/**
+ * Outcome of validating one payload against a tracking plan
+ */
+export interface TrackingPlanValidationResult {
+  valid: boolean;
+  /** Rules the payload was checked against, as `TYPE:key` */
+  matchedRules: string[];
+  violations: TrackingPlanViolation[];
+}
+
+/**
+ * Minimal shape of a tracking payload as sent to the Tracking API
+ */
+export interface ValidatableTrackingPayload {
+  type: string;
+  event?: string;
+  name?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Find the rules that apply to a payload: COMMON rules plus the rule(s) for its call type
+ */
+export function findRulesForPayload(payload: ValidatableTrackingPayload, rules: TrackingPlanRule[]): TrackingPlanRule[] {
+  const ruleType = payload.type.toUpperCase();
+
+  return rules.filter((rule) => {
+    if (rule.type === 'COMMON') return true;
+    if (rule.type !== ruleType) return false;
+    if (rule.type === 'TRACK') return rule.key === payload.event;
+    // Page and screen rules may be keyed by name; identify and group rules apply to every call
+    return !rule.key || rule.key === payload.name;
+  });
+}
+
+/**
+ * Validate a tracking payload against a tracking plan's rules
+ */
+export function validatePayloadAgainstRules(
+  payload: ValidatableTrackingPayload,
+  rules: TrackingPlanRule[]
+): TrackingPlanValidationResult {
+  // Validate exactly what would go over the wire, without undefined fields
+  const wirePayload = JSON.parse(JSON.stringify(payload)) as ValidatableTrackingPayload;
+  const applicable = findRulesForPayload(wirePayload, rules);
+  const violations: TrackingPlanViolation[] = [];
+
+  if (wirePayload.type === 'track' && !applicable.some((rule) => rule.type === 'TRACK')) {
+    violations.push({
+      path: '$.event',
+      keyword: 'unplanned_event',
+      message: `Event "${wirePayload.event}" is not defined in the tracking plan`,
+    });
+  }
+
+  for (const rule of applicable) {
+    for (const violation of validateJsonSchema(wirePayload, rule.jsonSchema)) {
+      violations.push({ ...violation, ruleKey: rule.key, ruleType: rule.type });
+    }
+  }
+
+  return {
+    valid: violations.length === 0,
+    matchedRules: applicable.map((rule) => `${rule.type}:${rule.key}`),
+    violations,
+  };
+}
@@ -0,0 +1,316 @@
+/**
+ * Tracking Type Generation for Segment MCP Server
+ *
+ * Turns tracking plan rule JSON Schemas into typed source code, in the style
+ * of Segment Typewriter: one interface per event plus wrapper functions that
+ * call `track`/`identify`/`group` with the right event name and payload.
+ * Generators are keyed by language so more targets can be added alongside
+ * TypeScript.
+ */
+
+import type { TrackingPlanRule } from '../types/entities.js';
+import { isSchema, type JsonSchema } from './json-schema.js';
+
+export const TRACKING_TYPE_LANGUAGES = ['typescript'] as const;
+
+export type TrackingTypeLanguage = (typeof TRACKING_TYPE_LANGUAGES)[number];
+
+export interface GenerateTrackingTypesOptions {
+  language?: TrackingTypeLanguage;
+  /** Only generate TRACK rules for these event names (default: every event) */
+  events?: string[];
+  /** Name shown in the generated file header */
+  trackingPlanName?: string;
+}
+
+/**
+ * A rule prepared for code generation
+ */
+interface TypedRule {
+  rule: TrackingPlanRule;
+  /** Schema of the payload the wrapper accepts (event properties or traits) */
+  schema: JsonSchema;
+  /** Name of the generated interface */
+  typeName: string;
+  /** Name of the generated wrapper function, if any */
+  functionName?: string;
+}
+
+type TrackingTypeGenerator = (rules: TypedRule[], options: GenerateTrackingTypesOptions) => string;
+
+// =============================================================================
+// Naming
+// =============================================================================
+
+/**
+ * Words generated identifiers must avoid: ECMAScript reserved words (including
+ * strict mode and module code), `arguments`/`eval`, and TypeScript keywords
+ */
+const RESERVED_WORDS = new Set([
+  // ECMAScript
+  'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete', 'do', 'else',
+  'enum', 'export', 'extends', 'false', 'finally', 'for', 'function', 'if', 'import', 'in', 'instanceof', 'new',
+  'null', 'return', 'super', 'switch', 'this', 'throw', 'true', 'try', 'typeof', 'var', 'void', 'while', 'with',
+  'yield',
+  // Strict mode
+  'implements', 'interface', 'let', 'package', 'private', 'protected', 'public', 'static', 'arguments', 'eval',
+  // TypeScript
+  'abstract', 'accessor', 'any', 'as', 'asserts', 'async', 'bigint', 'boolean', 'constructor', 'declare', 'from',
+  'get', 'global', 'infer', 'is', 'keyof', 'module', 'namespace', 'never', 'number', 'object', 'of', 'out',
+  'override', 'readonly', 'require', 'satisfies', 'set', 'string', 'symbol', 'type', 'undefined', 'unique', 'unknown',
+]);
+
+/**
+ * Split a name into words of letters (in any script) and digits
+ */
+function words(name: string): string[] {
+  return name
+    .normalize('NFC')
+    .replace(/([\p{Ll}\p{Nd}])(\p{Lu})/gu, '$1 $2')
+    .split(/[^\p{L}\p{Nd}]+/u)
+    .filter(Boolean);
+}
+
+function pascalCase(name: string): string {
+  const result = words(name)
+    .map((word) => word.toLowerCase().replace(/^./u, (first) => first.toUpperCase()))
+    .join('');
+  if (!result) return 'Unnamed';
+  return /^[0-9]/.test(result) ? `_${result}` : result;
+}
+
+function camelCase(name: string): string {
+  const pascal = pascalCase(name);
+  const result = pascal.startsWith('_') ? pascal : pascal.replace(/^./u, (first) => first.toLowerCase());
+  return RESERVED_WORDS.has(result) ? `${result}_` : result;
+}
+
+/**
+ * Hand out names, suffixing duplicates so generated identifiers never collide
+ */
+function createNamer(): (name: string) => string {
+  const used = new Map<string, number>();
+  return (name) => {
+    const count = used.get(name) ?? 0;
+    used.set(name, count + 1);
+    return count === 0 ? name : `${name}${count + 1}`;
+  };
+}
+
+// =============================================================================
+// Rule Preparation
+// =============================================================================
+
+/**
+ * Get the payload schema of a rule: `properties` for track/page/screen, `traits` for identify/group
+ */
+function payloadSchema(rule: TrackingPlanRule): JsonSchema {
+  const field = rule.type === 'IDENTIFY' || rule.type === 'GROUP' ? 'traits' : 'properties';
+  const properties = isSchema(rule.jsonSchema.properties) ? rule.jsonSchema.properties : {};
+  const schema = properties[field];
+  return isSchema(schema) ? schema : { type: 'object' };
+}
+
+function prepareRules(rules: TrackingPlanRule[], options: GenerateTrackingTypesOptions): TypedRule[] {
+  const typeName = createNamer();
+  const functionName = createNamer();
+  const events = options.events && new Set(options.events);
+
+  const order: TrackingPlanRule['type'][] = ['IDENTIFY', 'GROUP', 'TRACK', 'PAGE', 'SCREEN'];
+  return rules
+    .filter((rule) => order.includes(rule.type))
+    .filter((rule) => rule.type !== 'TRACK' || !events || events.has(rule.key))
+    .sort((a, b) => order.indexOf(a.type) - order.indexOf(b.type) || a.key.localeCompare(b.key))
+    .map((rule) => {
+      const schema = payloadSchema(rule);
+      switch (rule.type) {
+        case 'IDENTIFY':
+          return { rule, schema, typeName: typeName('IdentifyTraits'), functionName: functionName('identify') };
+        case 'GROUP':
+          return { rule, schema, typeName: typeName('GroupTraits'), functionName: functionName('group') };
+        case 'TRACK':
+          return {
+            rule,
+            schema,
+            typeName: typeName(`${pascalCase(rule.key)}Properties`),
+            functionName: functionName(camelCase(rule.key)),
+          };
+        default: {
+          const suffix = rule.type === 'PAGE' ? 'Page' : 'Screen';
+          return { rule, schema, typeName: typeName(`${rule.key ? pascalCase(rule.key) : ''}${suffix}Properties`) };
+        }
+      }
+    });
+}
+
+// =============================================================================
+// TypeScript
+// =============================================================================
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * Escape text for use inside a `/** *\/` comment
+ */
+function commentText(text: string): string {
+  return text.replace(/\*\//g, '*\\/');
+}
+
+function docComment(description: unknown, indent: string): string[] {
+  if (typeof description !== 'string' || !description.trim()) return [];
+  const lines = commentText(description.trim()).split('\n');
+  if (lines.length === 1) return [`${indent}/** ${lines[0]} */`];
+  return [`${indent}/**`, ...lines.map((line) => `${indent} * ${line}`.trimEnd()), `${indent} */`];
+}
+
+function typeScriptType(schema: JsonSchema, indent: string): string {
+  if ('const' in schema) return JSON.stringify(schema.const);
+  if (Array.isArray(schema.enum)) return schema.enum.map((value) => JSON.stringify(value)).join(' | ');
+
+  const branches = (keyword: 'anyOf' | 'oneOf' | 'allOf') =>
+    Array.isArray(schema[keyword]) ? (schema[keyword] as unknown[]).filter(isSchema) : [];
+  if (branches('anyOf').length > 0 || branches('oneOf').length > 0) {
+    return [...branches('anyOf'), ...branches('oneOf')].map((branch) => typeScriptType(branch, indent)).join(' | ');
+  }
+  if (branches('allOf').length > 0) {
+    return branches('allOf')
+      .map((branch) => `(${typeScriptType(branch, indent)})`)
+      .join(' & ');
+  }
+
+  const types = schema.type === undefined ? [] : Array.isArray(schema.type) ? (schema.type as string[]) : [schema.type as string];
+  if (types.length === 0) {
+    return isSchema(schema.properties) ? typeScriptObject(schema, indent) : 'unknown';
+  }
+
+  return [
+    ...new Set(
+      types.map((type) => {
+        switch (type) {
+          case 'string':
+            return 'string';
+          case 'number':
+          case 'integer':
+            return 'number';
+          case 'boolean':
+            return 'boolean';
+          case 'null':
+            return 'null';
+          case 'array':
+            return isSchema(schema.items) ? `Array<${typeScriptType(schema.items, indent)}>` : 'unknown[]';
+          case 'object':
+            return typeScriptObject(schema, indent);
+          default:
+            return 'unknown';
+        }
+      })
+    ),
+  ].join(' | ');
+}
+
+function typeScriptObject(schema: JsonSchema, indent: string): string {
+  const properties = isSchema(schema.properties) ? schema.properties : {};
+  const required = new Set(Array.isArray(schema.required) ? (schema.required as string[]) : []);
+  const inner = `${indent}  `;
+  const lines: string[] = [];
+
+  const declared = new Set<string>();
+  for (const [key, property] of Object.entries(properties)) {
+    if (!isSchema(property)) continue;
+    lines.push(...docComment(property.description, inner));
+    const name = IDENTIFIER.test(key) ? key : JSON.stringify(key);
+    const type = typeScriptType(property, inner);
+    declared.add(type);
+    if (!required.has(key)) declared.add('undefined');
+    lines.push(`${inner}${name}${required.has(key) ? '' : '?'}: ${type};`);
+  }
+  if (schema.additionalProperties !== false) {
+    const value = isSchema(schema.additionalProperties) ? typeScriptType(schema.additionalProperties, inner) : 'unknown';
+    // Declared properties must fit the index signature, so a typed one also admits their types
+    const types = value === 'unknown' ? [value] : [...new Set([value, ...declared])];
+    lines.push(`${inner}[key: string]: ${types.join(' | ')};`);
+  }
+
+  return lines.length === 0 ? 'Record<string, never>' : `{\n${lines.join('\n')}\n${indent}}`;
+}
+
+const generateTypeScript: TrackingTypeGenerator = (rules, options) => {
+  const lines: string[] = [
+    '/**',
+    ` * Tracking plan types${options.trackingPlanName ? ` for ${commentText(options.trackingPlanName.replace(/\s+/g, ' ').trim())}` : ''}`,
+    ' *',
+    ' * Generated from Segment tracking plan rules. Do not edit by hand; regenerate',
+    ' * after the tracking plan changes.',
+    ' */',
+    '',
+    '/**',
+    ' * The subset of analytics.js / analytics-node used by the wrappers below',
+    ' */',
+    'export interface AnalyticsClient {',
+    '  track(event: string, properties?: object): unknown;',
+    '  identify(userId: string, traits?: object): unknown;',
+    '  group(groupId: string, traits?: object): unknown;',
+    '}',
+  ];
+
+  for (const { rule, schema, typeName } of rules) {
+    const type = typeScriptType({ type: 'object', ...schema }, '');
+    lines.push('');
+    const fallback =
+      rule.type === 'IDENTIFY' || rule.type === 'GROUP'
+        ? `Traits accepted by ${rule.type.toLowerCase()}`
+        : `Properties of ${rule.key ? `"${rule.key}"` : `every ${rule.type.toLowerCase()} call`}`;
+    lines.push(...docComment(schema.description ?? rule.jsonSchema.description ?? fallback, ''));
+    lines.push(type.startsWith('{') ? `export interface ${typeName} ${type}` : `export type ${typeName} = ${type};`);
+  }
+
+  for (const { rule, schema, typeName, functionName } of rules) {
+    if (!functionName) continue;
+    const required = Array.isArray(schema.required) && schema.required.length > 0;
+    const payload = `${rule.type === 'TRACK' ? 'properties' : 'traits'}${required ? '' : '?'}: ${typeName}`;
+
+    lines.push('');
+    switch (rule.type) {
+      case 'IDENTIFY':
+        lines.push(
+          '/** Identify a user with the traits defined in the tracking plan */',
+          `export function ${functionName}(analytics: AnalyticsClient, userId: string, ${payload}): unknown {`,
+          `  return analytics.identify(userId, traits);`,
+          '}'
+        );
+        break;
+      case 'GROUP':
+        lines.push(
+          '/** Associate a user with a group using the traits defined in the tracking plan */',
+          `export function ${functionName}(analytics: AnalyticsClient, groupId: string, ${payload}): unknown {`,
+          `  return analytics.group(groupId, traits);`,
+          '}'
+        );
+        break;
+      default:
+        lines.push(
+          `/** Track "${rule.key.replace(/\*\//g, '*\\/')}" */`,
+          `export function ${functionName}(analytics: AnalyticsClient, ${payload}): unknown {`,
+          `  return analytics.track(${JSON.stringify(rule.key)}, properties);`,
+          '}'
+        );
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+};
+
+const GENERATORS: Record<TrackingTypeLanguage, TrackingTypeGenerator> = {
+  typescript: generateTypeScript,
+};
+
+// =============================================================================
+// Entry Point
+// =============================================================================
+
+/**
+ * Generate typed tracking code for a tracking plan's rules
+ */
+export function generateTrackingTypes(rules: TrackingPlanRule[], options: GenerateTrackingTypesOptions = {}): string {
+  return GENERATORS[options.language ?? 'typescript'](prepareRules(rules, options), options);
+}
@@ -0,0 +1,159 @@
+/**
+ * Transformation Preview for Segment MCP Server
+ *
+ * Applies a transformation to sample events locally: the `if` condition,
+ * the event rename, property renames, FQL-defined properties and property
+ * hashing, in that order. Used to check renames and PII hashing before a
+ * transformation is enabled.
+ */
+
+import { createHash, createHmac } from 'node:crypto';
+import type { HashPropertyConfiguration, Transformation } from '../types/entities.js';
+import { diffValues, type FieldChange } from './diff.js';
+import { ValidationError } from './errors.js';
+import { evaluateFql, parseFql } from './fql.js';
+
+/**
+ * The parts of a transformation that change events
+ */
+export type TransformationDefinition = Pick<
+  Transformation,
+  'if' | 'newEventName' | 'propertyRenames' | 'fqlDefinedProperties' | 'hashPropertiesConfiguration'
+>;
+
+/**
+ * Outcome for one sample event
+ */
+export interface TransformationPreviewResult {
+  index: number;
+  /** Whether the `if` condition matched; unmatched events pass through unchanged */
+  matched: boolean;
+  before: Record<string, unknown>;
+  after: Record<string, unknown>;
+  changes: FieldChange[];
+}
+
+/** Top-level event fields that property paths may start with */
+const EVENT_OBJECTS = ['properties', 'traits', 'context', 'integrations'];
+
+const DIGESTS: Record<HashPropertyConfiguration['algorithm'], string> = {
+  MD5: 'md5',
+  SHA1: 'sha1',
+  SHA256: 'sha256',
+  SHA384: 'sha384',
+  SHA512: 'sha512',
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Full path of a property: names that do not start with a top-level object
+ * are relative to `traits` for identify and group events and to `properties` otherwise
+ */
+function propertyPath(event: Record<string, unknown>, name: string): string[] {
+  const path = name.split('.');
+  if (EVENT_OBJECTS.includes(path[0])) return path;
+  return [event.type === 'identify' || event.type === 'group' ? 'traits' : 'properties', ...path];
+}
+
+function getPath(event: Record<string, unknown>, path: string[]): unknown {
+  let value: unknown = event;
+  for (const segment of path) value = isPlainObject(value) ? value[segment] : undefined;
+  return value;
+}
+
+function setPath(event: Record<string, unknown>, path: string[], value: unknown): void {
+  let target = event;
+  for (const segment of path.slice(0, -1)) {
+    if (!isPlainObject(target[segment])) target[segment] = {};
+    target = target[segment] as Record<string, unknown>;
+  }
+  target[path[path.length - 1]] = value;
+}
+
+function deletePath(event: Record<string, unknown>, path: string[]): void {
+  const parent = getPath(event, path.slice(0, -1));
+  if (isPlainObject(parent)) delete parent[path[path.length - 1]];
+}
+
+/**
+ * Hash a property value the way the transformation is configured: an HMAC
+ * when a key is set, a plain digest otherwise. Non-string values are hashed
+ * as their JSON text.
+ */
+export function hashPropertyValue(value: unknown, configuration: Omit<HashPropertyConfiguration, 'properties'>): string {
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  const algorithm = DIGESTS[configuration.algorithm];
+  const hash = configuration.key ? createHmac(algorithm, configuration.key) : createHash(algorithm);
+  return hash.update(text).digest(configuration.encoding === 'BASE64' ? 'base64' : 'hex');
+}
+
+// =============================================================================
+// Entry Point
+// =============================================================================
+
+/**
+ * Apply a transformation to sample events and return each event before and after
+ */
+export function previewTransformation(
+  transformation: TransformationDefinition,
+  events: Record<string, unknown>[]
+): TransformationPreviewResult[] {
+  const condition = transformation.if.trim() === 'all' ? undefined : parseFql(transformation.if);
+  const computed = (transformation.fqlDefinedProperties ?? []).map((property) => ({
+    property,
+    parsed: parseFql(property.fql),
+  }));
+
+  const details: Record<string, string[]> = {};
+  if (condition && !condition.valid) {
+    details.if = [`${condition.error.message} (column ${condition.error.column})`];
+  }
+  computed.forEach(({ parsed }, index) => {
+    if (!parsed.valid) {
+      details[`fqlDefinedProperties[${index}].fql`] = [`${parsed.error.message} (column ${parsed.error.column})`];
+    }
+  });
+  if (Object.keys(details).length > 0) {
+    throw new ValidationError('Invalid FQL expression', details);
+  }
+
+  return events.map((before, index) => {
+    const value = condition?.valid ? evaluateFql(condition.expression, before) : true;
+    const matched = value !== false && value !== null;
+    const after = structuredClone(before);
+
+    if (matched) {
+      if (transformation.newEventName && before.type === 'track') after.event = transformation.newEventName;
+
+      for (const rename of transformation.propertyRenames ?? []) {
+        const from = propertyPath(before, rename.oldName);
+        const current = getPath(after, from);
+        if (current === undefined) continue;
+        deletePath(after, from);
+        setPath(after, propertyPath(before, rename.newName), current);
+      }
+
+      // FQL-defined properties are computed from the incoming event; null results are not set
+      for (const { property, parsed } of computed) {
+        const result = parsed.valid ? evaluateFql(parsed.expression, before) : null;
+        if (result !== null) setPath(after, propertyPath(before, property.propertyName), result);
+      }
+
+      const hashing = transformation.hashPropertiesConfiguration;
+      if (hashing) {
+        // Hash each property once, even when listed both with and without its prefix
+        const paths = new Map(hashing.properties.map((name) => [propertyPath(before, name).join('.'), name]));
+        for (const name of paths.values()) {
+          const path = propertyPath(before, name);
+          const current = getPath(after, path);
+          if (current !== undefined && current !== null) setPath(after, path, hashPropertyValue(current, hashing));
+        }
+      }
+    }
+
+    return { index, matched, before, after, changes: diffValues(before, after) };
+  });
+}
@@ -0,0 +1,342 @@
+/**
+ * Workspace Configuration Export for Segment MCP Server
+ *
+ * Walks a workspace through the SegmentClient list/get methods and builds a
+ * declarative WorkspaceConfig document with stable ordering and secrets
+ * redacted.
+ */
+
+import type { SegmentClient } from '../client.js';
+import type { AllPagesResponse } from '../types/entities.js';
+import {
+  type DestinationConfig,
+  type TrackingPlanConfig,
+  type WarehouseConfig,
+  WORKSPACE_CONFIG_SECTIONS,
+  WORKSPACE_CONFIG_VERSION,
+  type WorkspaceConfig,
+  type WorkspaceConfigSection,
+} from '../types/workspace-config.js';
+import type { FieldChange } from './diff.js';
+import { SegmentApiError } from './errors.js';
+
+/** Placeholder written in place of secret setting values */
+export const REDACTED = '[REDACTED]';
+
+/** Words that mark a setting name as holding a secret */
+const SECRET_WORDS = new Set([
+  'secret', 'secrets', 'token', 'tokens', 'password', 'passwords', 'passwd', 'passphrase', 'credential', 'credentials',
+  'auth', 'authentication', 'authorization', 'apikey', 'accesskey', 'privatekey', 'secretkey',
+]);
+
+/** Words that make a following `key` a secret one: apiKey, private_key, sharedKey, hmacKey, signingKey */
+const SECRET_KEY_QUALIFIERS = new Set(['api', 'access', 'private', 'secret', 'client', 'shared', 'hmac', 'signing', 'encryption']);
+
+/** Transformation field holding property hashing settings, including an HMAC key */
+const HASHING_FIELD = 'hashPropertiesConfiguration';
+
+export interface ExportWorkspaceOptions {
+  /** Sections to export (default: all) */
+  include?: WorkspaceConfigSection[];
+  /** Include function source code (default: false) */
+  includeFunctionCode?: boolean;
+  /** Replace secret-looking setting values with a placeholder (default: true) */
+  redactSecrets?: boolean;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Check whether a setting name looks like it holds a secret
+ */
+export function isSecretKey(key: string): boolean {
+  // Split camelCase, PascalCase, acronyms, snake_case and kebab-case into lowercase words
+  const words = key
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z]+/);
+  return words.some(
+    (word, index) => SECRET_WORDS.has(word) || (word === 'key' && SECRET_KEY_QUALIFIERS.has(words[index - 1]))
+  );
+}
+
+/**
+ * Replace the values of secret-looking keys, recursively
+ */
+export function redactSecrets(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redactSecrets);
+  if (typeof value !== 'object' || value === null) return value;
+
+  return Object.fromEntries(
+    Object.entries(value as Record<string, unknown>).map(([key, entry]) => [
+      key,
+      isSecretKey(key) && entry !== null && entry !== '' && typeof entry !== 'boolean' ? REDACTED : redactSecrets(entry),
+    ])
+  );
+}
+
+/**
+ * Mask the HMAC key of a transformation hashing configuration, whose field
+ * name (`key`) does not look secret on its own
+ */
+function redactHashingKey(value: unknown): unknown {
+  if (typeof value !== 'object' || value === null || !('key' in value) || !value.key) return value;
+  return { ...value, key: REDACTED };
+}
+
+/**
+ * Mask secret values in field-level changes
+ */
+export function redactChanges(changes: FieldChange[]): FieldChange[] {
+  return changes.map((change) => {
+    const segments = change.path.split('.');
+    const secret = segments.some(
+      (segment, index) => isSecretKey(segment) || (segment === 'key' && segments[index - 1] === HASHING_FIELD)
+    );
+    const hashing = segments[segments.length - 1] === HASHING_FIELD;
+    const mask = (value: unknown) =>
+      value === undefined ? undefined : secret ? REDACTED : redactSecrets(hashing ? redactHashingKey(value) : value);
+    return { path: change.path, before: mask(change.before), after: mask(change.after) };
+  });
+}
+
+/**
+ * Sort object keys recursively and drop undefined values so output is stable
+ */
+export function canonicalize<T>(value: T): T {
+  if (Array.isArray(value)) return value.map(canonicalize) as T;
+  if (typeof value !== 'object' || value === null) return value;
+
+  const record = value as Record<string, unknown>;
+  return Object.fromEntries(
+    Object.keys(record)
+      .sort()
+      .filter((key) => record[key] !== undefined)
+      .map((key) => [key, canonicalize(record[key])])
+  ) as T;
+}
+
+function sortBy<T>(items: T[], ...keys: Array<(item: T) => string>): T[] {
+  return [...items].sort((a, b) => {
+    for (const key of keys) {
+      const order = key(a).localeCompare(key(b));
+      if (order !== 0) return order;
+    }
+    return 0;
+  });
+}
+
+/**
+ * List a sub-resource, treating "not supported for this resource" responses as empty
+ */
+async function listOrEmpty<T>(list: () => Promise<AllPagesResponse<T>>): Promise<T[]> {
+  try {
+    return (await list()).data;
+  } catch (error) {
+    if (error instanceof SegmentApiError && (error.statusCode === 400 || error.statusCode === 404)) {
+      return [];
+    }
+    throw error;
+  }
+}
+
+// =============================================================================
+// Export
+// =============================================================================
+
+/**
+ * Export a workspace as a declarative configuration document
+ */
+export async function exportWorkspaceConfig(
+  client: SegmentClient,
+  options: ExportWorkspaceOptions = {}
+): Promise<WorkspaceConfig> {
+  const sections = new Set(options.include ?? WORKSPACE_CONFIG_SECTIONS);
+  const redact = options.redactSecrets ?? true;
+  const settings = (value: Record<string, unknown> | undefined) =>
+    value === undefined ? undefined : ((redact ? redactSecrets(value) : value) as Record<string, unknown>);
+
+  const workspace = await client.getWorkspace();
+  const config: WorkspaceConfig = {
+    version: WORKSPACE_CONFIG_VERSION,
+    workspace: { id: workspace.id, slug: workspace.slug, name: workspace.name },
+  };
+
+  // Sources are always fetched: every other section refers to them by slug
+  const sources = (await client.listAll((page) => client.listSources(page))).data;
+  const sourceSlugs = new Map(sources.map((source) => [source.id, source.slug]));
+  const sourceSlug = (sourceId: string) => sourceSlugs.get(sourceId) ?? sourceId;
+
+  if (sections.has('sources')) {
+    config.sources = sortBy(
+      sources.map((source) => ({
+        id: source.id,
+        slug: source.slug,
+        name: source.name,
+        metadataId: source.metadata?.id,
+        enabled: source.enabled,
+        labels: source.labels && sortBy(source.labels, (l) => l.key, (l) => l.value),
+        settings: settings(source.settings),
+      })),
+      (source) => source.slug
+    );
+  }
+
+  if (sections.has('destinations')) {
+    const destinations = (await client.listAll((page) => client.listDestinations(page))).data;
+    const configs: DestinationConfig[] = [];
+
+    for (const destination of destinations) {
+      const subscriptions = await listOrEmpty(() =>
+        client.listAll((page) => client.listDestinationSubscriptions(destination.id, page))
+      );
+      const filters = await listOrEmpty(() =>
+        client.listAll((page) => client.listDestinationFilters(destination.id, page))
+      );
+
+      configs.push({
+        id: destination.id,
+        name: destination.name,
+        source: sourceSlug(destination.sourceId),
+        metadataId: destination.metadata?.id,
+        enabled: destination.enabled,
+        settings: settings(destination.settings),
+        subscriptions: sortBy(
+          subscriptions.map((subscription) => ({
+            id: subscription.id,
+            name: subscription.name,
+            actionId: subscription.actionId,
+            actionSlug: subscription.actionSlug,
+            trigger: subscription.trigger,
+            enabled: subscription.enabled,
+            settings: settings(subscription.settings),
+          })),
+          (subscription) => subscription.name
+        ),
+        filters: sortBy(
+          filters.map((filter) => ({
+            id: filter.id,
+            title: filter.title,
+            description: filter.description,
+            if: filter.if,
+            actions: filter.actions,
+            enabled: filter.enabled,
+          })),
+          (filter) => filter.title
+        ),
+      });
+    }
+
+    config.destinations = sortBy(configs, (d) => d.source, (d) => d.name);
+  }
+
+  if (sections.has('warehouses')) {
+    const warehouses = (await client.listAll((page) => client.listWarehouses(page))).data;
+    const configs: WarehouseConfig[] = [];
+
+    for (const warehouse of warehouses) {
+      const connected = await client.listAll((page) => client.listConnectedSourcesFromWarehouse(warehouse.id, page));
+      configs.push({
+        id: warehouse.id,
+        name: warehouse.name ?? warehouse.metadata?.name ?? warehouse.id,
+        metadataId: warehouse.metadata?.id,
+        enabled: warehouse.enabled,
+        settings: settings(warehouse.settings),
+        sources: connected.data.map((source) => source.slug).sort(),
+      });
+    }
+
+    config.warehouses = sortBy(configs, (w) => w.name);
+  }
+
+  if (sections.has('trackingPlans')) {
+    const plans = (await client.listAll((page) => client.listTrackingPlans(page))).data;
+    const configs: TrackingPlanConfig[] = [];
+
+    for (const plan of plans) {
+      const rules = await client.listAll((page) => client.listTrackingPlanRules(plan.id, page));
+      const connected = await client.listAll((page) => client.listSourcesFromTrackingPlan(plan.id, page));
+      configs.push({
+        id: plan.id,
+        name: plan.name,
+        type: plan.type,
+        description: plan.description,
+        rules: sortBy(
+          rules.data.map((rule) => ({ type: rule.type, key: rule.key, version: rule.version, jsonSchema: rule.jsonSchema })),
+          (rule) => rule.type,
+          (rule) => rule.key
+        ),
+        sources: connected.data.map((source) => source.slug).sort(),
+      });
+    }
+
+    config.trackingPlans = sortBy(configs, (p) => p.name);
+  }
+
+  if (sections.has('transformations')) {
+    const transformations = (await client.listAll((page) => client.listTransformations(page))).data;
+    config.transformations = sortBy(
+      transformations.map((transformation) => ({
+        id: transformation.id,
+        name: transformation.name,
+        source: sourceSlug(transformation.sourceId),
+        destinationMetadataId: transformation.destinationMetadataId,
+        enabled: transformation.enabled,
+        if: transformation.if,
+        newEventName: transformation.newEventName,
+        propertyRenames: transformation.propertyRenames,
+        fqlDefinedProperties: transformation.fqlDefinedProperties,
+        hashPropertiesConfiguration: transformation.hashPropertiesConfiguration && {
+          ...transformation.hashPropertiesConfiguration,
+          key: redact && transformation.hashPropertiesConfiguration.key ? REDACTED : transformation.hashPropertiesConfiguration.key,
+        },
+      })),
+      (t) => t.source,
+      (t) => t.name
+    );
+  }
+
+  if (sections.has('functions')) {
+    const functions = (await client.listAll((page) => client.listFunctions(page))).data;
+    config.functions = sortBy(
+      functions.map((fn) => ({
+        id: fn.id,
+        displayName: fn.displayName,
+        resourceType: fn.resourceType,
+        description: fn.description,
+        settings: fn.settings && sortBy(fn.settings, (setting) => setting.name),
+        code: options.includeFunctionCode ? fn.code : undefined,
+      })),
+      (fn) => fn.resourceType,
+      (fn) => fn.displayName
+    );
+  }
+
+  if (sections.has('reverseEtlModels')) {
+    const models = (await client.listAll((page) => client.listReverseETLModels(page))).data;
+    config.reverseEtlModels = sortBy(
+      models.map((model) => ({
+        id: model.id,
+        name: model.name,
+        source: sourceSlug(model.sourceId),
+        description: model.description,
+        enabled: model.enabled,
+        scheduleStrategy: model.scheduleStrategy,
+        scheduleConfig: model.scheduleConfig,
+        query: model.query,
+        queryIdentifierColumn: model.queryIdentifierColumn,
+      })),
+      (model) => model.name
+    );
+  }
+
+  if (sections.has('labels')) {
+    const labels = (await client.listAll((page) => client.listLabels(page))).data;
+    config.labels = sortBy(labels, (l) => l.key, (l) => l.value);
+  }
+
+  return canonicalize(config);
+}
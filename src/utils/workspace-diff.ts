@@ -0,0 +1,133 @@
+/**
+ * Cross-Workspace Comparison for Segment MCP Server
+ *
+ * Compares two WorkspaceConfig documents, matching resources by slug or name
+ * rather than ID, and reports additions, removals and field differences.
+ */
+
+import type { WorkspaceConfig } from '../types/workspace-config.js';
+import { diffValues, type FieldChange } from './diff.js';
+import { redactChanges } from './workspace-config.js';
+
+/** Sections compared across workspaces */
+export const COMPARED_WORKSPACE_SECTIONS = ['sources', 'destinations', 'trackingPlans', 'transformations'] as const;
+
+export type ComparedWorkspaceSection = (typeof COMPARED_WORKSPACE_SECTIONS)[number];
+
+/**
+ * A resource that differs between the two workspaces
+ */
+export interface WorkspaceDifference {
+  section: ComparedWorkspaceSection;
+  /** Slug or name the resource was matched on */
+  key: string;
+  /** `added`: only in the compared workspace; `removed`: only in the base workspace */
+  status: 'added' | 'removed' | 'changed';
+  /** Field-level differences, with secret values redacted */
+  changes?: FieldChange[];
+}
+
+export interface WorkspaceComparison {
+  summary: { added: number; removed: number; changed: number; unchanged: number };
+  differences: WorkspaceDifference[];
+}
+
+// =============================================================================
+// Normalization
+// =============================================================================
+
+function withoutId<T extends { id?: string }>(item: T): Omit<T, 'id'> {
+  const { id: _id, ...rest } = item;
+  return rest;
+}
+
+function keyed<T extends { id?: string }>(items: T[] | undefined, key: (item: T) => string) {
+  return items && Object.fromEntries(items.map((item) => [key(item), withoutId(item)]));
+}
+
+/**
+ * Key every comparable resource by its matching key, with IDs removed and
+ * nested lists turned into maps so differences are reported per field.
+ */
+function normalize(config: WorkspaceConfig): Record<ComparedWorkspaceSection, Map<string, unknown>> {
+  return {
+    sources: new Map((config.sources ?? []).map((source) => [source.slug, withoutId(source)])),
+    destinations: new Map(
+      (config.destinations ?? []).map((destination) => [
+        `${destination.source}/${destination.name}`,
+        {
+          ...withoutId(destination),
+          subscriptions: keyed(destination.subscriptions, (subscription) => subscription.name),
+          filters: keyed(destination.filters, (filter) => filter.title),
+        },
+      ])
+    ),
+    trackingPlans: new Map(
+      (config.trackingPlans ?? []).map((plan) => [
+        plan.name,
+        {
+          ...withoutId(plan),
+          // Rule versions differ between workspaces even when schemas match
+          rules: plan.rules && Object.fromEntries(plan.rules.map((rule) => [`${rule.type}:${rule.key}`, rule.jsonSchema])),
+        },
+      ])
+    ),
+    transformations: new Map(
+      (config.transformations ?? []).map((transformation) => [
+        `${transformation.source}/${transformation.name}`,
+        withoutId(transformation),
+      ])
+    ),
+  };
+}
+
+// =============================================================================
+// Comparison
+// =============================================================================
+
+/**
+ * Compare two workspace configurations section by section.
+ *
+ * Sources are matched by slug, destinations and transformations by source slug
+ * and name, and tracking plans by name. Only sections present in both
+ * documents are compared.
+ */
+export function compareWorkspaceConfigs(base: WorkspaceConfig, compare: WorkspaceConfig): WorkspaceComparison {
+  const left = normalize(base);
+  const right = normalize(compare);
+  const differences: WorkspaceDifference[] = [];
+  let unchanged = 0;
+
+  for (const section of COMPARED_WORKSPACE_SECTIONS) {
+    if (base[section] === undefined || compare[section] === undefined) continue;
+
+    const keys = [...new Set([...left[section].keys(), ...right[section].keys()])].sort();
+    for (const key of keys) {
+      const before = left[section].get(key);
+      const after = right[section].get(key);
+
+      if (before === undefined) {
+        differences.push({ section, key, status: 'added' });
+      } else if (after === undefined) {
+        differences.push({ section, key, status: 'removed' });
+      } else {
+        const changes = diffValues(before, after);
+        if (changes.length === 0) {
+          unchanged++;
+        } else {
+          differences.push({ section, key, status: 'changed', changes: redactChanges(changes) });
+        }
+      }
+    }
+  }
+
+  return {
+    summary: {
+      added: differences.filter((difference) => difference.status === 'added').length,
+      removed: differences.filter((difference) => difference.status === 'removed').length,
+      changed: differences.filter((difference) => difference.status === 'changed').length,
+      unchanged,
+    },
+    differences,
+  };
+}
@@ -0,0 +1,637 @@
+/**
+ * Workspace Configuration Plan/Apply for Segment MCP Server
+ *
+ * Compares a desired-state WorkspaceConfig document with the live workspace,
+ * produces an ordered list of create/update/delete steps with field-level
+ * diffs, and applies those steps through the SegmentClient.
+ */
+
+import type { SegmentClient } from '../client.js';
+import type { TrackingPlanRule } from '../types/entities.js';
+import {
+  type DesiredDestinationConfig,
+  type DesiredDestinationFilterConfig,
+  type DesiredDestinationSubscriptionConfig,
+  type DesiredSourceConfig,
+  type DesiredTrackingPlanConfig,
+  type DesiredWorkspaceConfig,
+  type DestinationConfig,
+  type DestinationFilterConfig,
+  type DestinationSubscriptionConfig,
+  type SourceConfig,
+  type TrackingPlanConfig,
+  WORKSPACE_CONFIG_SECTIONS,
+  type WorkspaceConfig,
+  type WorkspaceConfigSection,
+} from '../types/workspace-config.js';
+import { diffValues, type FieldChange } from './diff.js';
+import { ValidationError } from './errors.js';
+import { parseFql } from './fql.js';
+import { type RuleHistory, updateRulesWithHistory } from './rule-history.js';
+import { exportWorkspaceConfig, REDACTED, redactChanges } from './workspace-config.js';
+
+/** Sections that plan/apply can reconcile */
+export const MANAGED_WORKSPACE_SECTIONS = ['sources', 'destinations', 'trackingPlans'] as const;
+
+export type WorkspaceResourceType =
+  | 'source'
+  | 'destination'
+  | 'destinationSubscription'
+  | 'destinationFilter'
+  | 'trackingPlan'
+  | 'trackingPlanRules'
+  | 'trackingPlanSource';
+
+/**
+ * A single step of a workspace plan
+ */
+export interface WorkspacePlanStep {
+  action: 'create' | 'update' | 'delete';
+  resourceType: WorkspaceResourceType;
+  /** Stable address built from slugs and names, e.g. `destination.web/Amplitude` */
+  address: string;
+  /** ID of the existing resource (absent for creates) */
+  resourceId?: string;
+  /** Address of the resource this one belongs to */
+  parent?: string;
+  /** Field-level changes, with secret values redacted */
+  changes: FieldChange[];
+  /** Desired state used when applying the step */
+  desired?: Record<string, unknown>;
+}
+
+export interface WorkspacePlan {
+  steps: WorkspacePlanStep[];
+  summary: { create: number; update: number; delete: number };
+  /** Sections present in the desired document that plan/apply does not reconcile */
+  unmanagedSections: WorkspaceConfigSection[];
+}
+
+export interface PlanWorkspaceOptions {
+  /** Delete resources that are missing from the desired document (default: false) */
+  prune?: boolean;
+}
+
+export interface AppliedWorkspaceStep {
+  action: WorkspacePlanStep['action'];
+  resourceType: WorkspaceResourceType;
+  address: string;
+  status: 'applied' | 'failed' | 'skipped';
+  resourceId?: string;
+  error?: string;
+  /** Rule history version recorded for a tracking plan rules step */
+  historyVersion?: number;
+  historyError?: string;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Overlay desired values on the current ones. Fields the document omits keep
+ * their current value, and `[REDACTED]` placeholders from an export are
+ * treated as "unchanged".
+ */
+function mergeDesired(current: unknown, desired: unknown): unknown {
+  if (desired === undefined || desired === REDACTED) return current;
+  if (isPlainObject(current) && isPlainObject(desired)) {
+    const merged: Record<string, unknown> = { ...current };
+    for (const [key, value] of Object.entries(desired)) {
+      merged[key] = mergeDesired(current[key], value);
+    }
+    return merged;
+  }
+  return desired;
+}
+
+function containsRedacted(value: unknown): boolean {
+  if (value === REDACTED) return true;
+  if (Array.isArray(value)) return value.some(containsRedacted);
+  return isPlainObject(value) && Object.values(value).some(containsRedacted);
+}
+
+function pick<T extends object>(value: T | undefined, fields: Array<keyof T>): Record<string, unknown> {
+  if (!value) return {};
+  return Object.fromEntries(fields.filter((field) => value[field] !== undefined).map((field) => [field, value[field]]));
+}
+
+function checkFql(address: string, field: string, source: string | undefined, errors: string[]): void {
+  if (source === undefined) return;
+  const result = parseFql(source);
+  if (!result.valid) errors.push(`${address}: invalid FQL in ${field}: ${result.error.message} (column ${result.error.column})`);
+}
+
+function indexBy<T>(items: T[] | undefined, key: (item: T) => string, label: string, errors: string[]): Map<string, T> {
+  const index = new Map<string, T>();
+  for (const item of items ?? []) {
+    const id = key(item);
+    if (index.has(id)) {
+      errors.push(`Duplicate ${label} '${id}'`);
+    }
+    index.set(id, item);
+  }
+  return index;
+}
+
+/**
+ * Plans the create/update/delete steps for one collection of resources
+ */
+class StepBuilder {
+  readonly steps: WorkspacePlanStep[] = [];
+  readonly deletes: WorkspacePlanStep[] = [];
+  readonly errors: string[] = [];
+
+  constructor(private readonly prune: boolean) {}
+
+  reconcile<T extends { id?: string }, D extends object = T>(options: {
+    resourceType: WorkspaceResourceType;
+    current: Map<string, T>;
+    desired: Map<string, D>;
+    address: (key: string) => string;
+    parent?: string;
+    fields: Array<keyof T & keyof D>;
+    immutable?: Array<keyof T & keyof D>;
+    /** Fields that must be set to create the resource */
+    required?: Array<keyof T & keyof D>;
+    extra?: (desired: D) => Record<string, unknown>;
+    onMatch?: (key: string, current: T | undefined, desired: D) => void;
+  }): void {
+    for (const [key, desired] of options.desired) {
+      const current = options.current.get(key);
+      const address = options.address(key);
+      const before = pick(current, options.fields);
+      const after = mergeDesired(before, pick(desired, options.fields)) as Record<string, unknown>;
+
+      if (!current) {
+        if (containsRedacted(after)) {
+          this.errors.push(`${address}: cannot create a resource with ${REDACTED} values; supply the real settings`);
+        }
+        for (const field of options.required ?? []) {
+          if (after[field as string] === undefined) {
+            this.errors.push(`${address}: '${String(field)}' is required to create this resource`);
+          }
+        }
+      } else {
+        for (const field of options.immutable ?? []) {
+          if (desired[field] !== undefined && desired[field] !== current[field]) {
+            this.errors.push(`${address}: '${String(field)}' cannot be changed (${current[field]} → ${desired[field]})`);
+          }
+        }
+      }
+
+      const changes = diffValues(before, after);
+      if (!current || changes.length > 0) {
+        this.steps.push({
+          action: current ? 'update' : 'create',
+          resourceType: options.resourceType,
+          address,
+          ...(current?.id && { resourceId: current.id }),
+          ...(options.parent && { parent: options.parent }),
+          changes: redactChanges(changes),
+          desired: { ...after, ...options.extra?.(desired) },
+        });
+      }
+      options.onMatch?.(key, current, desired);
+    }
+
+    if (!this.prune) return;
+    for (const [key, current] of options.current) {
+      if (options.desired.has(key)) continue;
+      this.deletes.push({
+        action: 'delete',
+        resourceType: options.resourceType,
+        address: options.address(key),
+        ...(current.id && { resourceId: current.id }),
+        ...(options.parent && { parent: options.parent }),
+        changes: redactChanges(diffValues(pick(current, options.fields), {})),
+      });
+    }
+  }
+}
+
+// =============================================================================
+// Plan
+// =============================================================================
+
+/**
+ * Compute the steps needed to bring the current configuration to the desired one.
+ *
+ * Only sections present in the desired document are reconciled; nested lists
+ * (subscriptions, filters, rules, connected sources) are only reconciled when
+ * the desired resource lists them. Steps are ordered so they can be applied
+ * top to bottom: creates and updates parent-first, deletes child-first.
+ */
+export function planWorkspaceConfig(
+  current: WorkspaceConfig,
+  desired: DesiredWorkspaceConfig,
+  options: PlanWorkspaceOptions = {}
+): WorkspacePlan {
+  const builder = new StepBuilder(options.prune ?? false);
+  const errors = builder.errors;
+  const sourceAddress = (slug: string) => `source.${slug}`;
+  const knownSources = new Set([...(current.sources ?? []), ...(desired.sources ?? [])].map((source) => source.slug));
+
+  if (desired.sources) {
+    const currentSources = indexBy(current.sources, (source) => source.slug, 'source', errors);
+    // Labels can only be added to a source, so existing labels stay in the desired list
+    const missingLabels = (source: DesiredSourceConfig) => {
+      const existing = currentSources.get(source.slug)?.labels ?? [];
+      return (source.labels ?? []).filter((label) => !existing.some((e) => e.key === label.key && e.value === label.value));
+    };
+    const desiredSources = desired.sources.map((source) => ({
+      ...source,
+      labels: [...(currentSources.get(source.slug)?.labels ?? []), ...missingLabels(source)],
+    }));
+
+    builder.reconcile<SourceConfig, DesiredSourceConfig>({
+      resourceType: 'source',
+      current: currentSources,
+      desired: indexBy(desiredSources, (source) => source.slug, 'source', errors),
+      address: sourceAddress,
+      fields: ['name', 'metadataId', 'enabled', 'labels', 'settings'],
+      immutable: ['metadataId'],
+      required: ['name', 'metadataId'],
+      extra: (source) => ({ slug: source.slug, addLabels: missingLabels(source) }),
+    });
+  }
+
+  if (desired.destinations) {
+    const destinationKey = (destination: DesiredDestinationConfig) => `${destination.source}/${destination.name}`;
+    const destinationAddress = (key: string) => `destination.${key}`;
+    const currentDestinations = indexBy(current.destinations, destinationKey, 'destination', errors);
+
+    for (const destination of desired.destinations) {
+      if (!knownSources.has(destination.source)) {
+        errors.push(`${destinationAddress(destinationKey(destination))}: unknown source '${destination.source}'`);
+      }
+    }
+
+    builder.reconcile<DestinationConfig, DesiredDestinationConfig>({
+      resourceType: 'destination',
+      current: currentDestinations,
+      desired: indexBy(desired.destinations, destinationKey, 'destination', errors),
+      address: destinationAddress,
+      fields: ['name', 'metadataId', 'enabled', 'settings'],
+      immutable: ['metadataId'],
+      required: ['metadataId'],
+      extra: (destination) => ({ source: destination.source }),
+      onMatch: (key, currentDestination, desiredDestination) => {
+        const parent = destinationAddress(key);
+        if (desiredDestination.subscriptions) {
+          for (const subscription of desiredDestination.subscriptions) {
+            checkFql(`${parent}.subscription.${subscription.name}`, 'trigger', subscription.trigger, errors);
+          }
+          builder.reconcile<DestinationSubscriptionConfig, DesiredDestinationSubscriptionConfig>({
+            resourceType: 'destinationSubscription',
+            current: indexBy(currentDestination?.subscriptions, (s) => s.name, 'subscription', errors),
+            desired: indexBy(desiredDestination.subscriptions, (s) => s.name, 'subscription', errors),
+            address: (name) => `${parent}.subscription.${name}`,
+            parent,
+            fields: ['name', 'actionId', 'trigger', 'enabled', 'settings'],
+            immutable: ['actionId'],
+            required: ['actionId', 'trigger'],
+          });
+        }
+        if (desiredDestination.filters) {
+          for (const filter of desiredDestination.filters) {
+            checkFql(`${parent}.filter.${filter.title}`, 'if', filter.if, errors);
+          }
+          builder.reconcile<DestinationFilterConfig, DesiredDestinationFilterConfig>({
+            resourceType: 'destinationFilter',
+            current: indexBy(currentDestination?.filters, (f) => f.title, 'filter', errors),
+            desired: indexBy(desiredDestination.filters, (f) => f.title, 'filter', errors),
+            address: (title) => `${parent}.filter.${title}`,
+            parent,
+            fields: ['title', 'description', 'if', 'actions', 'enabled'],
+            required: ['if', 'actions'],
+            extra: () => ({ source: desiredDestination.source }),
+          });
+        }
+      },
+    });
+  }
+
+  if (desired.trackingPlans) {
+    const planAddress = (name: string) => `trackingPlan.${name}`;
+    const currentPlans = indexBy(current.trackingPlans, (plan) => plan.name, 'tracking plan', errors);
+
+    builder.reconcile<TrackingPlanConfig, DesiredTrackingPlanConfig>({
+      resourceType: 'trackingPlan',
+      current: currentPlans,
+      desired: indexBy(desired.trackingPlans, (plan) => plan.name, 'tracking plan', errors),
+      address: planAddress,
+      fields: ['name', 'type', 'description'],
+      immutable: ['type'],
+      onMatch: (name, currentPlan, desiredPlan) => {
+        const parent = planAddress(name);
+
+        if (desiredPlan.rules) {
+          // Rules are upserted by type and key; rules missing from the document are left alone
+          const ruleKey = (rule: { type: string; key: string }) => `${rule.type}:${rule.key}`;
+          const before = Object.fromEntries((currentPlan?.rules ?? []).map((rule) => [ruleKey(rule), rule.jsonSchema]));
+          const changed = desiredPlan.rules.filter((rule) => diffValues(before[ruleKey(rule)], rule.jsonSchema).length > 0);
+          if (changed.length > 0) {
+            const after = { ...before, ...Object.fromEntries(changed.map((rule) => [ruleKey(rule), rule.jsonSchema])) };
+            builder.steps.push({
+              action: currentPlan ? 'update' : 'create',
+              resourceType: 'trackingPlanRules',
+              address: `${parent}.rules`,
+              parent,
+              changes: diffValues(before, after),
+              desired: { rules: changed },
+            });
+          }
+        }
+
+        if (desiredPlan.sources) {
+          for (const slug of desiredPlan.sources) {
+            if (!knownSources.has(slug)) errors.push(`${parent}: unknown source '${slug}'`);
+          }
+          const toConnections = (slugs: string[] | undefined) => new Map((slugs ?? []).map((slug) => [slug, { slug }]));
+          builder.reconcile<{ id?: string; slug: string }>({
+            resourceType: 'trackingPlanSource',
+            current: toConnections(currentPlan?.sources),
+            desired: toConnections(desiredPlan.sources),
+            address: (slug) => `${parent}.source.${slug}`,
+            parent,
+            fields: ['slug'],
+          });
+        }
+      },
+    });
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError('Workspace configuration cannot be planned', { config: errors });
+  }
+
+  // Deletes run after every create/update, children before their parents
+  const deleteOrder: WorkspaceResourceType[] = [
+    'trackingPlanSource',
+    'destinationFilter',
+    'destinationSubscription',
+    'destination',
+    'trackingPlan',
+    'source',
+  ];
+  const deletes = deleteOrder.flatMap((type) => builder.deletes.filter((step) => step.resourceType === type));
+  const steps = [...builder.steps, ...deletes];
+
+  return {
+    steps,
+    summary: {
+      create: steps.filter((step) => step.action === 'create').length,
+      update: steps.filter((step) => step.action === 'update').length,
+      delete: steps.filter((step) => step.action === 'delete').length,
+    },
+    unmanagedSections: WORKSPACE_CONFIG_SECTIONS.filter(
+      (section) =>
+        desired[section] !== undefined && !(MANAGED_WORKSPACE_SECTIONS as readonly string[]).includes(section)
+    ),
+  };
+}
+
+/**
+ * Plan a desired configuration against the live workspace
+ */
+export async function planWorkspaceChanges(
+  client: SegmentClient,
+  desired: DesiredWorkspaceConfig,
+  options: PlanWorkspaceOptions = {}
+): Promise<{ plan: WorkspacePlan; current: WorkspaceConfig }> {
+  const include = MANAGED_WORKSPACE_SECTIONS.filter((section) => desired[section] !== undefined);
+  // Secrets are compared unredacted; plan output redacts them per change
+  const current = await exportWorkspaceConfig(client, { include: ['sources', ...include], redactSecrets: false });
+  return { plan: planWorkspaceConfig(current, desired, options), current };
+}
+
+// =============================================================================
+// Apply
+// =============================================================================
+
+/**
+ * Apply plan steps in order, stopping at the first failure.
+ *
+ * `current` must be the configuration the plan was computed from; it supplies
+ * the IDs of existing resources. Steps after a failure are reported as skipped.
+ * Rule writes are recorded in `history` when rule history is enabled.
+ */
+export async function applyWorkspacePlan(
+  client: SegmentClient,
+  plan: WorkspacePlan,
+  current: WorkspaceConfig,
+  history?: RuleHistory
+): Promise<AppliedWorkspaceStep[]> {
+  const ids = new Map<string, string>();
+  for (const source of current.sources ?? []) {
+    if (source.id) ids.set(`source.${source.slug}`, source.id);
+  }
+  for (const destination of current.destinations ?? []) {
+    if (destination.id) ids.set(`destination.${destination.source}/${destination.name}`, destination.id);
+  }
+  for (const trackingPlan of current.trackingPlans ?? []) {
+    if (trackingPlan.id) ids.set(`trackingPlan.${trackingPlan.name}`, trackingPlan.id);
+  }
+
+  const requireId = (address: string): string => {
+    const id = ids.get(address);
+    if (!id) throw new ValidationError(`No resource ID known for ${address}`);
+    return id;
+  };
+
+  const results: AppliedWorkspaceStep[] = [];
+  let failed = false;
+
+  for (const step of plan.steps) {
+    const result: AppliedWorkspaceStep = {
+      action: step.action,
+      resourceType: step.resourceType,
+      address: step.address,
+      status: 'skipped',
+      ...(step.resourceId && { resourceId: step.resourceId }),
+    };
+    results.push(result);
+    if (failed) continue;
+
+    try {
+      const resourceId = await applyStep(client, step, requireId, history, result);
+      if (resourceId) {
+        ids.set(step.address, resourceId);
+        result.resourceId = resourceId;
+      }
+      result.status = 'applied';
+    } catch (error) {
+      failed = true;
+      result.status = 'failed';
+      result.error = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  return results;
+}
+
+async function applyStep(
+  client: SegmentClient,
+  step: WorkspacePlanStep,
+  requireId: (address: string) => string,
+  history: RuleHistory | undefined,
+  result: AppliedWorkspaceStep
+): Promise<string | undefined> {
+  const desired = step.desired ?? {};
+  const changed = new Set(step.changes.map((change) => change.path.split('.')[0]));
+  const ifChanged = <T>(field: string) => (changed.has(field) ? (desired[field] as T) : undefined);
+  const parentId = () => requireId(step.parent ?? '');
+  const sourceId = () => requireId(`source.${desired.source}`);
+
+  switch (step.resourceType) {
+    case 'source': {
+      if (step.action === 'delete') {
+        await client.deleteSource(step.resourceId ?? '');
+        return undefined;
+      }
+      const id =
+        step.action === 'create'
+          ? (
+              await client.createSource(
+                desired.slug as string,
+                desired.name as string,
+                desired.metadataId as string,
+                desired.settings as Record<string, unknown> | undefined
+              )
+            ).id
+          : (step.resourceId as string);
+      const name = step.action === 'update' ? ifChanged<string>('name') : undefined;
+      const settings = step.action === 'update' ? ifChanged<Record<string, unknown>>('settings') : undefined;
+      const enabled = ifChanged<boolean>('enabled');
+      if (name !== undefined || enabled !== undefined || settings !== undefined) {
+        await client.updateSource(id, name, enabled, settings);
+      }
+      const addLabels = desired.addLabels as Array<{ key: string; value: string }>;
+      if (addLabels.length > 0) {
+        await client.addLabelsToSource(id, addLabels);
+      }
+      return id;
+    }
+
+    case 'destination': {
+      if (step.action === 'delete') {
+        await client.deleteDestination(step.resourceId ?? '');
+        return undefined;
+      }
+      if (step.action === 'create') {
+        const destination = await client.createDestination(
+          sourceId(),
+          desired.metadataId as string,
+          desired.name as string,
+          desired.settings as Record<string, unknown> | undefined,
+          desired.enabled as boolean | undefined
+        );
+        return destination.id;
+      }
+      await client.updateDestination(
+        step.resourceId as string,
+        undefined,
+        ifChanged<boolean>('enabled'),
+        ifChanged<Record<string, unknown>>('settings')
+      );
+      return undefined;
+    }
+
+    case 'destinationSubscription': {
+      if (step.action === 'delete') {
+        await client.deleteDestinationSubscription(parentId(), step.resourceId ?? '');
+        return undefined;
+      }
+      if (step.action === 'create') {
+        const subscription = await client.createDestinationSubscription(
+          parentId(),
+          desired.name as string,
+          desired.actionId as string,
+          desired.trigger as string,
+          desired.enabled as boolean | undefined,
+          desired.settings as Record<string, unknown> | undefined
+        );
+        return subscription.id;
+      }
+      await client.updateDestinationSubscription(
+        parentId(),
+        step.resourceId as string,
+        undefined,
+        ifChanged<boolean>('enabled'),
+        ifChanged<string>('trigger'),
+        ifChanged<Record<string, unknown>>('settings')
+      );
+      return undefined;
+    }
+
+    case 'destinationFilter': {
+      type FilterActions = DestinationFilterConfig['actions'];
+      if (step.action === 'delete') {
+        await client.deleteDestinationFilter(parentId(), step.resourceId ?? '');
+        return undefined;
+      }
+      if (step.action === 'create') {
+        const filter = await client.createDestinationFilter(
+          sourceId(),
+          parentId(),
+          desired.title as string,
+          desired.if as string,
+          desired.actions as FilterActions,
+          desired.enabled as boolean | undefined,
+          desired.description as string | undefined
+        );
+        return filter.id;
+      }
+      await client.updateDestinationFilter(
+        parentId(),
+        step.resourceId as string,
+        undefined,
+        ifChanged<string>('if'),
+        ifChanged<FilterActions>('actions'),
+        ifChanged<boolean>('enabled'),
+        ifChanged<string>('description')
+      );
+      return undefined;
+    }
+
+    case 'trackingPlan': {
+      if (step.action === 'delete') {
+        await client.deleteTrackingPlan(step.resourceId ?? '');
+        return undefined;
+      }
+      if (step.action === 'create') {
+        const trackingPlan = await client.createTrackingPlan(
+          desired.name as string,
+          desired.type as string | undefined,
+          desired.description as string | undefined
+        );
+        return trackingPlan.id;
+      }
+      await client.updateTrackingPlan(step.resourceId as string, undefined, ifChanged<string>('description'));
+      return undefined;
+    }
+
+    case 'trackingPlanRules':
+      Object.assign(
+        result,
+        await updateRulesWithHistory(client, history, parentId(), desired.rules as TrackingPlanRule[], { action: 'apply' })
+      );
+      return undefined;
+
+    case 'trackingPlanSource': {
+      const slug = step.address.slice(`${step.parent}.source.`.length);
+      const connectedSourceId = requireId(`source.${slug}`);
+      if (step.action === 'delete') {
+        await client.removeSourceFromTrackingPlan(parentId(), connectedSourceId);
+      } else {
+        await client.addSourceToTrackingPlan(parentId(), connectedSourceId);
+      }
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * YAML Serialization for Segment MCP Server
+ *
+ * Emits block-style YAML for JSON-compatible values. Strings are quoted
+ * whenever a plain scalar could be misread, and multi-line strings (function
+ * code, SQL queries) use literal blocks.
+ */
+
+const PLAIN_STRING = /^[A-Za-z_/][\w ./@-]*$/;
+const RESERVED_WORDS = new Set(['true', 'false', 'null', 'yes', 'no', 'on', 'off', '~']);
+
+function formatScalar(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  if (typeof value === 'string') {
+    if (PLAIN_STRING.test(value) && !RESERVED_WORDS.has(value.toLowerCase()) && !value.endsWith(' ')) {
+      return value;
+    }
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+function formatKey(key: string): string {
+  return PLAIN_STRING.test(key) && !RESERVED_WORDS.has(key.toLowerCase()) ? key : JSON.stringify(key);
+}
+
+/**
+ * Check whether a string is written as a literal block. Strings with carriage
+ * returns or other control characters stay double-quoted, since a literal
+ * block would not preserve them.
+ */
+function isMultiline(value: unknown): value is string {
+  if (typeof value !== 'string' || !value.includes('\n')) return false;
+  return ![...value].some((char) => char < ' ' && char !== '\n' && char !== '\t');
+}
+
+function literalBlock(value: string, indent: string): string {
+  // Strip (-) drops the final line break, clip keeps one after content and keep (+) keeps them all
+  const trailing = value.length - value.replace(/\n+$/, '').length;
+  const chomp = trailing === 0 ? '-' : trailing === 1 && value.length > 1 ? '' : '+';
+  const body = value.slice(0, trailing > 0 ? -1 : undefined).split('\n');
+  // Content sits two spaces in from its key or dash; say so when the first line's own leading spaces would hide it
+  const indentation = body.find((line) => line !== '')?.startsWith(' ') ? '2' : '';
+  return `|${indentation}${chomp}\n${body.map((line) => (line ? `${indent}${line}` : '')).join('\n')}`;
+}
+
+function isEmptyCollection(value: unknown): boolean {
+  return (
+    (Array.isArray(value) && value.length === 0) ||
+    (typeof value === 'object' && value !== null && Object.keys(value).length === 0)
+  );
+}
+
+function emit(value: unknown, indent: string): string[] {
+  const childIndent = `${indent}  `;
+
+  if (Array.isArray(value)) {
+    return value.flatMap((item) => {
+      if (isMultiline(item)) return [`${indent}- ${literalBlock(item, childIndent)}`];
+      if (typeof item !== 'object' || item === null || isEmptyCollection(item)) {
+        return [`${indent}- ${isEmptyCollection(item) ? JSON.stringify(item) : formatScalar(item)}`];
+      }
+      // Nested collections start on the dash line
+      const [first, ...rest] = emit(item, childIndent);
+      return [`${indent}- ${first.trimStart()}`, ...rest];
+    });
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    return Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .flatMap(([key, entry]) => {
+        const prefix = `${indent}${formatKey(key)}:`;
+        if (isMultiline(entry)) return [`${prefix} ${literalBlock(entry, childIndent)}`];
+        if (isEmptyCollection(entry)) return [`${prefix} ${JSON.stringify(entry)}`];
+        if (typeof entry === 'object' && entry !== null) return [prefix, ...emit(entry, childIndent)];
+        return [`${prefix} ${formatScalar(entry)}`];
+      });
+  }
+
+  return [`${indent}${formatScalar(value)}`];
+}
+
+/**
+ * Serialize a JSON-compatible value as YAML
+ */
+export function toYaml(value: unknown): string {
+  if (isEmptyCollection(value)) return `${JSON.stringify(value)}\n`;
+  return `${emit(value, '').join('\n')}\n`;
+}